@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { FILMSTRIP_LAYOUT_HEADER, FilmstripRequestSchema } from '@/types/preview';
+import { parsePreviewForm, renderFilmstrip } from '@/lib/ffmpeg/preview-renders';
+import { filmstripLayout } from '@/lib/ffmpeg/preview-command';
+import { ensureDiskSpace } from '@/lib/ffmpeg/workspace';
+import { InsufficientDiskSpaceError, PreviewRequestError, RenderCancelledError } from '@/lib/ffmpeg/errors';
+import { getCapabilities } from '@/lib/ffmpeg/binaries';
+import { isFilmstripSupported } from '@/lib/ffmpeg/requirements';
+import { parseJsonField } from '@/lib/ffmpeg/form-fields';
+
+export const dynamic = 'force-dynamic';
+
+// Takes the preview upload plus a `filmstrip` field with the times to show; answers with a PNG sprite sheet
+export async function POST(request: NextRequest) {
+	try {
+		await ensureDiskSpace();
+
+		const capabilities = await getCapabilities();
+		if (!capabilities.available) {
+			return NextResponse.json({ error: capabilities.error || 'FFmpeg is unavailable' }, { status: 503 });
+		}
+		if (!isFilmstripSupported(capabilities)) {
+			return NextResponse.json({ error: 'This ffmpeg build lacks the filters or PNG encoder filmstrips need' }, { status: 422 });
+		}
+
+		const formData = await request.formData();
+		const filmstripField = formData.get('filmstrip');
+		const parsedFilmstrip = parseJsonField(FilmstripRequestSchema, filmstripField);
+		if (!parsedFilmstrip.success) {
+			const issue = parsedFilmstrip.error.issues[0];
+			return NextResponse.json({ error: `Invalid filmstrip request: ${issue?.message ?? 'unknown error'}` }, { status: 400 });
+		}
+
+		const preview = await parsePreviewForm(formData, capabilities);
+		const image = await renderFilmstrip(preview, parsedFilmstrip.data, request.signal);
+
+		const headers = new Headers();
+		headers.set('Content-Type', 'image/png');
+		headers.set('Content-Length', image.length.toString());
+		headers.set('Cache-Control', 'no-store');
+		headers.set(FILMSTRIP_LAYOUT_HEADER, JSON.stringify(filmstripLayout(preview.clips, preview.settings, parsedFilmstrip.data)));
+		return new NextResponse(image, { headers });
+	} catch (error) {
+		if (error instanceof PreviewRequestError) {
+			return NextResponse.json({ error: error.message }, { status: error.status });
+		}
+		if (error instanceof RenderCancelledError) {
+			return NextResponse.json({ error: error.message }, { status: 499 });
+		}
+		console.error('Filmstrip render error:', error);
+		return NextResponse.json(
+			{ error: error instanceof Error ? error.message : 'Filmstrip render failed' },
+			{ status: error instanceof InsufficientDiskSpaceError ? 507 : 500 }
+		);
+	}
+}
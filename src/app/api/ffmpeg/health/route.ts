@@ -0,0 +1,10 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getCapabilities } from '@/lib/ffmpeg/binaries';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+	const refresh = request.nextUrl.searchParams.get('refresh') === '1';
+	const capabilities = await getCapabilities(refresh);
+	return NextResponse.json(capabilities, { status: capabilities.available ? 200 : 503 });
+}
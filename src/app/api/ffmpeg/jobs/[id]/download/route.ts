@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRenderJob } from '@/lib/ffmpeg/render-jobs';
+import { FORMAT_MIME_TYPES } from '@/types/effects';
+import fs from 'fs/promises';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+	const job = getRenderJob(params.id);
+	if (!job) {
+		return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+	}
+	if (job.status !== 'completed') {
+		return NextResponse.json({ error: `Job is ${job.status}` }, { status: 409 });
+	}
+
+	try {
+		const outputBuffer = await fs.readFile(job.outputPath);
+
+		const headers = new Headers();
+		headers.set('Content-Type', FORMAT_MIME_TYPES[job.format]);
+		headers.set('Content-Disposition', `attachment; filename="video_${job.createdAt}.${job.format}"`);
+		headers.set('Content-Length', outputBuffer.length.toString());
+
+		return new NextResponse(outputBuffer, { headers });
+	} catch (error) {
+		console.error('Failed to read render output:', error);
+		return NextResponse.json({ error: 'Rendered file is no longer available' }, { status: 410 });
+	}
+}
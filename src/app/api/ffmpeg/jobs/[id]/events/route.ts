@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { RenderJobSnapshot } from '@/types/jobs';
+import { cancelIfAbandoned, getRenderJob, isTerminal, subscribeToRenderJob, toSnapshot } from '@/lib/ffmpeg/render-jobs';
+
+export const dynamic = 'force-dynamic';
+
+// Keeps proxies from closing an idle stream during long encodes
+const HEARTBEAT_MS = 15000;
+
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+	const job = getRenderJob(params.id);
+	if (!job) {
+		return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+	}
+
+	const encoder = new TextEncoder();
+	let closed = false;
+	let cleanup = () => {};
+
+	// A browser that goes away mid-render stops the encode unless it reconnects
+	const onDisconnect = () => {
+		if (!isTerminal(job)) cancelIfAbandoned(job.id);
+	};
+
+	const stream = new ReadableStream<Uint8Array>({
+		start(controller) {
+			const close = () => {
+				if (closed) return;
+				closed = true;
+				cleanup();
+				controller.close();
+			};
+			const send = (snapshot: RenderJobSnapshot) => {
+				if (closed) return;
+				controller.enqueue(encoder.encode(`event: progress\ndata: ${JSON.stringify(snapshot)}\n\n`));
+				if (isTerminal(snapshot)) close();
+			};
+
+			const unsubscribe = subscribeToRenderJob(job.id, send);
+			const heartbeat = setInterval(() => {
+				if (!closed) controller.enqueue(encoder.encode(': heartbeat\n\n'));
+			}, HEARTBEAT_MS);
+			const onAbort = () => {
+				close();
+				onDisconnect();
+			};
+			cleanup = () => {
+				unsubscribe();
+				clearInterval(heartbeat);
+				request.signal.removeEventListener('abort', onAbort);
+			};
+			request.signal.addEventListener('abort', onAbort);
+
+			// Replay the current state so late subscribers don't miss a finished job
+			send(toSnapshot(job));
+		},
+		cancel() {
+			closed = true;
+			cleanup();
+			onDisconnect();
+		},
+	});
+
+	return new Response(stream, {
+		headers: {
+			'Content-Type': 'text/event-stream',
+			'Cache-Control': 'no-cache, no-transform',
+			Connection: 'keep-alive',
+		},
+	});
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cancelRenderJob, getRenderJob, toSnapshot } from '@/lib/ffmpeg/render-jobs';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+	const job = getRenderJob(params.id);
+	if (!job) {
+		return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+	}
+	return NextResponse.json(toSnapshot(job));
+}
+
+export async function DELETE(_request: NextRequest, { params }: { params: { id: string } }) {
+	const job = getRenderJob(params.id);
+	if (!job) {
+		return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+	}
+	if (!cancelRenderJob(job.id)) {
+		return NextResponse.json({ error: `Job is already ${job.status}` }, { status: 409 });
+	}
+	return NextResponse.json(toSnapshot(job), { status: 202 });
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parsePreviewForm, renderProxy } from '@/lib/ffmpeg/preview-renders';
+import { ensureDiskSpace } from '@/lib/ffmpeg/workspace';
+import { InsufficientDiskSpaceError, PreviewRequestError, RenderCancelledError } from '@/lib/ffmpeg/errors';
+import { getCapabilities } from '@/lib/ffmpeg/binaries';
+import { isProxySupported } from '@/lib/ffmpeg/requirements';
+
+export const dynamic = 'force-dynamic';
+
+// Renders a small MP4 of the uploaded timeline and answers with it directly; there is no job to poll
+export async function POST(request: NextRequest) {
+	try {
+		await ensureDiskSpace();
+
+		const capabilities = await getCapabilities();
+		if (!capabilities.available) {
+			return NextResponse.json({ error: capabilities.error || 'FFmpeg is unavailable' }, { status: 503 });
+		}
+		if (!isProxySupported(capabilities)) {
+			return NextResponse.json({ error: 'This ffmpeg build lacks libx264, which preview proxies are encoded with' }, { status: 422 });
+		}
+
+		const preview = await parsePreviewForm(await request.formData(), capabilities);
+		const video = await renderProxy(preview, request.signal);
+
+		const headers = new Headers();
+		headers.set('Content-Type', 'video/mp4');
+		headers.set('Content-Length', video.length.toString());
+		headers.set('Cache-Control', 'no-store');
+		return new NextResponse(video, { headers });
+	} catch (error) {
+		if (error instanceof PreviewRequestError) {
+			return NextResponse.json({ error: error.message }, { status: error.status });
+		}
+		if (error instanceof RenderCancelledError) {
+			return NextResponse.json({ error: error.message }, { status: 499 });
+		}
+		console.error('Preview render error:', error);
+		return NextResponse.json(
+			{ error: error instanceof Error ? error.message : 'Preview render failed' },
+			{ status: error instanceof InsufficientDiskSpaceError ? 507 : 500 }
+		);
+	}
+}
@@ -1,184 +1,178 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { spawn } from 'child_process';
-import { join } from 'path';
-import { VideoEffect, ExportSettings } from '@/types/effects';
-import fs from 'fs/promises';
-import os from 'os';
 import path from 'path';
-
-const FFMPEG_PATH = join(process.cwd(), 'src', 'ffmpeg', 'ffmpeg.exe');
-const TEMP_DIR = path.resolve(os.tmpdir(), 'vidnext-temp');
+import { ExportSettingsSchema, resolveCodec } from '@/types/effects';
+import { TimelineSchema } from '@/types/timeline';
+import { AudioTrackSchema } from '@/types/audio';
+import { CaptionOptionsSchema } from '@/types/captions';
+import { RenderJobAudio, RenderJobCaptions, RenderJobWatermark, cancelIfAbandoned, createRenderJob, runRenderJob, toSnapshot } from '@/lib/ffmpeg/render-jobs';
+import { ensureDiskSpace } from '@/lib/ffmpeg/workspace';
+import { InsufficientDiskSpaceError } from '@/lib/ffmpeg/errors';
+import { getCapabilities } from '@/lib/ffmpeg/binaries';
+import { isAudioSupported, isCaptionSupported, isCodecSupported, isEffectSupported, isFormatSupported, isTextSupported, isTransitionSupported, isWatermarkSupported } from '@/lib/ffmpeg/requirements';
+import { VIDEO_CODECS } from '@/lib/ffmpeg/codecs';
+import { enabledLayers } from '@/lib/effects/stack';
+import { transitionDuration } from '@/lib/timeline/clips';
+import { CaptionParseError, parseCaptions } from '@/lib/captions/cues';
+import { parseJsonField } from '@/lib/ffmpeg/form-fields';
 
 export async function POST(request: NextRequest) {
 	try {
-		// Ensure temp directory exists and is empty
-		await fs.rm(TEMP_DIR, { recursive: true, force: true });
-		await fs.mkdir(TEMP_DIR, { recursive: true });
+		// Refuse up front rather than failing mid-encode on a full temp volume
+		await ensureDiskSpace();
 
 		const formData = await request.formData();
-		const imageFile = formData.get('image') as File;
-		const effect = JSON.parse(formData.get('effect') as string) as VideoEffect;
-		const settings = JSON.parse(formData.get('settings') as string) as ExportSettings;
-
-		if (!imageFile || !effect || !settings) {
+		// One `images` entry per clip, in timeline order
+		const imageFiles = formData.getAll('images').filter((entry): entry is File => typeof entry !== 'string');
+		const clipsField = formData.get('clips');
+		const settingsField = formData.get('settings');
+		// Optional background audio: the file plus its trim/fade/loudness settings
+		const audioFile = formData.get('audio');
+		const audioTrackField = formData.get('audioTrack');
+		// Optional SRT or WebVTT captions plus how to render them
+		const captionsFile = formData.get('captions');
+		const captionOptionsField = formData.get('captionOptions');
+		// Optional PNG logo, placed with the export settings' watermark options
+		const watermarkFile = formData.get('watermark');
+
+		if (imageFiles.length === 0 || typeof clipsField !== 'string' || typeof settingsField !== 'string') {
 			return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
 		}
 
-		// Validate input file
-		if (!imageFile.type.startsWith('image/')) {
-			return NextResponse.json({ error: 'Invalid file type' }, { status: 400 });
+		const parsedClips = parseJsonField(TimelineSchema, clipsField);
+		const parsedSettings = parseJsonField(ExportSettingsSchema, settingsField);
+		if (!parsedClips.success) {
+			const issue = parsedClips.error.issues[0];
+			return NextResponse.json({ error: `Invalid timeline: ${issue?.message ?? 'unknown error'}` }, { status: 400 });
 		}
-
-		// Save input file with timestamp
-		const timestamp = Date.now();
-		const inputPath = path.join(TEMP_DIR, `input_${timestamp}.png`);
-		const outputPath = path.join(TEMP_DIR, `output_${timestamp}.${settings.format}`);
-		
-		const buffer = await imageFile.arrayBuffer();
-		await fs.writeFile(inputPath, Buffer.from(buffer));
-
-		// Verify file was written
-		const stats = await fs.stat(inputPath);
-		if (stats.size === 0) {
-			throw new Error('Failed to write input file');
+		if (!parsedSettings.success) {
+			const issue = parsedSettings.error.issues[0];
+			return NextResponse.json({ error: `Invalid export settings: ${issue?.message ?? 'unknown error'}` }, { status: 400 });
 		}
-
-		// Prepare FFmpeg command with simplified options
-		const args = [
-			'-hide_banner',
-			'-y',
-			'-i', inputPath,
-			'-vf', `fps=${settings.fps},scale=${settings.width}:${settings.height}`,
-			'-c:v', 'libx264',
-			'-preset', 'ultrafast', // Use ultrafast preset for testing
-			'-t', effect.params.duration.toString(),
-			'-pix_fmt', 'yuv420p',
-			outputPath
-		];
-
-		// Execute FFmpeg with additional logging
-		await new Promise<void>((resolve, reject) => {
-			console.log('Executing FFmpeg with args:', args.join(' '));
-			const process = spawn(FFMPEG_PATH, args);
-			
-			let errorOutput = '';
-			
-			process.stderr.on('data', (data: Buffer) => {
-				const output = data.toString();
-				errorOutput += output;
-				console.log('FFmpeg output:', output);
-			});
-
-			process.on('error', (err) => {
-				console.error('FFmpeg process error:', err);
-				console.error('Full error output:', errorOutput);
-				reject(err);
-			});
-
-			process.on('exit', (code: number) => {
-				console.log('FFmpeg exit code:', code);
-				if (code === 0) resolve();
-				else {
-					console.error('Full error output:', errorOutput);
-					reject(new Error(`FFmpeg exited with code ${code}`));
-				}
-			});
-		});
-
-		// Read output file
-		const outputBuffer = await fs.readFile(outputPath);
-		
-		// Cleanup
-		await fs.rm(inputPath).catch(console.error);
-		await fs.rm(outputPath).catch(console.error);
-
-		// Return video
-		const headers = new Headers();
-		headers.set('Content-Type', `video/${settings.format}`);
-		headers.set('Content-Disposition', `attachment; filename="video_${Date.now()}.${settings.format}"`);
-
-		return new NextResponse(outputBuffer, { headers });
-	} catch (error) {
-		console.error('FFmpeg processing error:', error);
-		return NextResponse.json(
-			{ error: error instanceof Error ? error.message : 'FFmpeg processing failed' },
-			{ status: 500 }
-		);
-	}
-}
-
-function generateFilterComplex(effect: VideoEffect, settings: ExportSettings): string {
-	const { type, params } = effect;
-	const { duration, intensity = 50, easing = 'LINEAR' } = params;
-	const fps = settings.fps;
-	const totalFrames = Math.ceil(duration * fps);
-	
-	const baseFilter = `[0:v]format=pix_fmts=yuva420p,fps=${fps},scale=${settings.width}:${settings.height}:force_original_aspect_ratio=decrease,pad=${settings.width}:${settings.height}:(ow-iw)/2:(oh-ih)/2`;
-	
-	const getEasing = (t: string) => {
-		switch (easing) {
-			case 'EASE_IN': return `pow(${t},2)`;
-			case 'EASE_OUT': return `1-pow(1-${t},2)`;
-			case 'EASE_IN_OUT': return `if(lt(${t},0.5),2*pow(${t},2),1-pow(-2*${t}+2,2)/2)`;
-			default: return t;
+		const clips = parsedClips.data;
+		const settings = parsedSettings.data;
+		if (imageFiles.length !== clips.length) {
+			return NextResponse.json({ error: 'Every clip needs exactly one image' }, { status: 400 });
 		}
-	};
 
-	const t = `t/${duration}`;
-
-	switch (type) {
-		case 'ZOOM': {
-			const zoomFactor = params.direction === 'IN' ? '1.5' : '0.6';
-			return `${baseFilter}[base];[base]zoompan=z='if(between(t,0,${duration}),${zoomFactor}+${getEasing(t)},${zoomFactor})':x='iw/2-(iw/zoom/2)':y='ih/2-(ih/zoom/2)':d=${totalFrames}:s=${settings.width}x${settings.height}:fps=${fps},format=yuv420p[v]`;
+		// Reject combinations the installed ffmpeg build can't produce before queueing anything
+		const capabilities = await getCapabilities();
+		if (!capabilities.available) {
+			return NextResponse.json({ error: capabilities.error || 'FFmpeg is unavailable' }, { status: 503 });
 		}
-		case 'PAN': {
-			const getPanExpression = (direction: string) => {
-				const range = 'iw-ow';
-				switch (direction) {
-					case 'LEFT': return `${range}*${t}`;
-					case 'RIGHT': return `${range}*(1-${t})`;
-					case 'UP': return `${range}*${t}`;
-					case 'DOWN': return `${range}*(1-${t})`;
-					default: return '0';
-				}
-			};
-			const panDirection = getPanExpression(params.direction || 'LEFT');
-			return `${baseFilter}[base];[base]crop=w=iw:h=ih:x='if(between(t,0,${duration}),${panDirection},0)':y=0,format=yuv420p[v]`;
+		if (!isFormatSupported(capabilities, settings.format)) {
+			return NextResponse.json({ error: `This ffmpeg build cannot encode ${settings.format}` }, { status: 422 });
 		}
-		case 'PARALLAX': {
-			const speed = intensity / 100;
-			return `${baseFilter}[base];[base]split[bg][fg];[bg]crop=w=iw:h=ih:x='if(between(t,0,${duration}),t/${duration}*${speed}*100,0)':y=0[bgm];[fg]crop=w=iw:h=ih:x='if(between(t,0,${duration}),t/${duration}*${speed}*200,0)':y=0[fgm];[bgm][fgm]blend=all_expr='A*(1-T/${duration})+B*(T/${duration})',format=yuv420p[v]`;
+		const codec = resolveCodec(settings);
+		if (!isCodecSupported(capabilities, codec)) {
+			return NextResponse.json({ error: `This ffmpeg build cannot encode ${VIDEO_CODECS[codec].label}` }, { status: 422 });
 		}
-		case 'WAVE': {
-			const amplitude = (intensity / 100) * 20;
-			return `${baseFilter}[base];[base]split[bg][fg];[bg]crop=w=iw:h=ih,format=yuv420p[bgm];[fg]crop=w=iw:h=ih,format=yuv420p[fgm];[bgm][fgm]blend=all_expr='A*(1-sin(X/${settings.width}*PI*2+T/${duration})*${amplitude/100})+B*sin(X/${settings.width}*PI*2+T/${duration})*${amplitude/100}',format=yuv420p[v]`;
+		const unsupported = clips
+			.flatMap(clip => enabledLayers(clip.layers))
+			.find(layer => !isEffectSupported(capabilities, layer.type));
+		if (unsupported) {
+			return NextResponse.json({ error: `This ffmpeg build lacks the filters needed for the ${unsupported.type} effect` }, { status: 422 });
 		}
-		case 'PULSE': {
-			const pulseIntensity = (intensity / 100) * 0.5;
-			return `${baseFilter}[base];[base]scale=w='if(between(t,0,${duration}),iw*(1+sin(t/${duration}*PI)*${pulseIntensity}),iw)':h='if(between(t,0,${duration}),ih*(1+sin(t/${duration}*PI)*${pulseIntensity}),ih)':eval=frame,format=yuv420p[v]`;
+
+		if (clips.some(clip => clip.texts?.length) && !isTextSupported(capabilities)) {
+			return NextResponse.json({ error: 'This ffmpeg build lacks drawtext, which text overlays need' }, { status: 422 });
 		}
-		case 'ROTATION': {
-			const rotationSpeed = (intensity / 100) * 360;
-			return `${baseFilter}[base];[base]rotate='if(between(t,0,${duration}),t/${duration}*${rotationSpeed}*PI/180,0)':fillcolor=none,format=yuv420p[v]`;
+		if (clips.some((_, index) => transitionDuration(clips, index) > 0) && !isTransitionSupported(capabilities)) {
+			return NextResponse.json({ error: 'This ffmpeg build lacks xfade, which transitions need (ffmpeg 4.3 or newer)' }, { status: 422 });
 		}
-		case 'DRIFT': {
-			const driftIntensity = (intensity / 100) * 50;
-			return `${baseFilter}[base];[base]rotate='if(between(t,0,${duration}),sin(t/${duration}*PI)*${driftIntensity/10}*PI/180,0)':c=none,crop=w=iw:h=ih:x='if(between(t,0,${duration}),sin(t/${duration}*PI)*${driftIntensity},0)':y='if(between(t,0,${duration}),cos(t/${duration}*PI)*${driftIntensity},0)',format=yuv420p[v]`;
+
+		// Validate input files
+		if (imageFiles.some(imageFile => !imageFile.type.startsWith('image/'))) {
+			return NextResponse.json({ error: 'Invalid file type' }, { status: 400 });
 		}
-		case 'KEN_BURNS': {
-			const zoomRange = 1 + (intensity / 100);
-			const panRange = (intensity / 100) * 50;
-			return `${baseFilter}[base];[base]zoompan=z='if(between(t,0,${duration}),1+((t/${duration})*${zoomRange-1}),${zoomRange})':x='iw/2-(iw/zoom/2)':y='ih/2-(ih/zoom/2)':d=${totalFrames}:s=${settings.width}x${settings.height}:fps=${fps},format=yuv420p[v]`;
+
+		let audio: RenderJobAudio | undefined;
+		if (audioFile instanceof File) {
+			if (!audioFile.type.startsWith('audio/')) {
+				return NextResponse.json({ error: 'Invalid audio file type' }, { status: 400 });
+			}
+			const parsedTrack = parseJsonField(AudioTrackSchema, audioTrackField);
+			if (!parsedTrack.success) {
+				const issue = parsedTrack.error.issues[0];
+				return NextResponse.json({ error: `Invalid audio settings: ${issue?.message ?? 'unknown error'}` }, { status: 400 });
+			}
+			if (!isAudioSupported(capabilities, settings.format)) {
+				return NextResponse.json({ error: `This ffmpeg build cannot add audio to ${settings.format} exports` }, { status: 422 });
+			}
+			const extension = path.extname(audioFile.name).toLowerCase();
+			audio = {
+				data: Buffer.from(await audioFile.arrayBuffer()),
+				extension: /^\.[a-z0-9]+$/.test(extension) ? extension : '',
+				track: parsedTrack.data,
+			};
+		}
+
+		let captions: RenderJobCaptions | undefined;
+		if (captionsFile instanceof File) {
+			const parsedOptions = parseJsonField(CaptionOptionsSchema, captionOptionsField);
+			if (!parsedOptions.success) {
+				const issue = parsedOptions.error.issues[0];
+				return NextResponse.json({ error: `Invalid caption settings: ${issue?.message ?? 'unknown error'}` }, { status: 400 });
+			}
+			if (!isCaptionSupported(capabilities, settings.format, parsedOptions.data.mode)) {
+				const action = parsedOptions.data.mode === 'EMBED' ? 'embed subtitles in' : 'burn captions into';
+				return NextResponse.json({ error: `This ffmpeg build cannot ${action} ${settings.format} exports` }, { status: 422 });
+			}
+			// Report cue file problems by line instead of letting ffmpeg fail on them
+			try {
+				captions = { ...parsedOptions.data, cues: parseCaptions(await captionsFile.text()) };
+			} catch (error) {
+				if (error instanceof CaptionParseError) {
+					return NextResponse.json({ error: error.message, issues: error.issues }, { status: 400 });
+				}
+				throw error;
+			}
+		}
+
+		let watermark: RenderJobWatermark | undefined;
+		if (watermarkFile instanceof File) {
+			// The browser rasterizes SVG logos, so only PNGs (which keep their transparency) arrive here
+			if (watermarkFile.type !== 'image/png') {
+				return NextResponse.json({ error: 'Watermarks must be PNG images' }, { status: 400 });
+			}
+			if (!settings.watermark) {
+				return NextResponse.json({ error: 'Missing watermark settings' }, { status: 400 });
+			}
+			if (!isWatermarkSupported(capabilities)) {
+				return NextResponse.json({ error: 'This ffmpeg build lacks the filters needed to draw a watermark' }, { status: 422 });
+			}
+			watermark = { data: Buffer.from(await watermarkFile.arrayBuffer()), options: settings.watermark };
 		}
-		default:
-			return `${baseFilter},format=yuv420p[v]`;
+
+		const images = await Promise.all(imageFiles.map(async imageFile => Buffer.from(await imageFile.arrayBuffer())));
+
+		// The browser gave up while uploading; don't start a render nobody will collect
+		if (request.signal.aborted) {
+			return NextResponse.json({ error: 'Request aborted' }, { status: 499 });
+		}
+
+		const job = createRenderJob(settings);
+
+		// Render in the background; progress is reported through the job endpoints.
+		// If the client never subscribes to the progress stream, the job is cancelled.
+		void runRenderJob(job, { images, clips, settings, audio, captions, watermark });
+		cancelIfAbandoned(job.id);
+
+		return NextResponse.json(
+			{ jobId: job.id, job: toSnapshot(job) },
+			{ status: 202, headers: { Location: `/api/ffmpeg/jobs/${job.id}` } }
+		);
+	} catch (error) {
+		console.error('FFmpeg processing error:', error);
+		return NextResponse.json(
+			{ error: error instanceof Error ? error.message : 'FFmpeg processing failed' },
+			{ status: error instanceof InsufficientDiskSpaceError ? 507 : 500 }
+		);
 	}
 }
 
-
 export const config = {
 	api: {
 		bodyParser: false,
 		responseLimit: false,
 	},
-};
\ No newline at end of file
+};
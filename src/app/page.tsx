@@ -1,74 +1,351 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
+import type { ChangeEvent } from 'react';
 import { WorkspaceLayout } from '@/components/layout/WorkspaceLayout';
 import { ImageUpload } from '@/components/ui/ImageUpload';
 import { EffectSelector } from '@/components/effects/EffectSelector';
 import { EffectPreview } from '@/components/ui/EffectPreview';
+import { ProxyPreview } from '@/components/ui/ProxyPreview';
 import { ExportSettings } from '@/components/ui/ExportSettings';
-import { VideoEffect, ExportSettings as ExportSettingsType, EXPORT_PRESETS } from '@/types/effects';
-import { ffmpegService } from '@/lib/ffmpeg/ffmpeg-service';
+import { WatermarkSettings } from '@/components/ui/WatermarkSettings';
+import { Timeline } from '@/components/timeline/Timeline';
+import { AudioTrackPanel } from '@/components/timeline/AudioTrackPanel';
+import { CaptionPanel } from '@/components/timeline/CaptionPanel';
+import { TransitionSelector } from '@/components/effects/TransitionSelector';
+import { TextOverlayEditor } from '@/components/effects/TextOverlayEditor';
+import { TextOverlayPreview } from '@/components/ui/TextOverlayPreview';
+import { TransitionPreview } from '@/components/ui/TransitionPreview';
+import { SessionRecovery } from '@/components/ui/SessionRecovery';
+import { HistoryPanel } from '@/components/ui/HistoryPanel';
+import { BatchPanel } from '@/components/ui/BatchPanel';
+import { EffectLayer, EXPORT_PRESETS, resolveCodec } from '@/types/effects';
+import { MAX_TIMELINE_CLIPS, ProjectClip, Transition } from '@/types/timeline';
+import { TextOverlay } from '@/types/text';
+import { ffmpegService, RenderCancelledError } from '@/lib/ffmpeg/ffmpeg-service';
+import { isAudioSupported, isCaptionSupported, isCodecSupported, isEffectSupported, isFilmstripSupported, isFormatSupported, isProxySupported, isTextSupported, isTransitionSupported, isWatermarkSupported } from '@/lib/ffmpeg/requirements';
+import { AUDIO_CODECS } from '@/lib/ffmpeg/audio';
+import { SUBTITLE_CODECS } from '@/lib/ffmpeg/captions';
+import { FORMAT_LABELS, effectiveRenderSettings } from '@/lib/ffmpeg/codecs';
+import { FFmpegCapabilities } from '@/types/capabilities';
+import { enabledLayers } from '@/lib/effects/stack';
+import { PreviewClock } from '@/lib/preview/clock';
+import { downloadBlob } from '@/lib/files/download';
+import { loadExportSettings, saveExportSettings } from '@/lib/presets/export-presets';
+import { ProjectFileError } from '@/lib/project/errors';
+import { HistoryEdit, createHistory, currentState, jumpTo, recordEdit, redo, undo } from '@/lib/history/history';
+import { PROJECT_FILE_EXTENSION } from '@/types/project';
+import { DEFAULT_PANEL_LAYOUT, PanelLayout } from '@/types/layout';
+import { ProjectWorkspace, openProject, saveProject } from '@/lib/project/project-file';
+import { AUTOSAVE_DELAY_MS, SessionSnapshot, clearSessionSnapshots, listSessionSnapshots, saveSessionSnapshot, startNewSnapshotSession } from '@/lib/session/autosave';
+import { createProjectClip, moveClip, timelineDuration, transitionDuration, withLayers } from '@/lib/timeline/clips';
+
+// Everything undo and redo cover; the selection and panels are not edits
+type EditorState = Omit<ProjectWorkspace, 'selectedClipId'>;
+
+const EMPTY_EDITOR: EditorState = {
+  clips: [],
+  audio: null,
+  captions: null,
+  watermark: null,
+  exportSettings: EXPORT_PRESETS[0],
+};
 
 export default function Home() {
-  const [selectedImage, setSelectedImage] = useState<File | null>(null);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
-  const [selectedEffect, setSelectedEffect] = useState<VideoEffect | null>(null);
+  const [history, setHistory] = useState(() => createHistory(EMPTY_EDITOR, 'New workspace'));
+  const { clips, audio, captions, watermark, exportSettings } = currentState(history);
+  const [selectedClipId, setSelectedClipId] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
   const [progress, setProgress] = useState<{ percent: number; stage: string } | null>(null);
-  const [exportSettings, setExportSettings] = useState<ExportSettingsType>(EXPORT_PRESETS[0]);
+  const [capabilities, setCapabilities] = useState<FFmpegCapabilities | null>(null);
+  // One playback clock for the effect preview and the overlays drawn over it
+  const [previewClock] = useState(() => new PreviewClock());
+  // Plays a server-rendered proxy instead of the canvas preview
+  const [accuratePreview, setAccuratePreview] = useState(false);
+  const projectInput = useRef<HTMLInputElement>(null);
+  // Bumped when a project is opened, so editors keyed by clip id start over even if the ids match
+  const [workspaceRevision, setWorkspaceRevision] = useState(0);
+  const [panelLayout, setPanelLayout] = useState<PanelLayout>(DEFAULT_PANEL_LAYOUT);
+  // Auto-saved snapshots offered for restoring; null while the dialog is closed
+  const [recoverySnapshots, setRecoverySnapshots] = useState<SessionSnapshot[] | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  // Batch mode swaps the preview for the batch queue; the workspace stays as it was.
+  // Once opened the queue stays mounted, so leaving batch mode keeps finished renders
+  const [batchMode, setBatchMode] = useState(false);
+  const [batchOpened, setBatchOpened] = useState(false);
+  const [batchRunning, setBatchRunning] = useState(false);
+
+  useEffect(() => {
+    ffmpegService.getCapabilities()
+      .then(setCapabilities)
+      .catch(err => console.error('FFmpeg health check failed:', err));
+  }, []);
+
+  // Export settings carry over between sessions; nothing is saved until the last ones are restored
+  const [settingsRestored, setSettingsRestored] = useState(false);
+  useEffect(() => {
+    const saved = loadExportSettings();
+    // Part of the starting point, not something to undo
+    if (saved) setHistory(prev => createHistory({ ...currentState(prev), exportSettings: saved }, 'New workspace'));
+    setSettingsRestored(true);
+  }, []);
+
+  useEffect(() => {
+    if (settingsRestored) saveExportSettings(exportSettings);
+  }, [exportSettings, settingsRestored]);
+
+  // Applies an edit on top of the current state as a new history entry
+  const edit = (change: (state: EditorState) => Partial<EditorState>, { label, group }: HistoryEdit) => {
+    setHistory(prev => {
+      const state = currentState(prev);
+      return recordEdit(prev, { ...state, ...change(state) }, { label, group });
+    });
+  };
+
+  // Object URLs stay alive while any history entry can bring their image back
+  const liveUrls = useRef(new Set<string>());
+  useEffect(() => {
+    const urls = new Set<string>();
+    history.entries.forEach(({ state }) => {
+      state.clips.forEach(clip => urls.add(clip.previewUrl));
+      if (state.watermark) urls.add(state.watermark.previewUrl);
+    });
+    liveUrls.current.forEach(url => {
+      if (!urls.has(url)) URL.revokeObjectURL(url);
+    });
+    liveUrls.current = urls;
+  }, [history]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y); text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isProcessing) return;
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || target instanceof HTMLTextAreaElement
+        || (target instanceof HTMLInputElement && ['text', 'search', 'url', 'email'].includes(target.type))) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' || key === 'y') {
+        e.preventDefault();
+        setHistory(prev => (key === 'y' || e.shiftKey ? redo(prev) : undo(prev)));
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isProcessing]);
+
+  // A session that ended with work in it is offered back on the next load
+  useEffect(() => {
+    listSessionSnapshots()
+      .then(snapshots => {
+        if (snapshots.length > 0) setRecoverySnapshots(snapshots);
+      })
+      .catch(err => console.error('Failed to read auto-saved sessions:', err));
+  }, []);
+
+  // Auto-save once edits settle; an empty workspace has nothing worth keeping
+  useEffect(() => {
+    if (!settingsRestored || clips.length === 0) return;
+    const timer = setTimeout(() => {
+      saveSessionSnapshot({ clips, selectedClipId, exportSettings, audio, captions, watermark }, panelLayout)
+        .catch(err => console.error('Auto-save failed:', err));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [clips, selectedClipId, exportSettings, audio, captions, watermark, panelLayout, settingsRestored]);
+
+  const selectedIndex = clips.findIndex(clip => clip.id === selectedClipId);
+  const selectedClip = clips[selectedIndex] ?? null;
+  // The clip the selected one transitions into, if any
+  const nextClip = selectedIndex >= 0 ? clips[selectedIndex + 1] ?? null : null;
+
+  // GIF and WebP have no audio stream; other formats need the encoder and filters
+  const audioUnsupportedReason = !AUDIO_CODECS[exportSettings.format]
+    ? `${FORMAT_LABELS[exportSettings.format]} exports are silent; the audio is left out`
+    : !isAudioSupported(capabilities, exportSettings.format)
+      ? 'This ffmpeg build cannot encode audio; the audio is left out'
+      : null;
+
+  const captionUnsupportedReason = captions && !isCaptionSupported(capabilities, exportSettings.format, captions.mode)
+    ? captions.mode === 'EMBED'
+      ? `${FORMAT_LABELS[exportSettings.format]} cannot carry a subtitle track; burn the captions in instead`
+      : 'This ffmpeg build cannot burn in captions (it lacks libass)'
+    : null;
 
+  const watermarkUnsupportedReason = watermark && !isWatermarkSupported(capabilities)
+    ? 'This ffmpeg build cannot draw a watermark'
+    : null;
+
+  const transitionUnsupportedReason = !isTransitionSupported(capabilities)
+    ? 'This ffmpeg build cannot render transitions (it lacks xfade, added in ffmpeg 4.3)'
+    : null;
+
+  const canRender = clips.length > 0
+    && clips.every(clip => {
+      const activeLayers = enabledLayers(clip.layers);
+      return activeLayers.length > 0 && activeLayers.every(layer => isEffectSupported(capabilities, layer.type));
+    })
+    && (clips.every(clip => !clip.texts?.length) || isTextSupported(capabilities))
+    && !watermarkUnsupportedReason
+    && (clips.every((_, index) => transitionDuration(clips, index) === 0) || !transitionUnsupportedReason)
+    && (!captions || (!captionUnsupportedReason && captions.cues.every(cue => cue.end > cue.start && cue.text.trim())))
+    && isFormatSupported(capabilities, exportSettings.format)
+    && isCodecSupported(capabilities, resolveCodec(exportSettings));
+
+  // Several images from one drop arrive before a re-render, so the limit is checked against
+  // a count that each accepted image bumps straight away; renders reset it to the real count
+  const clipCount = useRef(clips.length);
+  clipCount.current = clips.length;
+
+  // Each uploaded image is appended to the timeline as a new clip
   const handleImageSelect = (file: File) => {
-    setSelectedImage(file);
-    const url = URL.createObjectURL(file);
-    setPreviewUrl(url);
+    if (clipCount.current >= MAX_TIMELINE_CLIPS) {
+      setError(`A timeline holds at most ${MAX_TIMELINE_CLIPS} clips`);
+      return;
+    }
+    clipCount.current += 1;
+    const clip = createProjectClip(file);
+    edit(({ clips: prev }) => ({ clips: [...prev, clip] }), { label: 'Add clip' });
+    setSelectedClipId(clip.id);
+    setError(null);
+  };
+
+  // Edits to one clip; groups are per clip so drags on different clips stay apart
+  const editClip = (clipId: string, change: (clip: ProjectClip) => ProjectClip, { label, group }: HistoryEdit) => {
+    edit(
+      ({ clips: prev }) => ({ clips: prev.map(clip => (clip.id === clipId ? change(clip) : clip)) }),
+      { label, group: group && `${clipId}:${group}` }
+    );
+  };
+
+  const handleLayersChange = (clipId: string, layers: EffectLayer[], layersEdit: HistoryEdit) => {
+    editClip(clipId, clip => withLayers(clip, layers), layersEdit);
+  };
+
+  const handleClipDurationChange = (clipId: string, duration: number) => {
+    editClip(clipId, clip => ({ ...clip, duration }), { label: 'Change clip duration', group: 'duration' });
+  };
+
+  const handleTransitionChange = (clipId: string, transition: Transition | undefined) => {
+    editClip(clipId, clip => ({ ...clip, transition }), { label: transition ? 'Change transition' : 'Remove transition', group: 'transition' });
+  };
+
+  const handleTextsChange = (clipId: string, texts: TextOverlay[]) => {
+    editClip(clipId, clip => ({ ...clip, texts }), { label: 'Edit text overlays', group: 'texts' });
+  };
+
+  const handleRemoveClip = (clipId: string) => {
+    const index = clips.findIndex(clip => clip.id === clipId);
+    const remaining = clips.filter(clip => clip.id !== clipId);
+    edit(() => ({ clips: remaining }), { label: 'Remove clip' });
+    if (clipId === selectedClipId) {
+      setSelectedClipId(remaining[Math.min(index, remaining.length - 1)]?.id ?? null);
+    }
+  };
+
+  const handleSaveProject = async () => {
+    setError(null);
+    try {
+      const archive = await saveProject({ clips, selectedClipId, exportSettings, audio, captions, watermark });
+      downloadBlob(archive, `project_${Date.now()}${PROJECT_FILE_EXTENSION}`);
+    } catch (err) {
+      console.error('Project save error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save the project');
+    }
+  };
+
+  // Swaps in an opened project or restored snapshot; its history starts over
+  const replaceWorkspace = ({ selectedClipId: selected, ...state }: ProjectWorkspace, label: string) => {
+    setHistory(createHistory(state, label));
+    setSelectedClipId(selected);
+    setWorkspaceRevision(prev => prev + 1);
+  };
+
+  const handleOpenProject = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (clips.length > 0 && !window.confirm('Replace the current workspace with this project?')) return;
+
     setError(null);
+    setNotice(null);
+    try {
+      replaceWorkspace(await openProject(file), `Open ${file.name}`);
+      setNotice(`Opened ${file.name}`);
+    } catch (err) {
+      if (!(err instanceof ProjectFileError)) console.error('Project open error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to open the project');
+    }
+  };
+
+  const handleShowSnapshots = async () => {
+    try {
+      const snapshots = await listSessionSnapshots();
+      if (snapshots.length > 0) setRecoverySnapshots(snapshots);
+      else setNotice('Nothing has been auto-saved yet');
+    } catch (err) {
+      console.error('Failed to read auto-saved sessions:', err);
+      setError('Auto-saved sessions are unavailable in this browser');
+    }
+  };
+
+  const handleRestoreSnapshot = async (snapshot: SessionSnapshot) => {
+    setError(null);
+    setNotice(null);
+    setRestoring(true);
+    try {
+      replaceWorkspace(await openProject(snapshot.project), 'Restore session');
+      setPanelLayout(snapshot.layout);
+      startNewSnapshotSession();
+      setRecoverySnapshots(null);
+      setNotice(`Restored the session saved at ${new Date(snapshot.savedAt).toLocaleTimeString()}`);
+    } catch (err) {
+      if (!(err instanceof ProjectFileError)) console.error('Session restore error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to restore the session');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const handleDiscardSnapshots = async () => {
+    if (!window.confirm('Delete every auto-saved snapshot?')) return;
+    setRecoverySnapshots(null);
+    try {
+      await clearSessionSnapshots();
+    } catch (err) {
+      console.error('Failed to clear auto-saved sessions:', err);
+    }
   };
 
   const handleExport = async () => {
-    if (!selectedImage || !selectedEffect) {
-      setError('Please select an image and effect first');
+    if (clips.length === 0) {
+      setError('Please add at least one image first');
       return;
     }
 
     setError(null);
+    setNotice(null);
     setIsProcessing(true);
     setProgress({ percent: 0, stage: 'Initializing' });
 
     try {
-      // Prepare form data with validation
-      const formData = new FormData();
-      formData.append('image', selectedImage);
-      formData.append('effect', JSON.stringify(selectedEffect));
-      formData.append('settings', JSON.stringify(exportSettings));
-
-      // Send request with progress tracking
-      const response = await fetch('/api/ffmpeg', {
-
-        method: 'POST',
-        body: formData
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to generate video');
-      }
-
-      // Handle successful response
-      const blob = await response.blob();
-      const url = URL.createObjectURL(blob);
-      
-      // Create and trigger download
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `video_${Date.now()}.${exportSettings.format}`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      // Render on the server, streaming job progress into the modal
+      const blob = await ffmpegService.generateVideo(
+        clips,
+        (percent, stage) => setProgress({ percent, stage }),
+        exportSettings,
+        audioUnsupportedReason ? null : audio,
+        captions,
+        watermark
+      );
+      downloadBlob(blob, `video_${Date.now()}.${exportSettings.format}`);
 
       setProgress({ percent: 100, stage: 'Export complete!' });
     } catch (err) {
+      if (err instanceof RenderCancelledError) {
+        setNotice('Export cancelled');
+        return;
+      }
       console.error('Export error:', err);
       setError(err instanceof Error ? err.message : 'An unexpected error occurred');
     } finally {
@@ -84,6 +361,44 @@ export default function Home() {
         <p className="text-sm text-base-content/70">Transform images into dynamic videos</p>
       </div>
       <div className="flex gap-4">
+        <button
+          className={`btn btn-ghost btn-sm ${batchMode ? 'btn-active' : ''}`}
+          onClick={() => {
+            setBatchMode(prev => !prev);
+            setBatchOpened(true);
+          }}
+          disabled={isProcessing || batchRunning}
+        >
+          Batch
+        </button>
+        <button
+          className="btn btn-ghost btn-sm"
+          onClick={handleShowSnapshots}
+          disabled={isProcessing}
+        >
+          Snapshots
+        </button>
+        <button
+          className="btn btn-ghost btn-sm"
+          onClick={() => projectInput.current?.click()}
+          disabled={isProcessing}
+        >
+          Open Project
+        </button>
+        <button
+          className="btn btn-ghost btn-sm"
+          onClick={handleSaveProject}
+          disabled={clips.length === 0 || isProcessing}
+        >
+          Save Project
+        </button>
+        <input
+          ref={projectInput}
+          type="file"
+          accept={`${PROJECT_FILE_EXTENSION},application/zip`}
+          className="hidden"
+          onChange={handleOpenProject}
+        />
         {isProcessing && (
           <button 
             className="btn btn-error btn-sm"
@@ -93,9 +408,9 @@ export default function Home() {
           </button>
         )}
         <button 
-          className={`btn btn-primary btn-sm ${(!selectedImage || !selectedEffect || isProcessing) ? 'btn-disabled' : ''}`}
+          className={`btn btn-primary btn-sm ${(!canRender || isProcessing || batchRunning) ? 'btn-disabled' : ''}`}
           onClick={handleExport}
-          disabled={!selectedImage || !selectedEffect || isProcessing}
+          disabled={!canRender || isProcessing || batchRunning}
         >
           {isProcessing ? (
             <>
@@ -112,34 +427,163 @@ export default function Home() {
 
   const sidebarContent = (
     <div className="space-y-4">
-      <ImageUpload onImageSelect={handleImageSelect} disabled={isProcessing} />
-      <EffectSelector 
-        onEffectChange={setSelectedEffect}
-        disabled={!selectedImage || isProcessing}
+      <ImageUpload
+        onImageSelect={handleImageSelect}
+        multiple
+        maxFiles={MAX_TIMELINE_CLIPS}
+        disabled={isProcessing}
       />
+      {selectedClip ? (
+        // Remount per clip so the selector starts from that clip's layers
+        <EffectSelector
+          key={`${workspaceRevision}:${selectedClip.id}`}
+          layers={selectedClip.layers}
+          onLayersChange={(layers, layersEdit) => handleLayersChange(selectedClip.id, layers, layersEdit)}
+          capabilities={capabilities}
+          disabled={isProcessing}
+        />
+      ) : (
+        <div className="text-sm text-base-content/70">Select a clip to edit its effects</div>
+      )}
+      {selectedClip && (
+        <TextOverlayEditor
+          key={`${workspaceRevision}:${selectedClip.id}`}
+          overlays={selectedClip.texts ?? []}
+          onOverlaysChange={texts => handleTextsChange(selectedClip.id, texts)}
+          clipDuration={selectedClip.duration}
+          disabled={isProcessing}
+        />
+      )}
+      {selectedClip && nextClip && (
+        <TransitionSelector
+          transition={selectedClip.transition}
+          onTransitionChange={transition => handleTransitionChange(selectedClip.id, transition)}
+          maxDuration={Math.min(selectedClip.duration, nextClip.duration) / 2}
+          unsupportedReason={transitionUnsupportedReason}
+          disabled={isProcessing}
+        />
+      )}
     </div>
   );
 
   const mainContent = (
     <div className="space-y-4">
-      <div className="aspect-video bg-base-300 rounded-lg overflow-hidden">
-        {selectedImage ? (
-          selectedEffect ? (
-            <EffectPreview
-              imageUrl={previewUrl}
-              effect={selectedEffect}
+      {batchOpened && (
+        <div className={batchMode ? '' : 'hidden'}>
+          <BatchPanel
+            currentLayers={selectedClip?.layers ?? null}
+            watermark={watermark}
+            capabilities={capabilities}
+            onRunningChange={setBatchRunning}
+          />
+        </div>
+      )}
+
+      {!batchMode && (
+        <>
+        {selectedClip && (
+          <div className="flex items-center justify-end gap-2">
+            {!isProxySupported(capabilities) && (
+              <span className="text-xs text-base-content/60">Needs an ffmpeg build with libx264</span>
+            )}
+            <label className="label cursor-pointer gap-2 p-0">
+              <span className="label-text">Accurate preview</span>
+              <input
+                type="checkbox"
+                className="toggle toggle-primary toggle-sm"
+                checked={accuratePreview && isProxySupported(capabilities)}
+                onChange={(e) => setAccuratePreview(e.target.checked)}
+                disabled={!isProxySupported(capabilities)}
+              />
+            </label>
+          </div>
+        )}
+
+        {selectedClip && accuratePreview && isProxySupported(capabilities) ? (
+          <ProxyPreview
+            key={selectedClip.id}
+            clip={selectedClip}
+            settings={exportSettings}
+            watermark={watermark}
+            showFilmstrip={isFilmstripSupported(capabilities)}
+          />
+        ) : selectedClip ? (
+          <EffectPreview
+            imageUrl={selectedClip.previewUrl}
+            layers={selectedClip.layers}
+            clipDuration={selectedClip.duration}
+            frame={effectiveRenderSettings(exportSettings)}
+            clock={previewClock}
+            watermark={watermark && exportSettings.watermark ? {
+              imageUrl: watermark.previewUrl,
+              options: exportSettings.watermark,
+              frameAspect: exportSettings.width / exportSettings.height,
+            } : null}
+          >
+            <TextOverlayPreview
+              overlays={selectedClip.texts ?? []}
+              clipDuration={selectedClip.duration}
+              frameAspect={exportSettings.width / exportSettings.height}
+              clock={previewClock}
             />
-          ) : (
+          </EffectPreview>
+        ) : (
+          <div className="aspect-video bg-base-300 rounded-lg overflow-hidden">
             <div className="h-full flex items-center justify-center text-base-content/70">
-              Select an effect to preview
+              {clips.length > 0 ? 'Select a clip to preview' : 'Upload an image to start'}
             </div>
-          )
-        ) : (
-          <div className="h-full flex items-center justify-center text-base-content/70">
-            Upload an image to start
           </div>
         )}
-      </div>
+
+        {selectedClip?.transition && nextClip && (
+          <div className="aspect-video bg-base-300 rounded-lg overflow-hidden">
+            <TransitionPreview
+              fromUrl={selectedClip.previewUrl}
+              toUrl={nextClip.previewUrl}
+              transition={selectedClip.transition}
+              duration={transitionDuration(clips, selectedIndex)}
+            />
+          </div>
+        )}
+
+        <Timeline
+          clips={clips}
+          selectedClipId={selectedClipId}
+          onSelectClip={setSelectedClipId}
+          onMoveClip={(from, to) => edit(({ clips: prev }) => ({ clips: moveClip(prev, from, to) }), { label: 'Move clip' })}
+          onClipDurationChange={handleClipDurationChange}
+          onRemoveClip={handleRemoveClip}
+          disabled={isProcessing}
+        />
+
+        {clips.length > 0 && (
+          <AudioTrackPanel
+            audio={audio}
+            onAudioChange={next => edit(() => ({ audio: next }), { label: next ? (audio ? 'Edit audio track' : 'Add audio track') : 'Remove audio track', group: 'audio' })}
+            videoDuration={timelineDuration(clips)}
+            unsupportedReason={audioUnsupportedReason}
+            disabled={isProcessing}
+          />
+        )}
+
+        {clips.length > 0 && (
+          <CaptionPanel
+            captions={captions}
+            onCaptionsChange={next => edit(() => ({ captions: next }), { label: next ? (captions ? 'Edit captions' : 'Add captions') : 'Remove captions', group: 'captions' })}
+            videoDuration={timelineDuration(clips)}
+            embedAvailable={!!SUBTITLE_CODECS[exportSettings.format]}
+            unsupportedReason={captionUnsupportedReason}
+            disabled={isProcessing}
+          />
+        )}
+        </>
+      )}
+
+        {capabilities && !capabilities.available && (
+        <div className="alert alert-warning mb-4">
+          <span>Video export is unavailable: {capabilities.error}</span>
+        </div>
+        )}
 
         {error && (
         <div className="alert alert-error mb-4">
@@ -151,6 +595,26 @@ export default function Home() {
         </div>
         )}
 
+        {notice && (
+        <div className="alert alert-info mb-4">
+          <span>{notice}</span>
+          <button 
+          className="btn btn-sm btn-circle btn-ghost absolute right-2 top-2"
+          onClick={() => setNotice(null)}
+          >✕</button>
+        </div>
+        )}
+
+        {recoverySnapshots && (
+          <SessionRecovery
+            snapshots={recoverySnapshots}
+            onRestore={handleRestoreSnapshot}
+            onDiscard={handleDiscardSnapshots}
+            onClose={() => setRecoverySnapshots(null)}
+            restoring={restoring}
+          />
+        )}
+
         {progress && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-base-100 p-6 rounded-lg shadow-xl max-w-md w-full">
@@ -176,11 +640,30 @@ export default function Home() {
   );
 
   const rightPanelContent = (
-    <ExportSettings
-      settings={exportSettings}
-      onSettingsChange={setExportSettings}
-      disabled={isProcessing}
-    />
+    <div className="space-y-4">
+      <ExportSettings
+        settings={exportSettings}
+        onSettingsChange={(settings, settingsEdit) => edit(() => ({ exportSettings: settings }), settingsEdit)}
+        capabilities={capabilities}
+        disabled={isProcessing}
+      />
+      <WatermarkSettings
+        watermark={watermark}
+        onWatermarkChange={next => edit(() => ({ watermark: next }), { label: next ? (watermark ? 'Change watermark' : 'Add watermark') : 'Remove watermark', group: 'watermark' })}
+        options={exportSettings.watermark}
+        onOptionsChange={options => edit(
+          ({ exportSettings: prev }) => ({ exportSettings: { ...prev, watermark: options } }),
+          { label: 'Adjust watermark', group: 'watermark' }
+        )}
+        unsupportedReason={watermarkUnsupportedReason}
+        disabled={isProcessing}
+      />
+      <HistoryPanel
+        history={history}
+        onJump={index => setHistory(prev => jumpTo(prev, index))}
+        disabled={isProcessing}
+      />
+    </div>
   );
 
   return (
@@ -189,6 +672,8 @@ export default function Home() {
       sidebarContent={sidebarContent}
       mainContent={mainContent}
       rightPanelContent={rightPanelContent}
+      layout={panelLayout}
+      onLayoutChange={setPanelLayout}
     />
 
   );
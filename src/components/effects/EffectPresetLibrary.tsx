@@ -0,0 +1,358 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { ChangeEvent } from 'react';
+import { EffectType, VideoEffect } from '@/types/effects';
+import { EffectPreset, EffectPresetDataSchema, MAX_EFFECT_PRESETS } from '@/types/presets';
+import { FFmpegCapabilities } from '@/types/capabilities';
+import { isEffectSupported } from '@/lib/ffmpeg/requirements';
+import { downloadBlob } from '@/lib/files/download';
+import {
+	BUILT_IN_CATEGORY,
+	BUILT_IN_EFFECT_PRESETS,
+	DEFAULT_PRESET_CATEGORY,
+	EffectPresetImportError,
+	EffectPresetLibrary as Library,
+	createEffectPreset,
+	duplicateEffectPreset,
+	importEffectPresets,
+	loadEffectPresets,
+	parseEffectPresetBundle,
+	saveEffectPresets,
+	toEffectPresetBundle,
+	uniquePresetName,
+} from '@/lib/presets/effect-presets';
+
+const ALL_PRESETS = '__all__';
+const FAVORITE_PRESETS = '__favorites__';
+
+interface PresetDraft {
+	name: string;
+	description: string;
+	category: string;
+	/** When editing: replace the saved effect with the one being edited */
+	useCurrentEffect: boolean;
+}
+
+interface EffectPresetLibraryProps {
+	/** The effect being edited, saved by "Save current" */
+	currentEffect: VideoEffect;
+	onApply: (effect: VideoEffect, presetName: string) => void;
+	/** Effect types the active effect category shows */
+	effectTypes: EffectType[];
+	capabilities?: FFmpegCapabilities | null;
+	disabled?: boolean;
+}
+
+export function EffectPresetLibrary({
+	currentEffect,
+	onApply,
+	effectTypes,
+	capabilities = null,
+	disabled = false
+}: EffectPresetLibraryProps) {
+	const [library, setLibrary] = useState<Library | null>(null);
+	const [filter, setFilter] = useState(ALL_PRESETS);
+	// null: no form; 'new': saving the current effect; otherwise the id being edited
+	const [editing, setEditing] = useState<string | null>(null);
+	const [draft, setDraft] = useState<PresetDraft>({ name: '', description: '', category: DEFAULT_PRESET_CATEGORY, useCurrentEffect: false });
+	const [error, setError] = useState<string | null>(null);
+	const [notice, setNotice] = useState<string | null>(null);
+	const importInput = useRef<HTMLInputElement>(null);
+
+	// localStorage only exists in the browser, so the library loads after mounting
+	useEffect(() => {
+		setLibrary(loadEffectPresets());
+	}, []);
+
+	const presets = library?.presets ?? [];
+	const favorites = new Set(library?.favorites ?? []);
+	const categories = Array.from(new Set(presets.map(preset => preset.category))).sort();
+
+	const updateLibrary = (next: Library) => {
+		setLibrary(next);
+		saveEffectPresets(next);
+	};
+
+	const shown = [...BUILT_IN_EFFECT_PRESETS, ...presets]
+		.filter(preset => effectTypes.includes(preset.effect.type))
+		.filter(preset => filter === ALL_PRESETS
+			|| (filter === FAVORITE_PRESETS ? favorites.has(preset.id) : preset.category === filter))
+		// Favorites first, otherwise keep built-ins ahead of saved presets
+		.sort((a, b) => Number(favorites.has(b.id)) - Number(favorites.has(a.id)));
+
+	const openForm = (id: string, preset?: EffectPreset) => {
+		setError(null);
+		setNotice(null);
+		setEditing(id);
+		if (preset) {
+			setDraft({ name: preset.name, description: preset.description, category: preset.category, useCurrentEffect: false });
+			return;
+		}
+		// New presets go into the category being browsed, if it is one of the user's own
+		const browsingCategory = categories.includes(filter) ? filter : DEFAULT_PRESET_CATEGORY;
+		setDraft({
+			name: uniquePresetName('New preset', [...BUILT_IN_EFFECT_PRESETS, ...presets]),
+			description: '',
+			category: browsingCategory,
+			useCurrentEffect: true,
+		});
+	};
+
+	const handleSave = () => {
+		if (!library || !editing) return;
+		const existing = presets.find(preset => preset.id === editing);
+		const { type, params, keyframes } = currentEffect;
+		const parsed = EffectPresetDataSchema.safeParse({
+			name: draft.name,
+			description: draft.description,
+			category: draft.category,
+			effect: existing && !draft.useCurrentEffect ? existing.effect : { type, params, keyframes },
+		});
+		if (!parsed.success) {
+			const issue = parsed.error.issues[0];
+			setError(`${issue?.path[0] ?? 'Preset'}: ${issue?.message ?? 'invalid value'}`);
+			return;
+		}
+		if (parsed.data.category === BUILT_IN_CATEGORY) {
+			setError(`"${BUILT_IN_CATEGORY}" is reserved for the default presets`);
+			return;
+		}
+		const others = [...BUILT_IN_EFFECT_PRESETS, ...presets.filter(preset => preset.id !== editing)];
+		if (others.some(preset => preset.name.toLowerCase() === parsed.data.name.toLowerCase())) {
+			setError(`A preset named "${parsed.data.name}" already exists`);
+			return;
+		}
+
+		if (existing) {
+			updateLibrary({
+				...library,
+				presets: presets.map(preset => (preset.id === editing ? { ...preset, ...parsed.data, updatedAt: Date.now() } : preset)),
+			});
+		} else {
+			if (presets.length >= MAX_EFFECT_PRESETS) {
+				setError(`A library holds at most ${MAX_EFFECT_PRESETS} presets`);
+				return;
+			}
+			updateLibrary({ ...library, presets: [...presets, createEffectPreset(parsed.data)] });
+		}
+		setEditing(null);
+		setError(null);
+	};
+
+	const handleDuplicate = (preset: EffectPreset) => {
+		if (!library) return;
+		if (presets.length >= MAX_EFFECT_PRESETS) {
+			setError(`A library holds at most ${MAX_EFFECT_PRESETS} presets`);
+			return;
+		}
+		const copy = duplicateEffectPreset(preset, [...BUILT_IN_EFFECT_PRESETS, ...presets]);
+		updateLibrary({ ...library, presets: [...presets, copy] });
+		openForm(copy.id, copy);
+	};
+
+	const handleDelete = (preset: EffectPreset) => {
+		if (!library || !window.confirm(`Delete the preset "${preset.name}"?`)) return;
+		updateLibrary({
+			presets: presets.filter(entry => entry.id !== preset.id),
+			favorites: library.favorites.filter(id => id !== preset.id),
+		});
+		if (editing === preset.id) setEditing(null);
+	};
+
+	const handleToggleFavorite = (preset: EffectPreset) => {
+		if (!library) return;
+		updateLibrary({
+			...library,
+			favorites: favorites.has(preset.id)
+				? library.favorites.filter(id => id !== preset.id)
+				: [...library.favorites, preset.id],
+		});
+	};
+
+	const handleExport = () => {
+		const bundle = toEffectPresetBundle(presets);
+		downloadBlob(new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' }), 'effect-presets.json');
+	};
+
+	const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		e.target.value = '';
+		if (!file || !library) return;
+		setError(null);
+		setNotice(null);
+		try {
+			const imported = parseEffectPresetBundle(await file.text());
+			updateLibrary({ ...library, presets: importEffectPresets(presets, imported) });
+			setNotice(`Imported ${imported.length} preset${imported.length === 1 ? '' : 's'}`);
+		} catch (err) {
+			if (!(err instanceof EffectPresetImportError)) console.error('Preset import error:', err);
+			setError(err instanceof Error ? err.message : 'Failed to import presets');
+		}
+	};
+
+	return (
+		<div className="space-y-3">
+			<div className="flex flex-wrap items-center gap-2">
+				<select
+					className="select select-bordered select-xs"
+					value={filter}
+					onChange={(e) => setFilter(e.target.value)}
+					disabled={disabled}
+					aria-label="Preset category"
+				>
+					<option value={ALL_PRESETS}>All presets</option>
+					<option value={FAVORITE_PRESETS}>Favorites</option>
+					<option value={BUILT_IN_CATEGORY}>{BUILT_IN_CATEGORY}</option>
+					{categories.map(category => (
+						<option key={category} value={category}>{category}</option>
+					))}
+				</select>
+				<div className="flex-1" />
+				<button
+					className="btn btn-xs btn-primary"
+					onClick={() => openForm('new')}
+					disabled={disabled || !library}
+				>
+					Save current
+				</button>
+				<button
+					className="btn btn-xs"
+					onClick={() => importInput.current?.click()}
+					disabled={disabled || !library}
+				>
+					Import
+				</button>
+				<button
+					className="btn btn-xs"
+					onClick={handleExport}
+					disabled={disabled || presets.length === 0}
+				>
+					Export
+				</button>
+				<input
+					ref={importInput}
+					type="file"
+					accept=".json,application/json"
+					className="hidden"
+					onChange={handleImport}
+				/>
+			</div>
+
+			{editing && (
+				<div className="space-y-2 rounded-lg bg-base-200 p-3">
+					<input
+						type="text"
+						className="input input-bordered input-sm w-full"
+						value={draft.name}
+						onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+						placeholder="Name"
+						maxLength={60}
+						aria-label="Preset name"
+					/>
+					<input
+						type="text"
+						className="input input-bordered input-sm w-full"
+						value={draft.description}
+						onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+						placeholder="Description"
+						maxLength={200}
+						aria-label="Preset description"
+					/>
+					<input
+						type="text"
+						className="input input-bordered input-sm w-full"
+						value={draft.category}
+						onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+						placeholder="Category"
+						maxLength={40}
+						list="effect-preset-categories"
+						aria-label="Preset category"
+					/>
+					<datalist id="effect-preset-categories">
+						{categories.map(category => <option key={category} value={category} />)}
+					</datalist>
+					{editing !== 'new' && (
+						<label className="label cursor-pointer justify-start gap-2 p-0">
+							<input
+								type="checkbox"
+								className="checkbox checkbox-xs"
+								checked={draft.useCurrentEffect}
+								onChange={(e) => setDraft({ ...draft, useCurrentEffect: e.target.checked })}
+							/>
+							<span className="label-text-alt">Replace the effect with the one being edited</span>
+						</label>
+					)}
+					<div className="flex justify-end gap-2">
+						<button className="btn btn-ghost btn-xs" onClick={() => setEditing(null)}>
+							Cancel
+						</button>
+						<button className="btn btn-primary btn-xs" onClick={handleSave} disabled={disabled}>
+							Save
+						</button>
+					</div>
+				</div>
+			)}
+
+			{error && <div className="text-xs text-error">{error}</div>}
+			{notice && <div className="text-xs text-success">{notice}</div>}
+
+			<div className="grid grid-cols-2 gap-3">
+				{shown.map(preset => (
+					<div key={preset.id} className="card bg-base-200 hover:bg-base-300 transition-colors">
+						<button
+							className="card-body p-3 text-left"
+							onClick={() => onApply(preset.effect, preset.name)}
+							disabled={disabled || !isEffectSupported(capabilities, preset.effect.type)}
+						>
+							<h3 className="card-title text-sm">{preset.name}</h3>
+							{preset.description && <p className="text-xs opacity-70">{preset.description}</p>}
+							{!preset.builtIn && <span className="badge badge-ghost badge-xs">{preset.category}</span>}
+						</button>
+						<div className="flex justify-end gap-1 px-2 pb-2">
+							<button
+								className={`btn btn-ghost btn-xs ${favorites.has(preset.id) ? 'text-warning' : ''}`}
+								onClick={() => handleToggleFavorite(preset)}
+								disabled={disabled || !library}
+								aria-label={favorites.has(preset.id) ? 'Remove from favorites' : 'Add to favorites'}
+							>
+								{favorites.has(preset.id) ? '★' : '☆'}
+							</button>
+							{!preset.builtIn && (
+								<button
+									className="btn btn-ghost btn-xs"
+									onClick={() => openForm(preset.id, preset)}
+									disabled={disabled}
+									aria-label="Edit preset"
+								>
+									✎
+								</button>
+							)}
+							<button
+								className="btn btn-ghost btn-xs"
+								onClick={() => handleDuplicate(preset)}
+								disabled={disabled || !library}
+								aria-label="Duplicate preset"
+							>
+								⧉
+							</button>
+							{!preset.builtIn && (
+								<button
+									className="btn btn-ghost btn-xs"
+									onClick={() => handleDelete(preset)}
+									disabled={disabled}
+									aria-label="Delete preset"
+								>
+									✕
+								</button>
+							)}
+						</div>
+					</div>
+				))}
+			</div>
+			{shown.length === 0 && (
+				<p className="text-xs text-base-content/70">No presets for these effects here yet.</p>
+			)}
+		</div>
+	);
+}
@@ -1,7 +1,13 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { EffectType, EffectParams, VideoEffect } from '@/types/effects';
+import { useState, useEffect } from 'react';
+import { EffectType, EffectParams, Easing, EffectLayer, KeyframeTracks, VideoEffect, EFFECT_KEYFRAME_PARAMS, MAX_EFFECT_LAYERS } from '@/types/effects';
+import { FFmpegCapabilities } from '@/types/capabilities';
+import { isEffectSupported } from '@/lib/ffmpeg/requirements';
+import { KeyframeStrip } from '@/components/effects/KeyframeStrip';
+import { EffectPresetLibrary } from '@/components/effects/EffectPresetLibrary';
+import { createEffectLayer } from '@/lib/effects/stack';
+import { HistoryEdit } from '@/lib/history/history';
 
 type EffectCategory = 'Basic' | 'Dynamic' | 'Creative';
 
@@ -21,31 +27,16 @@ const EFFECT_CATEGORIES: Record<EffectCategory, { effects: EffectType[], descrip
 };
 
 interface EffectSelectorProps {
-	onEffectChange: (effect: VideoEffect) => void;
+	layers: EffectLayer[];
+	onLayersChange: (layers: EffectLayer[], edit: HistoryEdit) => void;
+	capabilities?: FFmpegCapabilities | null;
 	disabled?: boolean;
 }
 
-const EFFECT_PRESETS: Record<string, VideoEffect & { description: string }> = {
-	'Gentle Zoom In': {
-		type: 'ZOOM',
-		params: { duration: 5, intensity: 30, direction: 'IN', easing: 'EASE_IN_OUT' },
-		description: 'Subtle zoom that draws attention'
-	},
-	'Cinematic Ken Burns': {
-		type: 'KEN_BURNS',
-		params: { duration: 8, intensity: 70, easing: 'EASE_IN_OUT' },
-		description: 'Professional pan and zoom effect'
-	},
-	'Dynamic Parallax': {
-		type: 'PARALLAX',
-		params: { duration: 6, intensity: 40, easing: 'EASE_IN_OUT' },
-		description: 'Creates depth with layered movement'
-	},
-	'Smooth Pulse': {
-		type: 'PULSE',
-		params: { duration: 4, intensity: 25, easing: 'EASE_IN_OUT' },
-		description: 'Gentle breathing animation'
-	}
+// New layers start as a subtle drift, which sits well on top of most effects
+const NEW_LAYER_EFFECT: VideoEffect = {
+	type: 'DRIFT',
+	params: { duration: 5, intensity: 20, easing: 'EASE_IN_OUT' }
 };
 
 const PARAMETER_PRESETS = {
@@ -72,10 +63,54 @@ const EFFECT_DESCRIPTIONS: Record<EffectType, string> = {
 	'KEN_BURNS': 'Professional pan and zoom combination'
 };
 
-export function EffectSelector({ onEffectChange, disabled = false }: EffectSelectorProps) {
-	const [selectedEffect, setSelectedEffect] = useState<VideoEffect>(EFFECT_PRESETS['Gentle Zoom In']);
+const formatEffectName = (type: EffectType) => type.charAt(0) + type.slice(1).toLowerCase().replace('_', ' ');
+
+export function EffectSelector({ layers, onLayersChange, capabilities = null, disabled = false }: EffectSelectorProps) {
+	const [activeLayerId, setActiveLayerId] = useState<string>(() => layers[0].id);
 	const [activeCategory, setActiveCategory] = useState<EffectCategory>('Basic');
 
+	// The controls below edit the active layer
+	const selectedEffect = layers.find(layer => layer.id === activeLayerId) ?? layers[0];
+
+	// The layers live in the editor's history, so every change goes up with a label
+	const updateLayers = (newLayers: EffectLayer[], label: string, group?: string) => {
+		onLayersChange(newLayers, { label, group });
+	};
+
+	const setSelectedEffect = (effect: VideoEffect, label: string, group?: string) => {
+		updateLayers(layers.map(layer => (layer.id === selectedEffect.id ? { ...layer, ...effect } : layer)), label, group);
+	};
+
+	const handleAddLayer = () => {
+		const layer = createEffectLayer({
+			...NEW_LAYER_EFFECT,
+			params: { ...NEW_LAYER_EFFECT.params, duration: selectedEffect.params.duration }
+		});
+		updateLayers([...layers, layer], 'Add effect layer');
+		setActiveLayerId(layer.id);
+	};
+
+	const handleRemoveLayer = (id: string) => {
+		const newLayers = layers.filter(layer => layer.id !== id);
+		updateLayers(newLayers, 'Remove effect layer');
+		if (id === selectedEffect.id) setActiveLayerId(newLayers[0].id);
+	};
+
+	const handleMoveLayer = (index: number, offset: number) => {
+		const newLayers = [...layers];
+		const [layer] = newLayers.splice(index, 1);
+		newLayers.splice(index + offset, 0, layer);
+		updateLayers(newLayers, 'Reorder effect layers');
+	};
+
+	const handleToggleLayer = (id: string) => {
+		const muting = layers.find(layer => layer.id === id)?.enabled;
+		updateLayers(
+			layers.map(layer => (layer.id === id ? { ...layer, enabled: !layer.enabled } : layer)),
+			muting ? 'Mute effect layer' : 'Enable effect layer'
+		);
+	};
+
 	// Add keyboard shortcuts
 	useEffect(() => {
 		const handleKeyPress = (e: KeyboardEvent) => {
@@ -91,41 +126,104 @@ export function EffectSelector({ onEffectChange, disabled = false }: EffectSelec
 		return () => window.removeEventListener('keydown', handleKeyPress);
 	}, [disabled]);
 
-	useEffect(() => {
-		// Reset direction when switching between effect types
-		if (!['ZOOM', 'PAN'].includes(selectedEffect.type)) {
-			const { direction, ...rest } = selectedEffect.params;
-			setSelectedEffect(prev => ({
-				...prev,
-				params: rest
-			}));
-		}
-	}, [selectedEffect.type]);
-
+	// Direction only means something to zoom and pan, so other types drop it
 	const handleTypeChange = (type: EffectType) => {
-		const newEffect = { 
+		setSelectedEffect({
 			...selectedEffect,
 			type,
 			params: {
 				...selectedEffect.params,
 				direction: ['ZOOM', 'PAN'].includes(type) ? selectedEffect.params.direction : undefined
-			}
-		};
-		setSelectedEffect(newEffect);
-		onEffectChange(newEffect);
+			},
+			// Keep only the tracks the new effect can animate
+			keyframes: selectedEffect.keyframes && Object.fromEntries(
+				Object.entries(selectedEffect.keyframes).filter(([param]) =>
+					EFFECT_KEYFRAME_PARAMS[type].includes(param as keyof KeyframeTracks))
+			)
+		}, `Change effect to ${formatEffectName(type)}`);
 	};
 
-	const handleParamChange = (key: keyof EffectParams, value: any) => {
-		const newEffect = {
+	// Slider drags pass `coalesce`, so a whole drag undoes in one step
+	const handleParamChange = <K extends keyof EffectParams>(key: K, value: EffectParams[K], coalesce = false) => {
+		setSelectedEffect({
 			...selectedEffect,
 			params: { ...selectedEffect.params, [key]: value }
-		};
-		setSelectedEffect(newEffect);
-		onEffectChange(newEffect);
+		}, `Change ${key}`, coalesce ? `${selectedEffect.id}:${key}` : undefined);
+	};
+
+	const handleKeyframesChange = (keyframes: KeyframeTracks) => {
+		setSelectedEffect({ ...selectedEffect, keyframes }, 'Edit keyframes', `${selectedEffect.id}:keyframes`);
 	};
 
 	return (
 		<div className="space-y-6">
+			<div className="space-y-2">
+				<div className="flex items-center justify-between">
+					<span className="label-text">Layers</span>
+					<button
+						className="btn btn-xs"
+						onClick={handleAddLayer}
+						disabled={disabled || layers.length >= MAX_EFFECT_LAYERS}
+					>
+						Add layer
+					</button>
+				</div>
+				<ul className="space-y-1">
+					{layers.map((layer, index) => (
+						<li
+							key={layer.id}
+							className={`flex items-center gap-2 rounded-lg px-2 py-1 ${layer.id === selectedEffect.id ? 'bg-primary/20' : 'bg-base-200'}`}
+						>
+							<input
+								type="checkbox"
+								className="toggle toggle-xs toggle-primary"
+								checked={layer.enabled}
+								onChange={() => handleToggleLayer(layer.id)}
+								disabled={disabled}
+								title={layer.enabled ? 'Mute layer' : 'Enable layer'}
+							/>
+							<button
+								className={`flex-1 text-left text-sm ${layer.enabled ? '' : 'line-through opacity-50'}`}
+								onClick={() => setActiveLayerId(layer.id)}
+								disabled={disabled}
+							>
+								{index + 1}. {formatEffectName(layer.type)}
+								{!isEffectSupported(capabilities, layer.type) && ' (unavailable)'}
+							</button>
+							<button
+								className="btn btn-ghost btn-xs"
+								onClick={() => handleMoveLayer(index, -1)}
+								disabled={disabled || index === 0}
+								aria-label="Move layer up"
+							>
+								↑
+							</button>
+							<button
+								className="btn btn-ghost btn-xs"
+								onClick={() => handleMoveLayer(index, 1)}
+								disabled={disabled || index === layers.length - 1}
+								aria-label="Move layer down"
+							>
+								↓
+							</button>
+							<button
+								className="btn btn-ghost btn-xs"
+								onClick={() => handleRemoveLayer(layer.id)}
+								disabled={disabled || layers.length === 1}
+								aria-label="Remove layer"
+							>
+								✕
+							</button>
+						</li>
+					))}
+				</ul>
+				{layers.length > 1 && (
+					<p className="text-xs text-base-content/70">
+						Layers apply top to bottom; each one moves the result of the layers above it.
+					</p>
+				)}
+			</div>
+
 			{/* Categories with tooltips */}
 			<div className="tabs tabs-boxed">
 				{Object.entries(EFFECT_CATEGORIES).map(([category, { description }], index) => (
@@ -142,27 +240,14 @@ export function EffectSelector({ onEffectChange, disabled = false }: EffectSelec
 				))}
 			</div>
 
-			{/* Quick presets with visual previews */}
-			<div className="grid grid-cols-2 gap-3">
-				{Object.entries(EFFECT_PRESETS)
-					.filter(([_, preset]) => EFFECT_CATEGORIES[activeCategory].effects.includes(preset.type))
-					.map(([name, preset]) => (
-						<div key={name} className="card bg-base-200 hover:bg-base-300 transition-colors">
-							<button
-								className="card-body p-3"
-								onClick={() => {
-									setSelectedEffect(preset);
-									onEffectChange(preset);
-								}}
-								disabled={disabled}
-							>
-								<h3 className="card-title text-sm">{name}</h3>
-								<p className="text-xs opacity-70">{preset.description}</p>
-							</button>
-						</div>
-					))}
-			</div>
-
+			{/* Built-in and saved presets for the active category */}
+			<EffectPresetLibrary
+				currentEffect={selectedEffect}
+				onApply={({ type, params, keyframes }, name) => setSelectedEffect({ type, params, keyframes }, `Apply ${name} preset`)}
+				effectTypes={EFFECT_CATEGORIES[activeCategory].effects}
+				capabilities={capabilities}
+				disabled={disabled}
+			/>
 
 			<div className="form-control">
 				<label className="label">
@@ -175,8 +260,14 @@ export function EffectSelector({ onEffectChange, disabled = false }: EffectSelec
 					disabled={disabled}
 				>
 					{Object.entries(EFFECT_DESCRIPTIONS).map(([type, description]) => (
-						<option key={type} value={type} title={description}>
-							{type.charAt(0) + type.slice(1).toLowerCase().replace('_', ' ')}
+						<option
+							key={type}
+							value={type}
+							title={description}
+							disabled={!isEffectSupported(capabilities, type as EffectType)}
+						>
+							{formatEffectName(type as EffectType)}
+							{!isEffectSupported(capabilities, type as EffectType) && ' (unavailable)'}
 						</option>
 					))}
 				</select>
@@ -209,7 +300,7 @@ export function EffectSelector({ onEffectChange, disabled = false }: EffectSelec
 						min="1"
 						max="30"
 						value={selectedEffect.params.duration}
-						onChange={(e) => handleParamChange('duration', Number(e.target.value))}
+						onChange={(e) => handleParamChange('duration', Number(e.target.value), true)}
 						className="range range-primary range-sm"
 						disabled={disabled}
 					/>
@@ -235,7 +326,7 @@ export function EffectSelector({ onEffectChange, disabled = false }: EffectSelec
 						min="0"
 						max="100"
 						value={selectedEffect.params.intensity}
-						onChange={(e) => handleParamChange('intensity', Number(e.target.value))}
+						onChange={(e) => handleParamChange('intensity', Number(e.target.value), true)}
 						className="range range-primary range-sm"
 						disabled={disabled}
 					/>
@@ -256,7 +347,7 @@ export function EffectSelector({ onEffectChange, disabled = false }: EffectSelec
 						<select
 							className="select select-bordered"
 							value={selectedEffect.params.easing}
-							onChange={(e) => handleParamChange('easing', e.target.value)}
+							onChange={(e) => handleParamChange('easing', e.target.value as Easing)}
 							disabled={disabled}
 						>
 							<option value="LINEAR">Linear</option>
@@ -275,7 +366,7 @@ export function EffectSelector({ onEffectChange, disabled = false }: EffectSelec
 						<select
 							className="select select-bordered"
 							value={selectedEffect.params.direction}
-							onChange={(e) => handleParamChange('direction', e.target.value)}
+							onChange={(e) => handleParamChange('direction', e.target.value as EffectParams['direction'])}
 							disabled={disabled}
 						>
 							{selectedEffect.type === 'ZOOM' ? (
@@ -295,6 +386,13 @@ export function EffectSelector({ onEffectChange, disabled = false }: EffectSelec
 					</div>
 				)}
 			</div>
+
+			<KeyframeStrip
+				key={selectedEffect.id}
+				effect={selectedEffect}
+				onKeyframesChange={handleKeyframesChange}
+				disabled={disabled}
+			/>
 		</div>
 	);
 }
\ No newline at end of file
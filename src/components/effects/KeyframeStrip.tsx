@@ -0,0 +1,213 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import type { MouseEvent as ReactMouseEvent, PointerEvent as ReactPointerEvent } from 'react';
+import { EFFECT_KEYFRAME_PARAMS, Easing, Keyframe, KeyframeParam, KeyframeTracks, VideoEffect } from '@/types/effects';
+import { KEYFRAME_PARAM_INFO, defaultKeyframeValue, evaluateTrack, sortKeyframes } from '@/lib/effects/keyframes';
+
+// Keys snap to tenths of a second
+const TIME_STEP = 0.1;
+
+interface KeyframeStripProps {
+	effect: VideoEffect;
+	onKeyframesChange: (keyframes: KeyframeTracks) => void;
+	disabled?: boolean;
+}
+
+const snapTime = (time: number, duration: number) =>
+	Math.min(Math.max(Number((Math.round(time / TIME_STEP) * TIME_STEP).toFixed(1)), 0), duration);
+
+const snapValue = (value: number, step: number) => Number((Math.round(value / step) * step).toFixed(2));
+
+export function KeyframeStrip({ effect, onKeyframesChange, disabled = false }: KeyframeStripProps) {
+	const params = EFFECT_KEYFRAME_PARAMS[effect.type];
+	const [activeParam, setActiveParam] = useState<KeyframeParam | null>(null);
+	const [selectedKey, setSelectedKey] = useState<Keyframe | null>(null);
+	const [dragging, setDragging] = useState(false);
+	const stripRef = useRef<HTMLDivElement>(null);
+
+	if (params.length === 0) return null;
+
+	const param = activeParam && params.includes(activeParam) ? activeParam : params[0];
+	const info = KEYFRAME_PARAM_INFO[param];
+	const { duration } = effect.params;
+	const track = sortKeyframes(effect.keyframes?.[param] ?? []);
+	const selectedIndex = selectedKey ? track.indexOf(selectedKey) : -1;
+	const selected = selectedIndex >= 0 ? track[selectedIndex] : null;
+
+	const updateTrack = (nextTrack: Keyframe[], nextSelected: Keyframe | null = selected) => {
+		onKeyframesChange({ ...effect.keyframes, [param]: nextTrack.length > 0 ? sortKeyframes(nextTrack) : undefined });
+		setSelectedKey(nextSelected);
+	};
+
+	const updateSelected = (changes: Partial<Keyframe>) => {
+		if (!selected) return;
+		const updated = { ...selected, ...changes };
+		updateTrack(track.map(key => (key === selected ? updated : key)), updated);
+	};
+
+	const deleteSelected = () => {
+		if (!selected) return;
+		updateTrack(track.filter(key => key !== selected), null);
+	};
+
+	const timeAt = (clientX: number) => {
+		const rect = stripRef.current?.getBoundingClientRect();
+		if (!rect || rect.width === 0) return 0;
+		return snapTime((clientX - rect.left) / rect.width * duration, duration);
+	};
+
+	// Clicking empty strip adds a key on the current curve, so the motion does not jump
+	const handleStripClick = (e: ReactMouseEvent<HTMLDivElement>) => {
+		if (disabled || e.target !== e.currentTarget) return;
+		const time = timeAt(e.clientX);
+		const value = track.length > 0 ? evaluateTrack(track, time) : defaultKeyframeValue(effect, param);
+		const key: Keyframe = { time, value: snapValue(value, info.step), easing: effect.params.easing };
+		updateTrack([...track, key], key);
+	};
+
+	const handleKeyPointerDown = (key: Keyframe, e: ReactPointerEvent<HTMLButtonElement>) => {
+		if (disabled) return;
+		e.currentTarget.setPointerCapture(e.pointerId);
+		setSelectedKey(key);
+		setDragging(true);
+	};
+
+	// The captured marker may re-render as another key once keys reorder, so move the selection
+	const handleKeyPointerMove = (e: ReactPointerEvent<HTMLButtonElement>) => {
+		if (!dragging || !selected) return;
+		const time = timeAt(e.clientX);
+		if (time !== selected.time) updateSelected({ time });
+	};
+
+	const handleKeyPointerUp = (e: ReactPointerEvent<HTMLButtonElement>) => {
+		e.currentTarget.releasePointerCapture(e.pointerId);
+		setDragging(false);
+	};
+
+	return (
+		<div className="form-control space-y-2">
+			<label className="label">
+				<span className="label-text">Keyframes</span>
+				{track.length > 0 && (
+					<button
+						className="btn btn-xs btn-ghost"
+						onClick={() => updateTrack([], null)}
+						disabled={disabled}
+					>
+						Clear {info.label}
+					</button>
+				)}
+			</label>
+
+			<div className="tabs tabs-boxed">
+				{params.map(option => (
+					<button
+						key={option}
+						className={`tab tab-sm ${option === param ? 'tab-active' : ''}`}
+						onClick={() => {
+							setActiveParam(option);
+							setSelectedKey(null);
+						}}
+						disabled={disabled}
+					>
+						{KEYFRAME_PARAM_INFO[option].label}
+						{(effect.keyframes?.[option]?.length ?? 0) > 0 && <span className="ml-1 opacity-50">◆</span>}
+					</button>
+				))}
+			</div>
+
+			<div
+				ref={stripRef}
+				className={`relative h-8 rounded bg-base-200 ${disabled ? 'opacity-50' : 'cursor-copy'}`}
+				onClick={handleStripClick}
+				title="Click to add a keyframe"
+			>
+				{track.map((key, index) => (
+					<button
+						key={index}
+						className={`absolute top-1/2 w-3 h-3 -ml-1.5 -mt-1.5 rotate-45 cursor-ew-resize ${key === selected ? 'bg-primary' : 'bg-base-content/60'}`}
+						style={{ left: `${key.time / duration * 100}%` }}
+						onPointerDown={(e) => handleKeyPointerDown(key, e)}
+						onPointerMove={handleKeyPointerMove}
+						onPointerUp={handleKeyPointerUp}
+						onKeyDown={(e) => {
+							if (e.key === 'Delete' || e.key === 'Backspace') deleteSelected();
+						}}
+						disabled={disabled}
+						aria-label={`${info.label} keyframe at ${key.time.toFixed(1)}s`}
+					/>
+				))}
+			</div>
+			<div className="w-full flex justify-between text-xs px-1">
+				<span>0s</span>
+				<span>{duration}s</span>
+			</div>
+
+			{selected ? (
+				<div className="grid grid-cols-2 gap-2">
+					<div className="form-control">
+						<label className="label">
+							<span className="label-text-alt">Time (s)</span>
+						</label>
+						<input
+							type="number"
+							className="input input-bordered input-sm"
+							value={selected.time}
+							onChange={(e) => updateSelected({ time: snapTime(Number(e.target.value), duration) })}
+							min="0"
+							max={duration}
+							step={TIME_STEP}
+							disabled={disabled}
+						/>
+					</div>
+					<div className="form-control">
+						<label className="label">
+							<span className="label-text-alt">Easing to next key</span>
+						</label>
+						<select
+							className="select select-bordered select-sm"
+							value={selected.easing}
+							onChange={(e) => updateSelected({ easing: e.target.value as Easing })}
+							disabled={disabled || selectedIndex === track.length - 1}
+						>
+							<option value="LINEAR">Linear</option>
+							<option value="EASE_IN">Ease In</option>
+							<option value="EASE_OUT">Ease Out</option>
+							<option value="EASE_IN_OUT">Ease In Out</option>
+						</select>
+					</div>
+					<div className="form-control col-span-2">
+						<label className="label">
+							<span className="label-text-alt">{info.label}</span>
+							<span className="label-text-alt">{selected.value}{info.unit}</span>
+						</label>
+						<input
+							type="range"
+							className="range range-primary range-xs"
+							value={selected.value}
+							onChange={(e) => updateSelected({ value: Number(e.target.value) })}
+							min={info.min}
+							max={info.max}
+							step={info.step}
+							disabled={disabled}
+						/>
+					</div>
+					<button
+						className="btn btn-xs btn-error btn-outline col-span-2"
+						onClick={deleteSelected}
+						disabled={disabled}
+					>
+						Delete keyframe
+					</button>
+				</div>
+			) : (
+				<div className="text-xs text-base-content/70">
+					{track.length > 0
+						? 'Select a keyframe to edit it, or drag it to move it'
+						: `No ${info.label.toLowerCase()} keys; the effect settings animate this clip`}
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,329 @@
+'use client';
+
+import { useState } from 'react';
+import { MAX_TEXT_OVERLAYS, TextAnchor, TextAnchorSchema, TextAnimation, TextFont, TextOverlay } from '@/types/text';
+import { TEXT_ANIMATION_LABELS, TEXT_FONT_LABELS, createTextOverlay } from '@/lib/text/overlays';
+
+const TEXT_PRESETS: Record<string, Partial<TextOverlay> & { description: string }> = {
+	'Title': {
+		text: 'Your title',
+		size: 10,
+		anchor: 'CENTER',
+		enter: 'FADE',
+		exit: 'FADE',
+		description: 'Large centered heading'
+	},
+	'Lower Third': {
+		text: 'Name\nRole or place',
+		size: 5,
+		anchor: 'BOTTOM_LEFT',
+		margin: 6,
+		enter: 'SLIDE_LEFT',
+		exit: 'FADE',
+		description: 'Caption in the bottom-left corner'
+	},
+	'Call to Action': {
+		text: 'Follow for more',
+		size: 6,
+		anchor: 'BOTTOM',
+		strokeWidth: 0.4,
+		enter: 'TYPEWRITER',
+		exit: 'FADE',
+		description: 'Typed out along the bottom edge'
+	}
+};
+
+interface TextOverlayEditorProps {
+	overlays: TextOverlay[];
+	onOverlaysChange: (overlays: TextOverlay[]) => void;
+	clipDuration: number;
+	disabled?: boolean;
+}
+
+const ANCHOR_ARROWS: Record<TextAnchor, string> = {
+	TOP_LEFT: '↖',
+	TOP: '↑',
+	TOP_RIGHT: '↗',
+	LEFT: '←',
+	CENTER: '•',
+	RIGHT: '→',
+	BOTTOM_LEFT: '↙',
+	BOTTOM: '↓',
+	BOTTOM_RIGHT: '↘'
+};
+
+export function TextOverlayEditor({ overlays, onOverlaysChange, clipDuration, disabled = false }: TextOverlayEditorProps) {
+	const [selectedId, setSelectedId] = useState<string | null>(overlays[0]?.id ?? null);
+	const selected = overlays.find(overlay => overlay.id === selectedId) ?? null;
+
+	const handleAdd = (preset: Partial<TextOverlay>) => {
+		const overlay = createTextOverlay(clipDuration, preset);
+		onOverlaysChange([...overlays, overlay]);
+		setSelectedId(overlay.id);
+	};
+
+	const handleRemove = (id: string) => {
+		const remaining = overlays.filter(overlay => overlay.id !== id);
+		onOverlaysChange(remaining);
+		if (id === selectedId) setSelectedId(remaining[0]?.id ?? null);
+	};
+
+	const updateSelected = (changes: Partial<TextOverlay>) => {
+		if (!selected) return;
+		const updated = { ...selected, ...changes };
+		// Keep the text on screen for at least a tenth of a second
+		if (updated.end <= updated.start) updated.end = Number((updated.start + 0.1).toFixed(1));
+		onOverlaysChange(overlays.map(overlay => (overlay.id === selected.id ? updated : overlay)));
+	};
+
+	return (
+		<div className="space-y-4">
+			<div className="flex items-center justify-between">
+				<span className="label-text">Text</span>
+				<span className="text-xs text-base-content/70">{overlays.length}/{MAX_TEXT_OVERLAYS}</span>
+			</div>
+
+			<div className="grid grid-cols-3 gap-2">
+				{Object.entries(TEXT_PRESETS).map(([name, { description, ...preset }]) => (
+					<button
+						key={name}
+						className="btn btn-xs btn-outline"
+						onClick={() => handleAdd(preset)}
+						disabled={disabled || overlays.length >= MAX_TEXT_OVERLAYS}
+						title={description}
+					>
+						{name}
+					</button>
+				))}
+			</div>
+
+			{overlays.length > 0 && (
+				<ul className="space-y-1">
+					{overlays.map(overlay => (
+						<li
+							key={overlay.id}
+							className={`flex items-center gap-2 rounded-lg px-2 py-1 ${overlay.id === selectedId ? 'bg-primary/20' : 'bg-base-200'}`}
+						>
+							<button
+								className="flex-1 truncate text-left text-sm"
+								onClick={() => setSelectedId(overlay.id)}
+								disabled={disabled}
+							>
+								{overlay.text.split('\n')[0]}
+							</button>
+							<button
+								className="btn btn-ghost btn-xs"
+								onClick={() => handleRemove(overlay.id)}
+								disabled={disabled}
+								aria-label="Remove text"
+							>
+								✕
+							</button>
+						</li>
+					))}
+				</ul>
+			)}
+
+			{selected && (
+				<div className="space-y-3">
+					<textarea
+						className="textarea textarea-bordered textarea-sm w-full"
+						value={selected.text}
+						onChange={(e) => updateSelected({ text: e.target.value.replace(/\r/g, '') || ' ' })}
+						maxLength={200}
+						rows={2}
+						disabled={disabled}
+					/>
+
+					<div className="grid grid-cols-2 gap-2">
+						<select
+							className="select select-bordered select-sm"
+							value={selected.font}
+							onChange={(e) => updateSelected({ font: e.target.value as TextFont })}
+							disabled={disabled}
+						>
+							{(Object.keys(TEXT_FONT_LABELS) as TextFont[]).map(font => (
+								<option key={font} value={font}>{TEXT_FONT_LABELS[font]}</option>
+							))}
+						</select>
+						<div className="flex gap-2">
+							<input
+								type="color"
+								className="h-8 w-full cursor-pointer rounded"
+								value={selected.color}
+								onChange={(e) => updateSelected({ color: e.target.value })}
+								disabled={disabled}
+								aria-label="Text color"
+							/>
+							<input
+								type="color"
+								className="h-8 w-full cursor-pointer rounded"
+								value={selected.strokeColor}
+								onChange={(e) => updateSelected({ strokeColor: e.target.value })}
+								disabled={disabled}
+								aria-label="Stroke color"
+							/>
+						</div>
+					</div>
+
+					<div className="form-control">
+						<label className="label">
+							<span className="label-text-alt">Size</span>
+							<span className="label-text-alt">{selected.size}%</span>
+						</label>
+						<input
+							type="range"
+							className="range range-primary range-xs"
+							value={selected.size}
+							onChange={(e) => updateSelected({ size: Number(e.target.value) })}
+							min="2"
+							max="30"
+							step="0.5"
+							disabled={disabled}
+						/>
+					</div>
+
+					<div className="form-control">
+						<label className="label">
+							<span className="label-text-alt">Stroke</span>
+							<span className="label-text-alt">{selected.strokeWidth}%</span>
+						</label>
+						<input
+							type="range"
+							className="range range-primary range-xs"
+							value={selected.strokeWidth}
+							onChange={(e) => updateSelected({ strokeWidth: Number(e.target.value) })}
+							min="0"
+							max="2"
+							step="0.1"
+							disabled={disabled}
+						/>
+					</div>
+
+					<label className="label cursor-pointer">
+						<span className="label-text">Drop shadow</span>
+						<input
+							type="checkbox"
+							className="toggle toggle-primary toggle-sm"
+							checked={selected.shadow}
+							onChange={(e) => updateSelected({ shadow: e.target.checked })}
+							disabled={disabled}
+						/>
+					</label>
+
+					<div className="flex gap-4">
+						<div className="grid grid-cols-3 gap-1">
+							{TextAnchorSchema.options.map(anchor => (
+								<button
+									key={anchor}
+									className={`btn btn-xs btn-square ${selected.anchor === anchor ? 'btn-primary' : 'btn-ghost'}`}
+									onClick={() => updateSelected({ anchor })}
+									disabled={disabled}
+									aria-label={`Anchor ${anchor.toLowerCase().replace('_', ' ')}`}
+								>
+									{ANCHOR_ARROWS[anchor]}
+								</button>
+							))}
+						</div>
+						<div className="form-control flex-1">
+							<label className="label">
+								<span className="label-text-alt">Margin</span>
+								<span className="label-text-alt">{selected.margin}%</span>
+							</label>
+							<input
+								type="range"
+								className="range range-primary range-xs"
+								value={selected.margin}
+								onChange={(e) => updateSelected({ margin: Number(e.target.value) })}
+								min="0"
+								max="25"
+								step="0.5"
+								disabled={disabled}
+							/>
+						</div>
+					</div>
+
+					<div className="grid grid-cols-2 gap-2">
+						<div className="form-control">
+							<label className="label">
+								<span className="label-text-alt">In (s)</span>
+							</label>
+							<input
+								type="number"
+								className="input input-bordered input-sm"
+								value={selected.start}
+								onChange={(e) => updateSelected({ start: Math.max(Number(e.target.value), 0) })}
+								min="0"
+								max={clipDuration}
+								step="0.1"
+								disabled={disabled}
+							/>
+						</div>
+						<div className="form-control">
+							<label className="label">
+								<span className="label-text-alt">Out (s)</span>
+							</label>
+							<input
+								type="number"
+								className="input input-bordered input-sm"
+								value={selected.end}
+								onChange={(e) => updateSelected({ end: Number(e.target.value) })}
+								min="0"
+								max={clipDuration}
+								step="0.1"
+								disabled={disabled}
+							/>
+						</div>
+						<div className="form-control">
+							<label className="label">
+								<span className="label-text-alt">Enter</span>
+							</label>
+							<select
+								className="select select-bordered select-sm"
+								value={selected.enter}
+								onChange={(e) => updateSelected({ enter: e.target.value as TextAnimation })}
+								disabled={disabled}
+							>
+								{(Object.keys(TEXT_ANIMATION_LABELS) as TextAnimation[]).map(animation => (
+									<option key={animation} value={animation}>{TEXT_ANIMATION_LABELS[animation]}</option>
+								))}
+							</select>
+						</div>
+						<div className="form-control">
+							<label className="label">
+								<span className="label-text-alt">Exit</span>
+							</label>
+							<select
+								className="select select-bordered select-sm"
+								value={selected.exit}
+								onChange={(e) => updateSelected({ exit: e.target.value as TextAnimation })}
+								disabled={disabled}
+							>
+								{(Object.keys(TEXT_ANIMATION_LABELS) as TextAnimation[]).map(animation => (
+									<option key={animation} value={animation}>{TEXT_ANIMATION_LABELS[animation]}</option>
+								))}
+							</select>
+						</div>
+					</div>
+
+					<div className="form-control">
+						<label className="label">
+							<span className="label-text-alt">Animation length</span>
+							<span className="label-text-alt">{selected.animationDuration}s</span>
+						</label>
+						<input
+							type="range"
+							className="range range-primary range-xs"
+							value={selected.animationDuration}
+							onChange={(e) => updateSelected({ animationDuration: Number(e.target.value) })}
+							min="0.1"
+							max="3"
+							step="0.1"
+							disabled={disabled}
+						/>
+					</div>
+				</div>
+			)}
+		</div>
+	);
+}
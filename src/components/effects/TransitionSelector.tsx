@@ -0,0 +1,163 @@
+'use client';
+
+import { useState } from 'react';
+import { Easing } from '@/types/effects';
+import { Transition, TransitionType } from '@/types/timeline';
+
+type TransitionCategory = 'Fades' | 'Wipes' | 'Slides' | 'Shapes';
+
+const TRANSITION_CATEGORIES: Record<TransitionCategory, { transitions: TransitionType[], description: string }> = {
+	'Fades': {
+		transitions: ['CROSSFADE', 'DIP_TO_BLACK', 'DIP_TO_WHITE'],
+		description: 'Blend or fade through a color'
+	},
+	'Wipes': {
+		transitions: ['WIPE_LEFT', 'WIPE_RIGHT', 'WIPE_UP', 'WIPE_DOWN'],
+		description: 'A moving edge reveals the next clip'
+	},
+	'Slides': {
+		transitions: ['SLIDE_LEFT', 'SLIDE_RIGHT', 'SLIDE_UP', 'SLIDE_DOWN'],
+		description: 'The next clip pushes the current one out'
+	},
+	'Shapes': {
+		transitions: ['CIRCLE_REVEAL', 'ZOOM_THROUGH'],
+		description: 'Reveals and zooms'
+	}
+};
+
+const TRANSITION_PRESETS: Record<string, Transition> = {
+	'Quick Cut Fade': { type: 'CROSSFADE', duration: 0.3, easing: 'LINEAR' },
+	'Soft Crossfade': { type: 'CROSSFADE', duration: 1, easing: 'EASE_IN_OUT' },
+	'Fade Through Black': { type: 'DIP_TO_BLACK', duration: 1.5, easing: 'LINEAR' },
+	'Smooth Push': { type: 'SLIDE_LEFT', duration: 0.8, easing: 'EASE_IN_OUT' }
+};
+
+// New transitions start as a one-second crossfade
+const DEFAULT_TRANSITION: Transition = { type: 'CROSSFADE', duration: 1, easing: 'LINEAR' };
+
+interface TransitionSelectorProps {
+	transition?: Transition;
+	onTransitionChange: (transition: Transition | undefined) => void;
+	/** Longest overlap the neighbouring clips allow; longer transitions are shortened on export */
+	maxDuration: number;
+	/** Why transitions can't be rendered, if they can't; only removing one stays possible */
+	unsupportedReason?: string | null;
+	disabled?: boolean;
+}
+
+export const formatTransitionName = (type: TransitionType) =>
+	type.charAt(0) + type.slice(1).toLowerCase().replace(/_/g, ' ');
+
+export function TransitionSelector({ transition, onTransitionChange, maxDuration, unsupportedReason = null, disabled = false }: TransitionSelectorProps) {
+	const [activeCategory, setActiveCategory] = useState<TransitionCategory>(() =>
+		(Object.keys(TRANSITION_CATEGORIES) as TransitionCategory[]).find(category =>
+			transition && TRANSITION_CATEGORIES[category].transitions.includes(transition.type)) ?? 'Fades');
+
+	const update = (changes: Partial<Transition>) => {
+		onTransitionChange({ ...(transition ?? DEFAULT_TRANSITION), ...changes });
+	};
+
+	return (
+		<div className="space-y-4">
+			<div className="flex items-center justify-between">
+				<span className="label-text">Transition to next clip</span>
+				<input
+					type="checkbox"
+					className="toggle toggle-primary toggle-sm"
+					checked={!!transition}
+					onChange={(e) => onTransitionChange(e.target.checked ? DEFAULT_TRANSITION : undefined)}
+					disabled={disabled || (!!unsupportedReason && !transition)}
+					aria-label="Use a transition"
+				/>
+			</div>
+
+			{unsupportedReason && (
+				<div className="text-xs text-warning">{unsupportedReason}</div>
+			)}
+
+			{!transition ? (
+				<div className="text-xs text-base-content/70">Hard cut to the next clip</div>
+			) : (
+				<>
+					<div className="grid grid-cols-2 gap-2">
+						{Object.entries(TRANSITION_PRESETS).map(([name, preset]) => (
+							<button
+								key={name}
+								className="btn btn-xs btn-outline"
+								onClick={() => onTransitionChange(preset)}
+								disabled={disabled || !!unsupportedReason}
+							>
+								{name}
+							</button>
+						))}
+					</div>
+
+					<div className="tabs tabs-boxed">
+						{(Object.keys(TRANSITION_CATEGORIES) as TransitionCategory[]).map(category => (
+							<button
+								key={category}
+								className={`tab tab-sm ${activeCategory === category ? 'tab-active' : ''}`}
+								onClick={() => setActiveCategory(category)}
+								disabled={disabled || !!unsupportedReason}
+							>
+								{category}
+							</button>
+						))}
+					</div>
+					<p className="text-xs text-base-content/70">{TRANSITION_CATEGORIES[activeCategory].description}</p>
+					<div className="grid grid-cols-2 gap-2">
+						{TRANSITION_CATEGORIES[activeCategory].transitions.map(type => (
+							<button
+								key={type}
+								className={`btn btn-sm ${transition.type === type ? 'btn-primary' : 'btn-ghost'}`}
+								onClick={() => update({ type })}
+								disabled={disabled || !!unsupportedReason}
+							>
+								{formatTransitionName(type)}
+							</button>
+						))}
+					</div>
+
+					<div className="form-control">
+						<label className="label">
+							<span className="label-text">Duration</span>
+							<span className="label-text-alt">{transition.duration}s</span>
+						</label>
+						<input
+							type="range"
+							className="range range-primary range-sm"
+							value={transition.duration}
+							onChange={(e) => update({ duration: Number(e.target.value) })}
+							min="0.1"
+							max="5"
+							step="0.1"
+							disabled={disabled || !!unsupportedReason}
+						/>
+						{transition.duration > maxDuration && (
+							<span className="label-text-alt text-warning mt-1">
+								Shortened to {Number(maxDuration.toFixed(2))}s to fit the neighbouring clips
+							</span>
+						)}
+					</div>
+
+					<div className="form-control">
+						<label className="label">
+							<span className="label-text">Easing</span>
+						</label>
+						<select
+							className="select select-bordered select-sm"
+							value={transition.easing}
+							onChange={(e) => update({ easing: e.target.value as Easing })}
+							disabled={disabled || !!unsupportedReason}
+						>
+							<option value="LINEAR">Linear</option>
+							<option value="EASE_IN">Ease In</option>
+							<option value="EASE_OUT">Ease Out</option>
+							<option value="EASE_IN_OUT">Ease In Out</option>
+						</select>
+					</div>
+				</>
+			)}
+		</div>
+	);
+}
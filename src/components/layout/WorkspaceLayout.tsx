@@ -3,6 +3,7 @@
 import { ReactNode, useState, useEffect } from 'react';
 import { ResizableBox } from 'react-resizable';
 import 'react-resizable/css/styles.css';
+import { DEFAULT_PANEL_LAYOUT, PANEL_MAX_WIDTH, PANEL_MIN_WIDTH, PanelLayout } from '@/types/layout';
 
 const useMediaQuery = (query: string) => {
 	const [matches, setMatches] = useState(false);
@@ -46,32 +47,48 @@ interface WorkspaceLayoutProps {
 	sidebarContent?: ReactNode;
 	mainContent: ReactNode;
 	rightPanelContent?: ReactNode;
+	/** Panel sizes and collapse state; the layout keeps its own when omitted */
+	layout?: PanelLayout;
+	onLayoutChange?: (layout: PanelLayout) => void;
 }
 
 export function WorkspaceLayout({
 	toolbarContent,
 	sidebarContent,
 	mainContent,
-	rightPanelContent
+	rightPanelContent,
+	layout,
+	onLayoutChange
 }: WorkspaceLayoutProps) {
-	const [isSidebarCollapsed, setSidebarCollapsed] = useState(false);
-	const [isRightPanelCollapsed, setRightPanelCollapsed] = useState(false);
+	const [ownLayout, setOwnLayout] = useState(DEFAULT_PANEL_LAYOUT);
+	const panels = layout ?? ownLayout;
+	const { sidebarCollapsed: isSidebarCollapsed, rightPanelCollapsed: isRightPanelCollapsed } = panels;
 	const [isMobileMenuOpen, setMobileMenuOpen] = useState(false);
 	const isMobile = useMediaQuery('(max-width: 768px)');
 
+	const updateLayout = (changes: Partial<PanelLayout>) => {
+		const next = { ...panels, ...changes };
+		setOwnLayout(next);
+		onLayoutChange?.(next);
+	};
+
 	// Add keyboard shortcuts
 	useEffect(() => {
 		const handleKeyPress = (e: KeyboardEvent) => {
 			if (e.ctrlKey || e.metaKey) {
+				const next = { ...panels };
 				switch(e.key) {
-					case '[': setSidebarCollapsed(prev => !prev); break;
-					case ']': setRightPanelCollapsed(prev => !prev); break;
+					case '[': next.sidebarCollapsed = !next.sidebarCollapsed; break;
+					case ']': next.rightPanelCollapsed = !next.rightPanelCollapsed; break;
+					default: return;
 				}
+				setOwnLayout(next);
+				onLayoutChange?.(next);
 			}
 		};
 		window.addEventListener('keydown', handleKeyPress);
 		return () => window.removeEventListener('keydown', handleKeyPress);
-	}, []);
+	}, [panels, onLayoutChange]);
 
 	return (
 		<div className="h-screen flex flex-col bg-base-100">
@@ -103,17 +120,20 @@ export function WorkspaceLayout({
 						${isMobile && !isMobileMenuOpen ? '-translate-x-full' : 'translate-x-0'}
 					`}>
 						<ResizableBox
-							width={isSidebarCollapsed ? 64 : 320}
+							width={isSidebarCollapsed ? PANEL_MIN_WIDTH : panels.sidebarWidth}
 							height={Infinity}
 							axis={isMobile ? undefined : "x"}
-							minConstraints={[64, Infinity]}
-							maxConstraints={[480, Infinity]}
+							minConstraints={[PANEL_MIN_WIDTH, Infinity]}
+							maxConstraints={[PANEL_MAX_WIDTH, Infinity]}
+							onResizeStop={(_, { size }) => {
+								if (!isSidebarCollapsed) updateLayout({ sidebarWidth: size.width });
+							}}
 							className="border-r border-base-300 bg-base-100"
 						>
 							<Panel
 								title="Tools"
 								isCollapsed={isSidebarCollapsed}
-								onToggle={() => setSidebarCollapsed(!isSidebarCollapsed)}
+								onToggle={() => updateLayout({ sidebarCollapsed: !isSidebarCollapsed })}
 							>
 								{sidebarContent}
 							</Panel>
@@ -135,17 +155,20 @@ export function WorkspaceLayout({
 						${isMobile && !isMobileMenuOpen ? 'translate-x-full' : 'translate-x-0'}
 					`}>
 						<ResizableBox
-							width={isRightPanelCollapsed ? 64 : 320}
+							width={isRightPanelCollapsed ? PANEL_MIN_WIDTH : panels.rightPanelWidth}
 							height={Infinity}
 							axis={isMobile ? undefined : "x"}
-							minConstraints={[64, Infinity]}
-							maxConstraints={[480, Infinity]}
+							minConstraints={[PANEL_MIN_WIDTH, Infinity]}
+							maxConstraints={[PANEL_MAX_WIDTH, Infinity]}
+							onResizeStop={(_, { size }) => {
+								if (!isRightPanelCollapsed) updateLayout({ rightPanelWidth: size.width });
+							}}
 							className="border-l border-base-300 bg-base-100"
 						>
 							<Panel
 								title="Properties"
 								isCollapsed={isRightPanelCollapsed}
-								onToggle={() => setRightPanelCollapsed(!isRightPanelCollapsed)}
+								onToggle={() => updateLayout({ rightPanelCollapsed: !isRightPanelCollapsed })}
 							>
 								{rightPanelContent}
 							</Panel>
@@ -0,0 +1,284 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { ChangeEvent, MouseEvent as ReactMouseEvent } from 'react';
+import { AudioTrack, DEFAULT_AUDIO_TRACK, LOUDNESS_TARGETS, MAX_AUDIO_FADE, ProjectAudio } from '@/types/audio';
+import { analyzeAudioFile } from '@/lib/audio/waveform';
+
+const MAX_AUDIO_FILE_SIZE = 50 * 1024 * 1024; // 50MB
+const ACCEPTED_AUDIO = '.mp3,.wav,.aac,.m4a,.ogg,audio/mpeg,audio/wav,audio/aac,audio/ogg';
+
+const WAVEFORM_HEIGHT = 64;
+
+interface AudioTrackPanelProps {
+	audio: ProjectAudio | null;
+	onAudioChange: (audio: ProjectAudio | null) => void;
+	/** Length of the rendered video, which the track is looped or cut to */
+	videoDuration: number;
+	/** Why the current export can't carry audio, if it can't */
+	unsupportedReason?: string | null;
+	disabled?: boolean;
+}
+
+const formatSeconds = (seconds: number) => `${Number(seconds.toFixed(1))}s`;
+
+export function AudioTrackPanel({ audio, onAudioChange, videoDuration, unsupportedReason = null, disabled = false }: AudioTrackPanelProps) {
+	const canvasRef = useRef<HTMLCanvasElement>(null);
+	const [loading, setLoading] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	// Draws the waveform, dimming audio outside the trimmed range and shading the fades
+	useEffect(() => {
+		const canvas = canvasRef.current;
+		const context = canvas?.getContext('2d');
+		if (!canvas || !context || !audio) return;
+
+		const { peaks, fileDuration, track } = audio;
+		const { width, height } = canvas;
+		const xAt = (time: number) => time / fileDuration * width;
+		const start = xAt(track.offset);
+		const end = xAt(Math.min(track.offset + track.duration, fileDuration));
+		const style = getComputedStyle(canvas);
+
+		context.clearRect(0, 0, width, height);
+		const columnWidth = width / peaks.length;
+		peaks.forEach((peak, index) => {
+			const x = index * columnWidth;
+			const barHeight = Math.max(peak * height, 1);
+			context.globalAlpha = x >= start && x <= end ? 1 : 0.3;
+			context.fillStyle = style.color;
+			context.fillRect(x, (height - barHeight) / 2, Math.max(columnWidth - 0.5, 0.5), barHeight);
+		});
+
+		context.globalAlpha = 0.25;
+		context.fillStyle = style.color;
+		context.beginPath();
+		context.moveTo(start, height);
+		context.lineTo(start + xAt(track.fadeIn), 0);
+		context.lineTo(start, 0);
+		context.closePath();
+		context.moveTo(end, height);
+		context.lineTo(end - xAt(track.fadeOut), 0);
+		context.lineTo(end, 0);
+		context.closePath();
+		context.fill();
+		context.globalAlpha = 1;
+	}, [audio]);
+
+	const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		e.target.value = '';
+		if (!file) return;
+		if (file.size > MAX_AUDIO_FILE_SIZE) {
+			setError('Audio file must be less than 50MB');
+			return;
+		}
+
+		setError(null);
+		setLoading(true);
+		try {
+			const { duration, peaks } = await analyzeAudioFile(file);
+			onAudioChange({
+				file,
+				fileDuration: duration,
+				peaks,
+				track: { ...DEFAULT_AUDIO_TRACK, duration: Number(duration.toFixed(1)) },
+			});
+		} catch (err) {
+			console.error('Audio decode error:', err);
+			setError('Failed to read audio file. Try an mp3, wav, aac or ogg file.');
+		} finally {
+			setLoading(false);
+		}
+	};
+
+	const updateTrack = (changes: Partial<AudioTrack>) => {
+		if (!audio) return;
+		const track = { ...audio.track, ...changes };
+		// Keep the trimmed range inside the file
+		track.offset = Math.min(Math.max(track.offset, 0), Math.max(audio.fileDuration - 0.1, 0));
+		track.duration = Math.min(Math.max(track.duration, 0.1), audio.fileDuration - track.offset);
+		onAudioChange({ ...audio, track });
+	};
+
+	// Clicking the waveform moves the start of the trimmed range there
+	const handleWaveformClick = (e: ReactMouseEvent<HTMLCanvasElement>) => {
+		if (!audio || disabled) return;
+		const rect = e.currentTarget.getBoundingClientRect();
+		const offset = Number(((e.clientX - rect.left) / rect.width * audio.fileDuration).toFixed(1));
+		updateTrack({ offset, duration: audio.track.duration });
+	};
+
+	if (!audio) {
+		return (
+			<div className="form-control">
+				<label className="label">
+					<span className="label-text">Background audio</span>
+				</label>
+				<input
+					type="file"
+					accept={ACCEPTED_AUDIO}
+					className="file-input file-input-bordered file-input-sm w-full"
+					onChange={handleFileChange}
+					disabled={disabled || loading}
+				/>
+				{loading && <span className="label-text-alt mt-1">Reading audio...</span>}
+				{error && <span className="label-text-alt text-error mt-1">{error}</span>}
+			</div>
+		);
+	}
+
+	const { track, fileDuration } = audio;
+	const isCustomLoudness = !LOUDNESS_TARGETS.some(target => target.value === track.targetLufs);
+
+	return (
+		<div className="space-y-3 rounded-lg bg-base-200 p-3">
+			<div className="flex items-center justify-between text-sm">
+				<span className="truncate" title={audio.file.name}>{audio.file.name}</span>
+				<button
+					className="btn btn-ghost btn-xs"
+					onClick={() => onAudioChange(null)}
+					disabled={disabled}
+					aria-label="Remove audio"
+				>
+					✕
+				</button>
+			</div>
+
+			{unsupportedReason && (
+				<div className="text-xs text-warning">{unsupportedReason}</div>
+			)}
+
+			<canvas
+				ref={canvasRef}
+				width={600}
+				height={WAVEFORM_HEIGHT}
+				className={`w-full rounded bg-base-300 text-primary ${disabled ? 'opacity-50' : 'cursor-pointer'}`}
+				style={{ height: WAVEFORM_HEIGHT }}
+				onClick={handleWaveformClick}
+				title="Click to set where the audio starts"
+			/>
+			<div className="flex justify-between text-xs text-base-content/70">
+				<span>Using {formatSeconds(track.offset)} - {formatSeconds(track.offset + track.duration)}</span>
+				<span>
+					{track.loop
+						? `Looped to ${formatSeconds(videoDuration)}`
+						: track.duration < videoDuration
+							? `Silent for the last ${formatSeconds(videoDuration - track.duration)}`
+							: `Cut to ${formatSeconds(videoDuration)}`}
+				</span>
+			</div>
+
+			<div className="grid grid-cols-2 gap-2">
+				<div className="form-control">
+					<label className="label">
+						<span className="label-text-alt">Start (s)</span>
+					</label>
+					<input
+						type="number"
+						className="input input-bordered input-sm"
+						value={track.offset}
+						onChange={(e) => updateTrack({ offset: Number(e.target.value) })}
+						min="0"
+						max={fileDuration}
+						step="0.1"
+						disabled={disabled}
+					/>
+				</div>
+				<div className="form-control">
+					<label className="label">
+						<span className="label-text-alt">Length (s)</span>
+					</label>
+					<input
+						type="number"
+						className="input input-bordered input-sm"
+						value={track.duration}
+						onChange={(e) => updateTrack({ duration: Number(e.target.value) })}
+						min="0.1"
+						max={fileDuration - track.offset}
+						step="0.1"
+						disabled={disabled}
+					/>
+				</div>
+				<div className="form-control">
+					<label className="label">
+						<span className="label-text-alt">Fade in</span>
+						<span className="label-text-alt">{track.fadeIn}s</span>
+					</label>
+					<input
+						type="range"
+						className="range range-primary range-xs"
+						value={track.fadeIn}
+						onChange={(e) => updateTrack({ fadeIn: Number(e.target.value) })}
+						min="0"
+						max={MAX_AUDIO_FADE}
+						step="0.5"
+						disabled={disabled}
+					/>
+				</div>
+				<div className="form-control">
+					<label className="label">
+						<span className="label-text-alt">Fade out</span>
+						<span className="label-text-alt">{track.fadeOut}s</span>
+					</label>
+					<input
+						type="range"
+						className="range range-primary range-xs"
+						value={track.fadeOut}
+						onChange={(e) => updateTrack({ fadeOut: Number(e.target.value) })}
+						min="0"
+						max={MAX_AUDIO_FADE}
+						step="0.5"
+						disabled={disabled}
+					/>
+				</div>
+			</div>
+
+			<label className="label cursor-pointer">
+				<span className="label-text">Loop to video length</span>
+				<input
+					type="checkbox"
+					className="toggle toggle-primary toggle-sm"
+					checked={track.loop}
+					onChange={(e) => updateTrack({ loop: e.target.checked })}
+					disabled={disabled}
+				/>
+			</label>
+
+			<div className="form-control">
+				<label className="label">
+					<span className="label-text">Loudness</span>
+					<span className="label-text-alt">{track.targetLufs} LUFS</span>
+				</label>
+				<div className="flex gap-2">
+					<select
+						className="select select-bordered select-sm flex-1"
+						value={isCustomLoudness ? 'custom' : track.targetLufs}
+						onChange={(e) => {
+							if (e.target.value !== 'custom') updateTrack({ targetLufs: Number(e.target.value) });
+						}}
+						disabled={disabled}
+					>
+						{LOUDNESS_TARGETS.map(target => (
+							<option key={target.value} value={target.value}>
+								{target.label} ({target.value} LUFS)
+							</option>
+						))}
+						<option value="custom">Custom</option>
+					</select>
+					<input
+						type="number"
+						className="input input-bordered input-sm w-20"
+						value={track.targetLufs}
+						onChange={(e) => updateTrack({ targetLufs: Math.min(Math.max(Number(e.target.value), -36), -5) })}
+						min="-36"
+						max="-5"
+						step="1"
+						disabled={disabled}
+						aria-label="Target loudness in LUFS"
+					/>
+				</div>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,331 @@
+'use client';
+
+import { useState } from 'react';
+import type { ChangeEvent } from 'react';
+import { CaptionCue, CaptionMode, CaptionPosition, CaptionStyle, DEFAULT_CAPTION_OPTIONS, ProjectCaptions } from '@/types/captions';
+import { TextFont } from '@/types/text';
+import { CaptionIssue, CaptionParseError, parseCaptions } from '@/lib/captions/cues';
+import { TEXT_FONT_LABELS } from '@/lib/text/overlays';
+
+const MAX_CAPTION_FILE_SIZE = 1024 * 1024; // 1MB
+// New cues are this long, placed after the last one
+const NEW_CUE_DURATION = 2;
+
+interface CaptionPanelProps {
+	captions: ProjectCaptions | null;
+	onCaptionsChange: (captions: ProjectCaptions | null) => void;
+	/** Length of the rendered video; cues past it never show */
+	videoDuration: number;
+	/** Whether the export format has a soft subtitle codec */
+	embedAvailable: boolean;
+	/** Why the current export can't carry these captions, if it can't */
+	unsupportedReason?: string | null;
+	disabled?: boolean;
+}
+
+const roundTime = (seconds: number) => Math.max(Math.round(seconds * 10) / 10, 0);
+
+export function CaptionPanel({
+	captions,
+	onCaptionsChange,
+	videoDuration,
+	embedAvailable,
+	unsupportedReason = null,
+	disabled = false
+}: CaptionPanelProps) {
+	const [issues, setIssues] = useState<CaptionIssue[]>([]);
+	const [error, setError] = useState<string | null>(null);
+	const [shift, setShift] = useState(0);
+
+	const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		e.target.value = '';
+		if (!file) return;
+		setIssues([]);
+		setError(null);
+		if (file.size > MAX_CAPTION_FILE_SIZE) {
+			setError('Caption file must be less than 1MB');
+			return;
+		}
+
+		try {
+			const cues = parseCaptions(await file.text());
+			onCaptionsChange({ ...DEFAULT_CAPTION_OPTIONS, ...captions, fileName: file.name, cues });
+		} catch (err) {
+			if (err instanceof CaptionParseError) setIssues(err.issues);
+			else setError('Failed to read caption file');
+		}
+	};
+
+	if (!captions) {
+		return (
+			<div className="form-control">
+				<label className="label">
+					<span className="label-text">Captions (SRT or WebVTT)</span>
+				</label>
+				<input
+					type="file"
+					accept=".srt,.vtt,text/vtt,application/x-subrip"
+					className="file-input file-input-bordered file-input-sm w-full"
+					onChange={handleFileChange}
+					disabled={disabled}
+				/>
+				{error && <span className="label-text-alt text-error mt-1">{error}</span>}
+				{issues.length > 0 && (
+					<ul className="mt-2 space-y-1 text-xs text-error">
+						{issues.slice(0, 10).map((issue, index) => (
+							<li key={index}>Line {issue.line}: {issue.message}</li>
+						))}
+						{issues.length > 10 && <li>...and {issues.length - 10} more</li>}
+					</ul>
+				)}
+			</div>
+		);
+	}
+
+	const { cues, mode, style } = captions;
+	const update = (changes: Partial<ProjectCaptions>) => onCaptionsChange({ ...captions, ...changes });
+	const updateStyle = (changes: Partial<CaptionStyle>) => update({ style: { ...style, ...changes } });
+	const updateCue = (index: number, changes: Partial<CaptionCue>) =>
+		update({ cues: cues.map((cue, i) => (i === index ? { ...cue, ...changes } : cue)) });
+
+	const handleAddCue = () => {
+		const start = roundTime(cues.reduce((latest, cue) => Math.max(latest, cue.end), 0));
+		update({ cues: [...cues, { start, end: start + NEW_CUE_DURATION, text: 'New caption' }] });
+	};
+
+	// Moves every cue by the same amount, for captions timed against a different cut
+	const handleShiftAll = () => {
+		update({
+			cues: cues
+				.map(cue => ({ ...cue, start: roundTime(cue.start + shift), end: roundTime(cue.end + shift) }))
+				.filter(cue => cue.end > cue.start)
+		});
+		setShift(0);
+	};
+
+	return (
+		<div className="space-y-3 rounded-lg bg-base-200 p-3">
+			<div className="flex items-center justify-between text-sm">
+				<span className="truncate" title={captions.fileName}>
+					{captions.fileName} · {cues.length} {cues.length === 1 ? 'cue' : 'cues'}
+				</span>
+				<button
+					className="btn btn-ghost btn-xs"
+					onClick={() => onCaptionsChange(null)}
+					disabled={disabled}
+					aria-label="Remove captions"
+				>
+					✕
+				</button>
+			</div>
+
+			{unsupportedReason && (
+				<div className="text-xs text-warning">{unsupportedReason}</div>
+			)}
+
+			<div className="tabs tabs-boxed">
+				{(['BURN_IN', 'EMBED'] as CaptionMode[]).map(option => (
+					<button
+						key={option}
+						className={`tab tab-sm ${mode === option ? 'tab-active' : ''}`}
+						onClick={() => update({ mode: option })}
+						disabled={disabled || (option === 'EMBED' && !embedAvailable)}
+					>
+						{option === 'BURN_IN' ? 'Burn in' : 'Subtitle track'}
+					</button>
+				))}
+			</div>
+
+			{mode === 'EMBED' ? (
+				<div className="form-control">
+					<label className="label">
+						<span className="label-text-alt">Language (ISO 639-2)</span>
+					</label>
+					<input
+						type="text"
+						className="input input-bordered input-sm"
+						value={captions.language}
+						onChange={(e) => update({ language: e.target.value.toLowerCase().replace(/[^a-z]/g, '').slice(0, 3) })}
+						placeholder="eng"
+						disabled={disabled}
+					/>
+				</div>
+			) : (
+				<div className="grid grid-cols-2 gap-2">
+					<select
+						className="select select-bordered select-sm"
+						value={style.font}
+						onChange={(e) => updateStyle({ font: e.target.value as TextFont })}
+						disabled={disabled}
+					>
+						{(Object.keys(TEXT_FONT_LABELS) as TextFont[]).map(font => (
+							<option key={font} value={font}>{TEXT_FONT_LABELS[font]}</option>
+						))}
+					</select>
+					<select
+						className="select select-bordered select-sm"
+						value={style.position}
+						onChange={(e) => updateStyle({ position: e.target.value as CaptionPosition })}
+						disabled={disabled}
+					>
+						<option value="BOTTOM">Bottom</option>
+						<option value="MIDDLE">Middle</option>
+						<option value="TOP">Top</option>
+					</select>
+					<div className="form-control">
+						<label className="label">
+							<span className="label-text-alt">Size</span>
+							<span className="label-text-alt">{style.size}%</span>
+						</label>
+						<input
+							type="range"
+							className="range range-primary range-xs"
+							value={style.size}
+							onChange={(e) => updateStyle({ size: Number(e.target.value) })}
+							min="2"
+							max="15"
+							step="0.5"
+							disabled={disabled}
+						/>
+					</div>
+					<div className="form-control">
+						<label className="label">
+							<span className="label-text-alt">Margin</span>
+							<span className="label-text-alt">{style.margin}%</span>
+						</label>
+						<input
+							type="range"
+							className="range range-primary range-xs"
+							value={style.margin}
+							onChange={(e) => updateStyle({ margin: Number(e.target.value) })}
+							min="0"
+							max="25"
+							step="0.5"
+							disabled={disabled}
+						/>
+					</div>
+					<label className="label cursor-pointer">
+						<span className="label-text-alt">Text</span>
+						<input
+							type="color"
+							className="h-6 w-10 cursor-pointer rounded"
+							value={style.color}
+							onChange={(e) => updateStyle({ color: e.target.value })}
+							disabled={disabled}
+						/>
+					</label>
+					<label className="label cursor-pointer">
+						<span className="label-text-alt">Box</span>
+						<input
+							type="checkbox"
+							className="toggle toggle-primary toggle-sm"
+							checked={style.box}
+							onChange={(e) => updateStyle({ box: e.target.checked })}
+							disabled={disabled}
+						/>
+					</label>
+					{style.box && (
+						<>
+							<label className="label cursor-pointer">
+								<span className="label-text-alt">Box color</span>
+								<input
+									type="color"
+									className="h-6 w-10 cursor-pointer rounded"
+									value={style.boxColor}
+									onChange={(e) => updateStyle({ boxColor: e.target.value })}
+									disabled={disabled}
+								/>
+							</label>
+							<div className="form-control">
+								<label className="label">
+									<span className="label-text-alt">Box opacity</span>
+									<span className="label-text-alt">{Math.round(style.boxOpacity * 100)}%</span>
+								</label>
+								<input
+									type="range"
+									className="range range-primary range-xs"
+									value={style.boxOpacity}
+									onChange={(e) => updateStyle({ boxOpacity: Number(e.target.value) })}
+									min="0"
+									max="1"
+									step="0.05"
+									disabled={disabled}
+								/>
+							</div>
+						</>
+					)}
+				</div>
+			)}
+
+			<div className="flex items-center justify-between">
+				<span className="label-text">Cues</span>
+				<div className="flex items-center gap-1">
+					<input
+						type="number"
+						className="input input-bordered input-xs w-16"
+						value={shift}
+						onChange={(e) => setShift(Number(e.target.value))}
+						step="0.1"
+						disabled={disabled}
+						aria-label="Seconds to shift every cue by"
+					/>
+					<button className="btn btn-xs" onClick={handleShiftAll} disabled={disabled || shift === 0}>
+						Shift all
+					</button>
+					<button className="btn btn-xs" onClick={handleAddCue} disabled={disabled}>
+						Add cue
+					</button>
+				</div>
+			</div>
+
+			<ul className="max-h-64 space-y-2 overflow-y-auto">
+				{cues.map((cue, index) => {
+					const invalid = cue.end <= cue.start;
+					return (
+						<li key={index} className={`space-y-1 rounded bg-base-100 p-2 ${cue.start >= videoDuration ? 'opacity-50' : ''}`}>
+							<div className="flex items-center gap-1">
+								<input
+									type="number"
+									className="input input-bordered input-xs w-20"
+									value={cue.start}
+									onChange={(e) => updateCue(index, { start: roundTime(Number(e.target.value)) })}
+									min="0"
+									step="0.1"
+									disabled={disabled}
+									aria-label={`Cue ${index + 1} start`}
+								/>
+								<span className="text-xs">→</span>
+								<input
+									type="number"
+									className={`input input-bordered input-xs w-20 ${invalid ? 'input-error' : ''}`}
+									value={cue.end}
+									onChange={(e) => updateCue(index, { end: roundTime(Number(e.target.value)) })}
+									min="0"
+									step="0.1"
+									disabled={disabled}
+									aria-label={`Cue ${index + 1} end`}
+								/>
+								<button
+									className="btn btn-ghost btn-xs ml-auto"
+									onClick={() => update({ cues: cues.filter((_, i) => i !== index) })}
+									disabled={disabled || cues.length === 1}
+									aria-label={`Delete cue ${index + 1}`}
+								>
+									✕
+								</button>
+							</div>
+							<textarea
+								className={`textarea textarea-bordered textarea-xs w-full ${cue.text.trim() ? '' : 'textarea-error'}`}
+								value={cue.text}
+								onChange={(e) => updateCue(index, { text: e.target.value })}
+								rows={Math.min(cue.text.split('\n').length, 3)}
+								disabled={disabled}
+							/>
+						</li>
+					);
+				})}
+			</ul>
+		</div>
+	);
+}
@@ -0,0 +1,156 @@
+'use client';
+
+import { Fragment, useRef, useState } from 'react';
+import type { DragEvent, PointerEvent as ReactPointerEvent } from 'react';
+import { ProjectClip } from '@/types/timeline';
+import { clampClipDuration, timelineDuration, transitionDuration } from '@/lib/timeline/clips';
+import { formatTransitionName } from '@/components/effects/TransitionSelector';
+
+// Horizontal scale of the timeline
+const PIXELS_PER_SECOND = 24;
+const MIN_CLIP_WIDTH = 48;
+
+interface TimelineProps {
+	clips: ProjectClip[];
+	selectedClipId: string | null;
+	onSelectClip: (id: string) => void;
+	onMoveClip: (from: number, to: number) => void;
+	onClipDurationChange: (id: string, duration: number) => void;
+	onRemoveClip: (id: string) => void;
+	disabled?: boolean;
+}
+
+interface TrimState {
+	id: string;
+	startX: number;
+	startDuration: number;
+}
+
+const formatSeconds = (seconds: number) => `${Number(seconds.toFixed(1))}s`;
+
+export function Timeline({
+	clips,
+	selectedClipId,
+	onSelectClip,
+	onMoveClip,
+	onClipDurationChange,
+	onRemoveClip,
+	disabled = false
+}: TimelineProps) {
+	const [dragIndex, setDragIndex] = useState<number | null>(null);
+	const [dropIndex, setDropIndex] = useState<number | null>(null);
+	const trim = useRef<TrimState | null>(null);
+
+	if (clips.length === 0) {
+		return (
+			<div className="rounded-lg bg-base-200 p-4 text-center text-sm text-base-content/70">
+				Upload images to build a timeline; each image becomes a clip
+			</div>
+		);
+	}
+
+	const handleDragStart = (index: number, e: DragEvent<HTMLDivElement>) => {
+		e.dataTransfer.effectAllowed = 'move';
+		setDragIndex(index);
+	};
+
+	const handleDragOver = (index: number, e: DragEvent<HTMLDivElement>) => {
+		if (dragIndex === null) return;
+		e.preventDefault();
+		setDropIndex(index);
+	};
+
+	const handleDrop = (index: number, e: DragEvent<HTMLDivElement>) => {
+		e.preventDefault();
+		if (dragIndex !== null && dragIndex !== index) onMoveClip(dragIndex, index);
+		setDragIndex(null);
+		setDropIndex(null);
+	};
+
+	// Dragging a clip's right edge trims or extends it
+	const handleTrimStart = (clip: ProjectClip, e: ReactPointerEvent<HTMLDivElement>) => {
+		if (disabled) return;
+		e.stopPropagation();
+		e.currentTarget.setPointerCapture(e.pointerId);
+		trim.current = { id: clip.id, startX: e.clientX, startDuration: clip.duration };
+	};
+
+	const handleTrimMove = (e: ReactPointerEvent<HTMLDivElement>) => {
+		if (!trim.current) return;
+		const { id, startX, startDuration } = trim.current;
+		onClipDurationChange(id, clampClipDuration(startDuration + (e.clientX - startX) / PIXELS_PER_SECOND));
+	};
+
+	const handleTrimEnd = (e: ReactPointerEvent<HTMLDivElement>) => {
+		e.currentTarget.releasePointerCapture(e.pointerId);
+		trim.current = null;
+	};
+
+	return (
+		<div className="space-y-2">
+			<div className="flex justify-between text-xs text-base-content/70">
+				<span>{clips.length} {clips.length === 1 ? 'clip' : 'clips'}</span>
+				<span>Total {formatSeconds(timelineDuration(clips))}</span>
+			</div>
+			<div className="flex gap-1 overflow-x-auto rounded-lg bg-base-200 p-2">
+				{clips.map((clip, index) => (
+					<Fragment key={clip.id}>
+						{index > 0 && clips[index - 1].transition && (
+							<div
+								className="flex w-4 shrink-0 items-center justify-center text-xs text-primary"
+								title={`${formatTransitionName(clips[index - 1].transition!.type)}, ${formatSeconds(transitionDuration(clips, index - 1))}`}
+							>
+								⧓
+							</div>
+						)}
+						<div
+							draggable={!disabled}
+							onDragStart={(e) => handleDragStart(index, e)}
+							onDragOver={(e) => handleDragOver(index, e)}
+							onDrop={(e) => handleDrop(index, e)}
+							onDragEnd={() => {
+								setDragIndex(null);
+								setDropIndex(null);
+							}}
+							onClick={() => !disabled && onSelectClip(clip.id)}
+							className={`group relative h-16 shrink-0 overflow-hidden rounded bg-base-300 bg-cover bg-center
+								${clip.id === selectedClipId ? 'ring-2 ring-primary' : ''}
+								${dropIndex === index && dragIndex !== index ? 'ring-2 ring-secondary' : ''}
+								${dragIndex === index ? 'opacity-50' : ''}
+								${disabled ? 'cursor-not-allowed' : 'cursor-pointer'}`}
+							style={{
+								width: Math.max(clip.duration * PIXELS_PER_SECOND, MIN_CLIP_WIDTH),
+								backgroundImage: `url(${clip.previewUrl})`
+							}}
+							title={clip.file.name}
+						>
+							<div className="absolute inset-x-0 bottom-0 flex justify-between bg-black/50 px-1 text-xs text-white">
+								<span>{index + 1}</span>
+								<span>{formatSeconds(clip.duration)}</span>
+							</div>
+							<button
+								className="btn btn-circle btn-ghost btn-xs absolute right-2 top-0 hidden bg-black/50 text-white group-hover:flex"
+								onClick={(e) => {
+									e.stopPropagation();
+									onRemoveClip(clip.id);
+								}}
+								disabled={disabled}
+								aria-label="Remove clip"
+							>
+								✕
+							</button>
+							<div
+								className="absolute inset-y-0 right-0 w-1.5 cursor-ew-resize bg-primary/60 opacity-0 group-hover:opacity-100"
+								onPointerDown={(e) => handleTrimStart(clip, e)}
+								onPointerMove={handleTrimMove}
+								onPointerUp={handleTrimEnd}
+								onClick={(e) => e.stopPropagation()}
+								title="Drag to trim"
+							/>
+						</div>
+					</Fragment>
+				))}
+			</div>
+		</div>
+	);
+}
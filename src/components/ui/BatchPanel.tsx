@@ -0,0 +1,353 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { FileWithPath } from 'react-dropzone';
+import { EffectLayer } from '@/types/effects';
+import { ProjectWatermark } from '@/types/watermark';
+import type { FFmpegCapabilities } from '@/types/capabilities';
+import {
+	BatchItem,
+	BatchItemStatus,
+	BatchVariation,
+	DEFAULT_BATCH_NAME_TEMPLATE,
+	MAX_BATCH_IMAGES,
+	NO_BATCH_VARIATION,
+} from '@/types/batch';
+import { ImageUpload } from '@/components/ui/ImageUpload';
+import { ffmpegService, RenderCancelledError } from '@/lib/ffmpeg/ffmpeg-service';
+import { isEffectSupported, isFormatSupported } from '@/lib/ffmpeg/requirements';
+import { createEffectLayer, enabledLayers } from '@/lib/effects/stack';
+import { BUILT_IN_EFFECT_PRESETS, loadEffectPresets } from '@/lib/presets/effect-presets';
+import { ExportPresetEntry, exportPresetEntries, loadExportPresets } from '@/lib/presets/export-presets';
+import { BATCH_NAME_TOKENS, formatBatchName, planBatch, validateNameTemplate } from '@/lib/batch/batch';
+import { createZipFromBlobs } from '@/lib/files/zip';
+import { downloadBlob } from '@/lib/files/download';
+
+const CURRENT_CLIP_EFFECT = 'current-clip';
+const DEFAULT_EFFECT_PRESET = 'built-in:cinematic-ken-burns';
+
+const STATUS_BADGES: Record<BatchItemStatus, string> = {
+	queued: 'badge-ghost',
+	rendering: 'badge-info',
+	done: 'badge-success',
+	failed: 'badge-error',
+	cancelled: 'badge-warning',
+};
+
+// Every preset of an image shares its clip, so each preview URL is released once
+function releaseItems(items: BatchItem[]) {
+	new Set(items.map(item => item.clip.previewUrl)).forEach(url => URL.revokeObjectURL(url));
+}
+
+// Dropped folders keep each file's path, so 1.jpg from two product folders counts as two images
+function fileKey(file: FileWithPath): string {
+	return `${file.relativePath || file.path || file.webkitRelativePath || file.name}:${file.size}:${file.lastModified}`;
+}
+
+interface BatchPanelProps {
+	/** The selected clip's layers, offered as the effect to apply */
+	currentLayers?: EffectLayer[] | null;
+	/** Drawn on outputs whose preset places a watermark */
+	watermark?: ProjectWatermark | null;
+	capabilities?: FFmpegCapabilities | null;
+	onRunningChange?: (running: boolean) => void;
+}
+
+/** Renders one effect onto many images through one or more export presets, then zips the results. */
+export function BatchPanel({ currentLayers = null, watermark = null, capabilities = null, onRunningChange }: BatchPanelProps) {
+	const [files, setFiles] = useState<File[]>([]);
+	const [effectPresets, setEffectPresets] = useState(BUILT_IN_EFFECT_PRESETS);
+	const [presetEntries, setPresetEntries] = useState<ExportPresetEntry[]>(() => exportPresetEntries([]));
+	const [effectId, setEffectId] = useState(currentLayers ? CURRENT_CLIP_EFFECT : DEFAULT_EFFECT_PRESET);
+	const [variation, setVariation] = useState<BatchVariation>(NO_BATCH_VARIATION);
+	const [presetIds, setPresetIds] = useState<string[]>([]);
+	const [template, setTemplate] = useState(DEFAULT_BATCH_NAME_TEMPLATE);
+	const [items, setItems] = useState<BatchItem[]>([]);
+	const [running, setRunning] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const cancelled = useRef(false);
+
+	// Saved presets live in localStorage, which only exists after mounting
+	useEffect(() => {
+		setEffectPresets([...BUILT_IN_EFFECT_PRESETS, ...loadEffectPresets().presets]);
+		setPresetEntries(exportPresetEntries(loadExportPresets().presets));
+	}, []);
+
+	useEffect(() => {
+		onRunningChange?.(running);
+	}, [running, onRunningChange]);
+
+	const itemsRef = useRef(items);
+	itemsRef.current = items;
+	useEffect(() => () => releaseItems(itemsRef.current), []);
+
+	// The layers every image gets, before variation
+	const effectPreset = effectPresets.find(entry => entry.id === effectId);
+	const effectLayers = effectId === CURRENT_CLIP_EFFECT
+		? currentLayers && enabledLayers(currentLayers)
+		: effectPreset && [createEffectLayer(effectPreset.effect)];
+	const presets = presetEntries.filter(entry => presetIds.includes(entry.id));
+	const templateError = validateNameTemplate(template);
+	const effectError = effectLayers?.some(layer => !isEffectSupported(capabilities, layer.type))
+		? 'This ffmpeg build lacks the filters for this effect'
+		: null;
+	const exampleName = files[0] && presets[0] && !templateError
+		? formatBatchName(template, {
+			basename: files[0].name.replace(/\.[^.]+$/, ''),
+			preset: presets[0].preset.name,
+			index: '1',
+			effect: effectLayers?.[0]?.type.toLowerCase() ?? '',
+			ext: presets[0].preset.format,
+		})
+		: null;
+	const canStart = !running && files.length > 0 && presets.length > 0 && !!effectLayers?.length && !templateError && !effectError;
+
+	const done = items.flatMap(item => (item.status === 'done' && item.result ? [{ name: item.outputName, result: item.result }] : []));
+	const retryable = items.filter(item => item.status === 'failed' || item.status === 'cancelled');
+
+	const handleImageSelect = (file: File) => {
+		setFiles(prev => {
+			if (prev.length >= MAX_BATCH_IMAGES) return prev;
+			// A folder dropped twice shouldn't queue its images twice
+			if (prev.some(existing => fileKey(existing) === fileKey(file))) return prev;
+			return [...prev, file];
+		});
+	};
+
+	const togglePreset = (id: string) => {
+		setPresetIds(prev => (prev.includes(id) ? prev.filter(entry => entry !== id) : [...prev, id]));
+	};
+
+	const updateItem = (id: string, changes: Partial<BatchItem>) => {
+		setItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+	};
+
+	// Renders the queue one item at a time; the server runs one export job per item
+	const runQueue = async (queue: BatchItem[]) => {
+		cancelled.current = false;
+		setRunning(true);
+		setError(null);
+		queue.forEach(item => updateItem(item.id, { status: 'queued', progress: 0, error: undefined }));
+		for (const item of queue) {
+			if (cancelled.current) {
+				updateItem(item.id, { status: 'cancelled' });
+				continue;
+			}
+			updateItem(item.id, { status: 'rendering' });
+			try {
+				const result = await ffmpegService.generateVideo(
+					[item.clip],
+					percent => updateItem(item.id, { progress: percent }),
+					item.settings,
+					null,
+					null,
+					item.settings.watermark ? watermark : null
+				);
+				updateItem(item.id, { status: 'done', progress: 100, result });
+			} catch (err) {
+				if (err instanceof RenderCancelledError) {
+					updateItem(item.id, { status: 'cancelled', progress: 0 });
+				} else {
+					updateItem(item.id, { status: 'failed', error: err instanceof Error ? err.message : 'Render failed' });
+				}
+			}
+		}
+		setRunning(false);
+	};
+
+	const handleStart = () => {
+		if (!effectLayers || !canStart) return;
+		releaseItems(items);
+		const planned = planBatch({ files, layers: effectLayers, variation, presets, template });
+		setItems(planned);
+		void runQueue(planned);
+	};
+
+	const handleCancel = () => {
+		cancelled.current = true;
+		ffmpegService.abort();
+	};
+
+	const handleClear = () => {
+		releaseItems(items);
+		setItems([]);
+		setFiles([]);
+	};
+
+	const handleDownload = async () => {
+		setError(null);
+		try {
+			// The renders are already Blobs; the zip points at them rather than copying hundreds of videos
+			const zip = await createZipFromBlobs(done.map(({ name, result }) => ({ name, blob: result })));
+			downloadBlob(zip, `batch_${Date.now()}.zip`);
+		} catch (err) {
+			console.error('Batch zip error:', err);
+			setError(err instanceof Error ? err.message : 'Failed to create the zip');
+		}
+	};
+
+	return (
+		<div className="space-y-4">
+			{/* maxFiles applies per drop, so it gets the room left under the running total */}
+			<ImageUpload
+				onImageSelect={handleImageSelect}
+				multiple
+				maxFiles={Math.max(MAX_BATCH_IMAGES - files.length, 1)}
+				disabled={running || files.length >= MAX_BATCH_IMAGES}
+			/>
+			<div className="flex items-center justify-between text-sm">
+				<span>
+					{files.length} image{files.length === 1 ? '' : 's'} selected
+					{files.length >= MAX_BATCH_IMAGES && ` (the limit is ${MAX_BATCH_IMAGES})`}
+				</span>
+				<button className="btn btn-ghost btn-xs" onClick={handleClear} disabled={running || (files.length === 0 && items.length === 0)}>
+					Clear
+				</button>
+			</div>
+
+			<div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+				<div className="form-control">
+					<label className="label">
+						<span className="label-text">Effect</span>
+					</label>
+					<select
+						className="select select-bordered select-sm"
+						value={effectId}
+						onChange={(e) => setEffectId(e.target.value)}
+						disabled={running}
+					>
+						{currentLayers && <option value={CURRENT_CLIP_EFFECT}>Selected clip&apos;s effects</option>}
+						{effectPresets.map(preset => (
+							<option key={preset.id} value={preset.id}>{preset.name}</option>
+						))}
+					</select>
+					{effectError && <span className="label-text-alt text-error mt-1">{effectError}</span>}
+				</div>
+
+				<div className="form-control">
+					<label className="label">
+						<span className="label-text">Intensity variation</span>
+						<span className="label-text-alt">±{variation.intensity}</span>
+					</label>
+					<input
+						type="range"
+						min="0"
+						max="50"
+						value={variation.intensity}
+						onChange={(e) => setVariation({ ...variation, intensity: Number(e.target.value) })}
+						className="range range-primary range-sm"
+						disabled={running}
+					/>
+					<label className="label cursor-pointer justify-start gap-2">
+						<input
+							type="checkbox"
+							className="checkbox checkbox-xs"
+							checked={variation.direction}
+							onChange={(e) => setVariation({ ...variation, direction: e.target.checked })}
+							disabled={running}
+						/>
+						<span className="label-text-alt">Random zoom and pan direction per image</span>
+					</label>
+				</div>
+			</div>
+
+			<div className="space-y-1">
+				<span className="label-text">Export presets</span>
+				<div className="flex flex-wrap gap-2">
+					{presetEntries.map(({ id, preset }) => {
+						const unsupported = !isFormatSupported(capabilities, preset.format);
+						return (
+							<label
+								key={id}
+								className={`label cursor-pointer gap-2 rounded-lg bg-base-200 px-2 py-1 ${unsupported ? 'opacity-50' : ''}`}
+								title={unsupported ? `The installed ffmpeg cannot encode ${preset.format}` : preset.description}
+							>
+								<input
+									type="checkbox"
+									className="checkbox checkbox-xs"
+									checked={presetIds.includes(id)}
+									onChange={() => togglePreset(id)}
+									disabled={running || unsupported}
+								/>
+								<span className="label-text text-xs">{preset.name}</span>
+							</label>
+						);
+					})}
+				</div>
+			</div>
+
+			<div className="form-control">
+				<label className="label">
+					<span className="label-text">File names</span>
+				</label>
+				<input
+					type="text"
+					className={`input input-bordered input-sm ${templateError ? 'input-error' : ''}`}
+					value={template}
+					onChange={(e) => setTemplate(e.target.value)}
+					disabled={running}
+					aria-label="File name template"
+				/>
+				<label className="label">
+					<span className={`label-text-alt ${templateError ? 'text-error' : 'text-base-content/70'}`}>
+						{templateError ?? (exampleName
+							? `e.g. ${exampleName}`
+							: `Tokens: ${BATCH_NAME_TOKENS.map(token => `{${token}}`).join(' ')}`)}
+					</span>
+				</label>
+			</div>
+
+			<div className="flex flex-wrap gap-2">
+				<button className="btn btn-primary btn-sm" onClick={handleStart} disabled={!canStart}>
+					{running ? (
+						<>
+							<span className="loading loading-spinner"></span>
+							Rendering {items.filter(item => item.status === 'done' || item.status === 'failed').length + 1} of {items.length}
+						</>
+					) : (
+						`Render ${files.length * presets.length} video${files.length * presets.length === 1 ? '' : 's'}`
+					)}
+				</button>
+				{running && (
+					<button className="btn btn-error btn-sm" onClick={handleCancel}>
+						Cancel
+					</button>
+				)}
+				<button className="btn btn-sm" onClick={() => void runQueue(retryable)} disabled={running || retryable.length === 0}>
+					Retry failed ({retryable.length})
+				</button>
+				<button className="btn btn-sm" onClick={handleDownload} disabled={running || done.length === 0}>
+					Download zip ({done.length})
+				</button>
+			</div>
+
+			{error && <div className="text-xs text-error">{error}</div>}
+
+			{items.length > 0 && (
+				<ul className="max-h-96 space-y-1 overflow-y-auto">
+					{items.map(item => (
+						<li key={item.id} className="flex items-center gap-3 rounded-lg bg-base-200 p-2">
+							<img src={item.clip.previewUrl} alt="" className="h-10 w-16 shrink-0 rounded object-cover" />
+							<div className="min-w-0 flex-1">
+								<div className="truncate text-sm font-bold" title={item.outputName}>{item.outputName}</div>
+								<div className="truncate text-xs opacity-70">
+									{item.presetName}
+									{item.error && <span className="text-error">: {item.error}</span>}
+								</div>
+								{item.status === 'rendering' && (
+									<progress className="progress progress-primary w-full" value={item.progress} max="100" />
+								)}
+							</div>
+							<span className={`badge badge-sm ${STATUS_BADGES[item.status]}`}>{item.status}</span>
+							{(item.status === 'failed' || item.status === 'cancelled') && (
+								<button className="btn btn-ghost btn-xs" onClick={() => void runQueue([item])} disabled={running}>
+									Retry
+								</button>
+							)}
+						</li>
+					))}
+				</ul>
+			)}
+		</div>
+	);
+}
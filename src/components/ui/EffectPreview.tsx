@@ -1,185 +1,224 @@
 'use client';
 
-import { useEffect, useRef, useState } from 'react';
-import { VideoEffect } from '@/types/effects';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { ReactNode } from 'react';
+import { EffectLayer } from '@/types/effects';
+import { effectMotion } from '@/lib/effects/motion';
+import { drawStackFrame } from '@/lib/effects/canvas';
+import { enabledLayers, stackDuration } from '@/lib/effects/stack';
+import { PreviewClock } from '@/lib/preview/clock';
+import { WatermarkPreview, WatermarkPreviewProps } from '@/components/ui/WatermarkPreview';
+
+// Aspect ratio of the preview box the frame is fitted into
+const PREVIEW_ASPECT = 16 / 9;
+
+const DEFAULT_FRAME: PreviewFrame = { width: 1920, height: 1080, fps: 30 };
+
+interface PreviewFrame {
+	width: number;
+	height: number;
+	fps: number;
+}
+
+// Index of the export frame showing at `time`; the nudge keeps exact frame times from rounding down
+const frameIndexAt = (time: number, fps: number) => Math.floor(time * fps + 1e-6);
 
 interface EffectPreviewProps {
 	imageUrl: string | null;
-	effect: VideoEffect;
+	layers: EffectLayer[];
+	/** Seconds the clip plays; defaults to the longest layer */
+	clipDuration?: number;
+	/** Export size and frame rate, so the preview shows the exported frames */
+	frame?: PreviewFrame;
+	/** Playback clock shared with overlays drawn over the preview */
+	clock?: PreviewClock;
+	/** Logo drawn still over the animated layers, as in the export */
+	watermark?: WatermarkPreviewProps | null;
+	/** Overlays drawn over the frame, such as text */
+	children?: ReactNode;
 }
 
-export function EffectPreview({ imageUrl, effect }: EffectPreviewProps) {
-	const containerRef = useRef<HTMLDivElement>(null);
-	const imageRef = useRef<HTMLImageElement>(null);
+export function EffectPreview({
+	imageUrl,
+	layers,
+	clipDuration,
+	frame = DEFAULT_FRAME,
+	clock: sharedClock,
+	watermark = null,
+	children
+}: EffectPreviewProps) {
+	const [ownClock] = useState(() => new PreviewClock());
+	const clock = sharedClock ?? ownClock;
+	const canvasRef = useRef<HTMLCanvasElement>(null);
+	const scrubRef = useRef<HTMLInputElement>(null);
+	const timeRef = useRef<HTMLSpanElement>(null);
+	// Intermediate frames between stacked layers, reused across draws
+	const scratch = useRef<HTMLCanvasElement[]>([]);
+	const [image, setImage] = useState<HTMLImageElement | null>(null);
 	const [error, setError] = useState<string | null>(null);
+	const [playing, setPlaying] = useState(clock.isPlaying);
+	const [loop, setLoop] = useState(clock.loop);
 
-	useEffect(() => {
-		if (!imageRef.current || !imageUrl || !containerRef.current) return;
-
-		const { type, params } = effect;
-		const { duration, intensity = 50 } = params;
-		const image = imageRef.current;
-
-		try {
-			// Reset previous state
-			setError(null);
-			image.style.animation = 'none';
-			image.style.filter = 'none';
-			void image.offsetWidth;
-
-			// Use requestAnimationFrame for smoother animation
-			requestAnimationFrame(() => {
-				const keyframes = generateKeyframes(type, params);
-				const easing = getEasing(params.easing);
-				const animation = `${type.toLowerCase()}-effect ${duration}s ${easing} infinite`;
-
-				// Use a separate style element for keyframes
-				const styleId = `effect-style-${type.toLowerCase()}`;
-				let styleElement = document.getElementById(styleId) as HTMLStyleElement;
-
-				if (!styleElement) {
-					styleElement = document.createElement('style');
-					styleElement.id = styleId;
-					document.head.appendChild(styleElement);
-				}
+	const { width, height, fps } = frame;
+	const duration = clipDuration ?? stackDuration(layers);
+	const frameCount = Math.max(Math.ceil(duration * fps), 1);
+	const motions = useMemo(() => enabledLayers(layers).map(effectMotion), [layers]);
 
-				styleElement.textContent = `@keyframes ${type.toLowerCase()}-effect ${keyframes}`;
+	useEffect(() => clock.subscribe(() => {
+		setPlaying(clock.isPlaying);
+		setLoop(clock.loop);
+	}), [clock]);
 
-				// Apply optimized transforms
-				image.style.animation = animation;
-				image.style.willChange = 'transform';
-				
-				if (type === 'WAVE') {
-					const distortionAmount = Math.min(intensity / 2, 25);
-					image.style.filter = `url("data:image/svg+xml,${generateWaveFilter(distortionAmount)}")`;
-				}
-			});
+	useEffect(() => {
+		clock.setDuration(duration);
+	}, [clock, duration]);
 
-			// Cleanup function
-			return () => {
-				const styleElement = document.getElementById(`effect-style-${type.toLowerCase()}`);
-				if (styleElement) {
-					styleElement.remove();
+	// A new clip starts from its first frame
+	useEffect(() => {
+		setImage(null);
+		setError(null);
+		if (!imageUrl) return;
+
+		let cancelled = false;
+		const next = new Image();
+		next.onload = () => {
+			if (!cancelled) setImage(next);
+		};
+		next.onerror = () => {
+			if (!cancelled) setError('Failed to load image');
+		};
+		next.src = imageUrl;
+		clock.seek(0);
+		return () => {
+			cancelled = true;
+		};
+	}, [imageUrl, clock]);
+
+	// Keep the canvas at its on-screen size in device pixels
+	useEffect(() => {
+		const canvas = canvasRef.current;
+		if (!canvas) return;
+		const observer = new ResizeObserver(() => {
+			const ratio = window.devicePixelRatio || 1;
+			canvas.width = Math.max(Math.round(canvas.clientWidth * ratio), 1);
+			canvas.height = Math.max(Math.round(canvas.clientHeight * ratio), 1);
+		});
+		observer.observe(canvas);
+		return () => observer.disconnect();
+	}, []);
+
+	// Draw the export frame the clock is on, only when it or the canvas size changes
+	useEffect(() => {
+		if (!image) return;
+		let animationFrame = 0;
+		let drawn = '';
+		const tick = () => {
+			const canvas = canvasRef.current;
+			const index = Math.min(frameIndexAt(clock.time(), fps), frameCount - 1);
+			const time = index / fps;
+			if (canvas && canvas.width > 1) {
+				const key = `${index}:${canvas.width}x${canvas.height}`;
+				if (key !== drawn) {
+					try {
+						drawStackFrame(canvas, scratch.current, image, motions, time, { width, height });
+					} catch (err) {
+						console.error('Effect preview error:', err);
+						setError('Failed to draw the preview');
+						return;
+					}
+					drawn = key;
 				}
-			};
-		} catch (err) {
-			console.error('Effect preview error:', err);
-			setError('Failed to apply effect. Please try a different one.');
-		}
-	}, [effect, imageUrl]);
-
-	const getEasing = (easing: string): string => {
-		switch (easing) {
-			case 'EASE_IN': return 'cubic-bezier(0.4, 0, 1, 1)';
-			case 'EASE_OUT': return 'cubic-bezier(0, 0, 0.2, 1)';
-			case 'EASE_IN_OUT': return 'cubic-bezier(0.4, 0, 0.2, 1)';
-			default: return 'linear';
-		}
-	};
-
-	const generateKeyframes = (type: string, params: any): string => {
-		const intensityFactor = params.intensity / 100;
-
-		switch (type) {
-			case 'ZOOM':
-				const scale = params.direction === 'IN' ? 1 + intensityFactor : 1 - intensityFactor * 0.5;
-				return `{ 
-					0% { transform: scale(1); }
-					100% { transform: scale(${scale}); }
-				}`;
-
-			case 'PAN':
-				const distance = 50 * intensityFactor;
-				const direction = params.direction?.toLowerCase() || 'left';
-				const transform = direction === 'left' || direction === 'right'
-					? `translateX(${direction === 'left' ? '-' : ''}${distance}%)`
-					: `translateY(${direction === 'up' ? '-' : ''}${distance}%)`;
-				return `{
-					0% { transform: translate(0); }
-					100% { transform: ${transform}; }
-				}`;
-
-			case 'PARALLAX':
-				const depth = 20 * intensityFactor;
-				return `{
-					0% { transform: translate3d(0, 0, 0) scale(1.1); }
-					25% { transform: translate3d(${depth}px, ${-depth}px, 0) scale(1.1); }
-					50% { transform: translate3d(${depth}px, ${depth}px, 0) scale(1.1); }
-					75% { transform: translate3d(${-depth}px, ${depth}px, 0) scale(1.1); }
-					100% { transform: translate3d(0, 0, 0) scale(1.1); }
-				}`;
-
-			case 'ROTATION':
-				return `{
-					0% { transform: rotate(0deg); }
-					100% { transform: rotate(${360 * intensityFactor}deg); }
-				}`;
-
-			case 'PULSE':
-				const pulseScale = 1 + (0.3 * intensityFactor);
-				return `{
-					0%, 100% { transform: scale(1); filter: brightness(1); }
-					50% { transform: scale(${pulseScale}); filter: brightness(1.1); }
-				}`;
-
-			case 'DRIFT':
-				const driftDistance = 30 * intensityFactor;
-				const rotation = 15 * intensityFactor;
-				return `{
-					0% { transform: translate(0, 0) rotate(0deg); }
-					25% { transform: translate(${driftDistance}px, ${-driftDistance}px) rotate(${rotation}deg); }
-					50% { transform: translate(${driftDistance}px, ${driftDistance}px) rotate(0deg); }
-					75% { transform: translate(${-driftDistance}px, ${driftDistance}px) rotate(${-rotation}deg); }
-					100% { transform: translate(0, 0) rotate(0deg); }
-				}`;
-
-			case 'KEN_BURNS':
-				const zoomAmount = 1 + (0.3 * intensityFactor);
-				const panAmount = 10 * intensityFactor;
-				return `{
-					0% { transform: scale(1) translate(0, 0); }
-					25% { transform: scale(${zoomAmount}) translate(${panAmount}%, ${-panAmount}%); }
-					50% { transform: scale(${zoomAmount * 0.9}) translate(${-panAmount}%, ${-panAmount}%); }
-					75% { transform: scale(${zoomAmount * 1.1}) translate(${-panAmount}%, ${panAmount}%); }
-					100% { transform: scale(1) translate(0, 0); }
-				}`;
-
-			default:
-				return `{
-					0% { transform: none; }
-					100% { transform: none; }
-				}`;
-		}
+			}
+			if (scrubRef.current) scrubRef.current.value = String(time);
+			if (timeRef.current) timeRef.current.textContent = `${time.toFixed(2)}s · ${index + 1}/${frameCount}`;
+			animationFrame = requestAnimationFrame(tick);
+		};
+		animationFrame = requestAnimationFrame(tick);
+		return () => cancelAnimationFrame(animationFrame);
+	}, [image, motions, clock, width, height, fps, frameCount]);
+
+	const stepFrame = (direction: number) => {
+		clock.pause();
+		const index = frameIndexAt(clock.time(), fps) + direction;
+		clock.seek(Math.min(Math.max(index, 0), frameCount - 1) / fps);
 	};
 
-	const generateWaveFilter = (amount: number): string => {
-		const svg = `<svg><defs><filter id="wave"><feDisplacementMap in="SourceGraphic" scale="${amount}" xChannelSelector="R" yChannelSelector="G"><animate attributeName="scale" values="${amount};${amount * 1.5};${amount}" dur="2s" repeatCount="indefinite"/></filter></defs></svg>`;
-		return encodeURIComponent(svg);
-	};
+	// Fit a box with the export's aspect ratio inside the preview, like the padded export frame
+	const fitsWidth = width / height >= PREVIEW_ASPECT;
+	const showFrame = !!imageUrl && !error;
 
 	return (
-		<div className="relative w-full aspect-video bg-base-300 rounded-lg overflow-hidden">
-			<div ref={containerRef} className="absolute inset-0 flex items-center justify-center">
-				{error ? (
-					<div className="text-error">{error}</div>
-				) : imageUrl ? (
-					<img
-						ref={imageRef}
-						src={imageUrl}
-						alt="Preview"
-						className="max-w-full max-h-full object-contain"
-						style={{ 
-							transformOrigin: 'center center',
-							willChange: 'transform',
-							backfaceVisibility: 'hidden',
-							transform: 'translateZ(0)' // Force GPU acceleration
+		<div className="space-y-2">
+			<div className="relative w-full aspect-video bg-base-300 rounded-lg overflow-hidden">
+				<div className="absolute inset-0 flex items-center justify-center">
+					<canvas
+						ref={canvasRef}
+						className={showFrame ? 'block' : 'hidden'}
+						style={{
+							aspectRatio: `${width / height}`,
+							width: fitsWidth ? '100%' : 'auto',
+							height: fitsWidth ? 'auto' : '100%',
 						}}
-						onError={() => setError('Failed to load image')}
 					/>
-				) : (
-					<div className="text-base-content/50">Upload an image to preview effects</div>
-				)}
+					{error ? (
+						<div className="text-error">{error}</div>
+					) : !imageUrl && (
+						<div className="text-base-content/50">Upload an image to preview effects</div>
+					)}
+				</div>
+				{showFrame && watermark && <WatermarkPreview {...watermark} />}
+				{showFrame && children}
 			</div>
+
+			{showFrame && (
+				<div className="flex items-center gap-2">
+					<button
+						className="btn btn-ghost btn-xs"
+						onClick={() => stepFrame(-1)}
+						aria-label="Previous frame"
+					>
+						⏮
+					</button>
+					<button
+						className="btn btn-primary btn-xs w-10"
+						onClick={() => (playing ? clock.pause() : clock.play())}
+						aria-label={playing ? 'Pause' : 'Play'}
+					>
+						{playing ? '❚❚' : '▶'}
+					</button>
+					<button
+						className="btn btn-ghost btn-xs"
+						onClick={() => stepFrame(1)}
+						aria-label="Next frame"
+					>
+						⏭
+					</button>
+					<input
+						ref={scrubRef}
+						type="range"
+						className="range range-primary range-xs flex-1"
+						defaultValue={0}
+						onChange={(e) => {
+							clock.pause();
+							clock.seek(Number(e.target.value));
+						}}
+						min="0"
+						max={(frameCount - 1) / fps}
+						step={1 / fps}
+						aria-label="Scrub"
+					/>
+					<span ref={timeRef} className="w-28 text-right text-xs tabular-nums text-base-content/70" />
+					<label className="label cursor-pointer gap-1 p-0">
+						<span className="label-text-alt">Loop</span>
+						<input
+							type="checkbox"
+							className="toggle toggle-primary toggle-xs"
+							checked={loop}
+							onChange={(e) => clock.setLoop(e.target.checked)}
+						/>
+					</label>
+				</div>
+			)}
 		</div>
 	);
-}
\ No newline at end of file
+}
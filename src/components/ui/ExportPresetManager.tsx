@@ -0,0 +1,288 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import type { ChangeEvent } from 'react';
+import { EXPORT_PRESETS, ExportSettings } from '@/types/effects';
+import { MAX_EXPORT_PRESETS, SavedExportPreset } from '@/types/presets';
+import type { FFmpegCapabilities } from '@/types/capabilities';
+import { isFormatSupported } from '@/lib/ffmpeg/requirements';
+import { downloadBlob } from '@/lib/files/download';
+import { uniquePresetName } from '@/lib/presets/effect-presets';
+import {
+	ExportPresetImportError,
+	ExportPresetLibrary,
+	createExportPreset,
+	duplicateExportPreset,
+	importExportPresets,
+	presetSettings,
+	toExportPresetBundle,
+	validateExportPreset,
+} from '@/lib/presets/export-presets';
+
+interface PresetDraft {
+	name: string;
+	description: string;
+	/** Save the watermark placement with the preset */
+	includeWatermark: boolean;
+}
+
+interface ExportPresetManagerProps {
+	library: ExportPresetLibrary;
+	onLibraryChange: (library: ExportPresetLibrary) => void;
+	onSelect: (preset: SavedExportPreset) => void;
+	settings: ExportSettings;
+	/** The selected saved preset, when the settings have drifted from it */
+	modifiedPreset: SavedExportPreset | null;
+	capabilities?: FFmpegCapabilities | null;
+	disabled?: boolean;
+}
+
+/** The user's own export presets: pick, save, rename, duplicate, delete and share them. */
+export function ExportPresetManager({
+	library,
+	onLibraryChange,
+	onSelect,
+	settings,
+	modifiedPreset,
+	capabilities = null,
+	disabled = false
+}: ExportPresetManagerProps) {
+	// null: no form; 'new': saving the current settings; otherwise the id being renamed
+	const [editing, setEditing] = useState<string | null>(null);
+	const [draft, setDraft] = useState<PresetDraft>({ name: '', description: '', includeWatermark: false });
+	const [error, setError] = useState<string | null>(null);
+	const [notice, setNotice] = useState<string | null>(null);
+	const importInput = useRef<HTMLInputElement>(null);
+	const { presets } = library;
+
+	const openForm = (id: string, preset?: SavedExportPreset) => {
+		setError(null);
+		setNotice(null);
+		setEditing(id);
+		setDraft(preset
+			? { name: preset.name, description: preset.description, includeWatermark: !!preset.watermark }
+			: { name: uniquePresetName('My preset', [...EXPORT_PRESETS, ...presets]), description: '', includeWatermark: false });
+	};
+
+	const handleSave = () => {
+		if (!editing) return;
+		const name = draft.name.trim();
+		const taken = [...EXPORT_PRESETS, ...presets.filter(preset => preset.id !== editing)];
+		if (taken.some(preset => preset.name.toLowerCase() === name.toLowerCase())) {
+			setError(`A preset named "${name}" already exists`);
+			return;
+		}
+
+		const existing = presets.find(preset => preset.id === editing);
+		const preset = existing
+			? { ...existing, name, description: draft.description.trim(), updatedAt: Date.now() }
+			: createExportPreset(name, draft.description.trim(), {
+				...presetSettings(settings),
+				watermark: draft.includeWatermark ? settings.watermark : undefined,
+			});
+		const problem = validateExportPreset(preset);
+		if (problem) {
+			setError(problem);
+			return;
+		}
+		if (existing) {
+			onLibraryChange({ ...library, presets: presets.map(entry => (entry.id === preset.id ? preset : entry)) });
+		} else {
+			if (presets.length >= MAX_EXPORT_PRESETS) {
+				setError(`A library holds at most ${MAX_EXPORT_PRESETS} export presets`);
+				return;
+			}
+			// The new preset describes the current settings, so it becomes the selected one
+			onLibraryChange({ presets: [...presets, preset], selectedId: preset.id });
+		}
+		setEditing(null);
+		setError(null);
+	};
+
+	// Overwrites the selected preset with the current settings, keeping whether it has a watermark
+	const handleUpdate = () => {
+		if (!modifiedPreset) return;
+		const updated = {
+			...modifiedPreset,
+			...presetSettings(settings),
+			watermark: modifiedPreset.watermark ? settings.watermark : undefined,
+			updatedAt: Date.now(),
+		};
+		const problem = validateExportPreset(updated);
+		if (problem) {
+			setError(problem);
+			return;
+		}
+		onLibraryChange({ ...library, presets: presets.map(entry => (entry.id === updated.id ? updated : entry)) });
+	};
+
+	const handleDuplicate = (preset: SavedExportPreset) => {
+		if (presets.length >= MAX_EXPORT_PRESETS) {
+			setError(`A library holds at most ${MAX_EXPORT_PRESETS} export presets`);
+			return;
+		}
+		const copy = duplicateExportPreset(preset, presets);
+		onLibraryChange({ ...library, presets: [...presets, copy] });
+		openForm(copy.id, copy);
+	};
+
+	const handleDelete = (preset: SavedExportPreset) => {
+		if (!window.confirm(`Delete the export preset "${preset.name}"?`)) return;
+		onLibraryChange({
+			presets: presets.filter(entry => entry.id !== preset.id),
+			selectedId: library.selectedId === preset.id ? null : library.selectedId,
+		});
+		if (editing === preset.id) setEditing(null);
+	};
+
+	const handleExport = () => {
+		const bundle = toExportPresetBundle(presets);
+		downloadBlob(new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' }), 'export-presets.json');
+	};
+
+	const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		e.target.value = '';
+		if (!file) return;
+		setError(null);
+		setNotice(null);
+		try {
+			const merged = importExportPresets(presets, await file.text());
+			const count = merged.length - presets.length;
+			onLibraryChange({ ...library, presets: merged });
+			setNotice(`Imported ${count} preset${count === 1 ? '' : 's'}`);
+		} catch (err) {
+			if (!(err instanceof ExportPresetImportError)) console.error('Export preset import error:', err);
+			setError(err instanceof Error ? err.message : 'Failed to import presets');
+		}
+	};
+
+	return (
+		<div className="space-y-2">
+			<div className="flex flex-wrap items-center gap-2">
+				<span className="label-text flex-1">My presets</span>
+				{modifiedPreset && (
+					<button className="btn btn-xs" onClick={handleUpdate} disabled={disabled}>
+						Update &quot;{modifiedPreset.name}&quot;
+					</button>
+				)}
+				<button className="btn btn-xs btn-primary" onClick={() => openForm('new')} disabled={disabled}>
+					Save as preset
+				</button>
+				<button className="btn btn-xs" onClick={() => importInput.current?.click()} disabled={disabled}>
+					Import
+				</button>
+				<button className="btn btn-xs" onClick={handleExport} disabled={disabled || presets.length === 0}>
+					Export
+				</button>
+				<input
+					ref={importInput}
+					type="file"
+					accept=".json,application/json"
+					className="hidden"
+					onChange={handleImport}
+				/>
+			</div>
+
+			{editing && (
+				<div className="space-y-2 rounded-lg bg-base-200 p-3">
+					<input
+						type="text"
+						className="input input-bordered input-sm w-full"
+						value={draft.name}
+						onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+						placeholder="Name, e.g. Client X 4:5 feed"
+						maxLength={60}
+						aria-label="Preset name"
+					/>
+					<input
+						type="text"
+						className="input input-bordered input-sm w-full"
+						value={draft.description}
+						onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+						placeholder="Description"
+						maxLength={200}
+						aria-label="Preset description"
+					/>
+					{editing === 'new' && settings.watermark && (
+						<label className="label cursor-pointer justify-start gap-2 p-0">
+							<input
+								type="checkbox"
+								className="checkbox checkbox-xs"
+								checked={draft.includeWatermark}
+								onChange={(e) => setDraft({ ...draft, includeWatermark: e.target.checked })}
+							/>
+							<span className="label-text-alt">Include the watermark placement</span>
+						</label>
+					)}
+					<div className="flex justify-end gap-2">
+						<button className="btn btn-ghost btn-xs" onClick={() => setEditing(null)}>
+							Cancel
+						</button>
+						<button className="btn btn-primary btn-xs" onClick={handleSave} disabled={disabled}>
+							Save
+						</button>
+					</div>
+				</div>
+			)}
+
+			{error && <div className="text-xs text-error">{error}</div>}
+			{notice && <div className="text-xs text-success">{notice}</div>}
+
+			{presets.length === 0 ? (
+				<p className="text-xs text-base-content/70">
+					Save the current settings to reuse them; presets stay in this browser.
+				</p>
+			) : (
+				<ul className="space-y-1">
+					{presets.map(preset => {
+						const unsupported = !isFormatSupported(capabilities, preset.format);
+						return (
+							<li
+								key={preset.id}
+								className={`flex items-center gap-2 rounded-lg px-2 py-1 ${library.selectedId === preset.id ? 'bg-primary/20' : 'bg-base-200'}`}
+							>
+								<button
+									className="flex-1 min-w-0 text-left"
+									onClick={() => onSelect(preset)}
+									disabled={disabled || unsupported}
+									title={unsupported ? `The installed ffmpeg cannot encode ${preset.format}` : preset.description}
+								>
+									<div className="truncate text-sm font-bold">{preset.name}</div>
+									<div className="truncate text-xs opacity-70">
+										{preset.width}x{preset.height}, {preset.fps}fps, {preset.format.toUpperCase()}, q{preset.quality}
+										{preset.watermark && ', watermark'}
+									</div>
+								</button>
+								<button
+									className="btn btn-ghost btn-xs"
+									onClick={() => openForm(preset.id, preset)}
+									disabled={disabled}
+									aria-label="Rename preset"
+								>
+									✎
+								</button>
+								<button
+									className="btn btn-ghost btn-xs"
+									onClick={() => handleDuplicate(preset)}
+									disabled={disabled}
+									aria-label="Duplicate preset"
+								>
+									⧉
+								</button>
+								<button
+									className="btn btn-ghost btn-xs"
+									onClick={() => handleDelete(preset)}
+									disabled={disabled}
+									aria-label="Delete preset"
+								>
+									✕
+								</button>
+							</li>
+						);
+					})}
+				</ul>
+			)}
+		</div>
+	);
+}
@@ -1,48 +1,242 @@
 'use client';
 
-import { useState } from 'react';
-import type { ExportSettings as ExportSettingsType } from '@/types/effects';
-import { EXPORT_PRESETS } from '@/types/effects';
+import { useEffect, useState } from 'react';
+import type { ExportSettings as ExportSettingsType, ExportFormat, ExportPreset, GifDither, GifOptions, PixelFormat, RateControl, VideoCodec } from '@/types/effects';
+import {
+	CODEC_PIXEL_FORMATS,
+	CONTAINER_CODECS,
+	DEFAULT_GIF_OPTIONS,
+	DEFAULT_WEBP_OPTIONS,
+	GifDitherSchema,
+	QUALITY_ONLY_CODECS,
+	resolveCodec,
+	resolvePixelFormat
+} from '@/types/effects';
+import type { FFmpegCapabilities } from '@/types/capabilities';
+import { isCodecSupported, isFormatSupported } from '@/lib/ffmpeg/requirements';
+import { FORMAT_LABELS, PIXEL_FORMAT_LABELS, VIDEO_CODECS } from '@/lib/ffmpeg/codecs';
+import { getRateControl } from '@/lib/ffmpeg/rate-control';
+import {
+	BUILT_IN_EXPORT_PRESETS,
+	ExportPresetLibrary,
+	describeExportSettings,
+	exportPresetEntries,
+	loadExportPresets,
+	presetSettings,
+	saveExportPresets,
+} from '@/lib/presets/export-presets';
+import type { HistoryEdit } from '@/lib/history/history';
+import { ExportPresetManager } from '@/components/ui/ExportPresetManager';
+
+const DEFAULT_MAX_BITRATE_KBPS = 8000;
+const DEFAULT_TARGET_SIZE_MB = 8;
+
+const RATE_CONTROL_DESCRIPTIONS: Record<RateControl['mode'], string> = {
+	quality: 'Consistent quality; file size varies with content',
+	bitrate: 'Consistent quality, but never above the bitrate cap',
+	targetSize: 'Hits an exact file size, e.g. for upload limits'
+};
+
+const GIF_DITHER_LABELS: Record<GifDither, string> = {
+	none: 'None (flat colors, smallest)',
+	bayer: 'Bayer (ordered pattern, compresses well)',
+	floyd_steinberg: 'Floyd-Steinberg',
+	sierra2: 'Sierra-2',
+	sierra2_4a: 'Sierra-2-4A (smooth gradients)'
+};
 
 interface ExportSettingsProps {
 	settings: ExportSettingsType;
-	onSettingsChange: (settings: ExportSettingsType) => void;
+	onSettingsChange: (settings: ExportSettingsType, edit: HistoryEdit) => void;
+	capabilities?: FFmpegCapabilities | null;
 	disabled?: boolean;
 }
 
-export function ExportSettings({ settings, onSettingsChange, disabled = false }: ExportSettingsProps) {
-	const [selectedPreset, setSelectedPreset] = useState<string>('YouTube');
+export function ExportSettings({ settings, onSettingsChange, capabilities = null, disabled = false }: ExportSettingsProps) {
+	// Typing into a field or dragging a slider is one history entry per field
+	const change = (changes: Partial<ExportSettingsType>, label: string, group?: string) => {
+		onSettingsChange({ ...settings, ...changes }, { label, group });
+	};
+
+	const [library, setLibrary] = useState<ExportPresetLibrary>({ presets: [], selectedId: null });
 	const [isCustom, setIsCustom] = useState(false);
 
-	const handlePresetChange = (presetName: string) => {
-		setSelectedPreset(presetName);
-		const preset = EXPORT_PRESETS.find(p => p.name === presetName);
-		if (preset) {
-			setIsCustom(presetName === 'Custom');
-			onSettingsChange(preset);
+	// localStorage only exists in the browser, so saved presets load after mounting
+	useEffect(() => {
+		setLibrary(loadExportPresets());
+	}, []);
+
+	const updateLibrary = (next: ExportPresetLibrary) => {
+		setLibrary(next);
+		saveExportPresets(next);
+	};
+
+	const entries = exportPresetEntries(library.presets);
+	const current = describeExportSettings(settings, entries, library.selectedId);
+	const modifiedPreset = current.modified && !current.entry?.builtIn
+		? library.presets.find(preset => preset.id === current.entry?.id) ?? null
+		: null;
+
+	const rateControl = getRateControl(settings);
+	const codec = resolveCodec(settings);
+	const pixelFormat = resolvePixelFormat(settings);
+	const isQualityOnly = QUALITY_ONLY_CODECS.includes(codec);
+	const gifOptions = settings.gif ?? DEFAULT_GIF_OPTIONS;
+	const webpOptions = settings.webp ?? DEFAULT_WEBP_OPTIONS;
+
+	// Pick the first codec this ffmpeg build can encode for the new container
+	const handleFormatChange = (format: ExportFormat) => {
+		const codecs = CONTAINER_CODECS[format];
+		const nextCodec = codecs.find(c => isCodecSupported(capabilities, c)) ?? codecs[0];
+		handleCodecChange(nextCodec, format);
+	};
+
+	const handleCodecChange = (nextCodec: VideoCodec, format: ExportFormat = settings.format) => {
+		change({
+			format,
+			codec: nextCodec,
+			pixelFormat: CODEC_PIXEL_FORMATS[nextCodec][0],
+			// ProRes, GIF and WebP have no bitrate targeting
+			rateControl: QUALITY_ONLY_CODECS.includes(nextCodec) ? { mode: 'quality' } : settings.rateControl,
+		}, format === settings.format ? 'Change codec' : `Change format to ${FORMAT_LABELS[format]}`);
+	};
+
+	const handleGifOptionChange = (options: Partial<GifOptions>) => {
+		change({ gif: { ...gifOptions, ...options } }, 'Change GIF options', 'export:gif');
+	};
+
+	// Lossless WebP keeps full RGB(A); lossy WebP is always 4:2:0
+	const handleWebpLosslessChange = (lossless: boolean) => {
+		change({
+			codec,
+			pixelFormat: lossless ? 'bgra' : 'yuv420p',
+			webp: { ...webpOptions, lossless },
+		}, lossless ? 'Make WebP lossless' : 'Make WebP lossy');
+	};
+
+	const handleRateControlModeChange = (mode: RateControl['mode']) => {
+		switch (mode) {
+			case 'bitrate':
+				change({ rateControl: { mode, maxBitrateKbps: DEFAULT_MAX_BITRATE_KBPS } }, 'Change rate control');
+				break;
+			case 'targetSize':
+				change({ rateControl: { mode, targetSizeMB: DEFAULT_TARGET_SIZE_MB } }, 'Change rate control');
+				break;
+			default:
+				change({ rateControl: { mode } }, 'Change rate control');
 		}
 	};
 
+	const handlePresetChange = (id: string, preset: ExportPreset) => {
+		updateLibrary({ ...library, selectedId: id });
+		if (BUILT_IN_EXPORT_PRESETS.some(entry => entry.id === id)) setIsCustom(preset.name === 'Custom');
+		// Presets without a watermark placement keep the current one
+		onSettingsChange(
+			{ ...presetSettings(preset), watermark: preset.watermark ?? settings.watermark },
+			{ label: `Apply ${preset.name} preset` }
+		);
+	};
+
 	return (
 		<div className="space-y-4">
 			<div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-				{EXPORT_PRESETS.map((preset) => (
-					<button
-						key={preset.name}
-						className={`btn btn-outline ${selectedPreset === preset.name ? 'btn-primary' : ''} ${disabled ? 'btn-disabled' : ''}`}
-						onClick={() => handlePresetChange(preset.name)}
-						disabled={disabled}
-					>
-						<div className="text-left">
-							<div className="font-bold">{preset.name}</div>
-							<div className="text-xs opacity-70">{preset.description}</div>
-						</div>
-					</button>
-				))}
+				{BUILT_IN_EXPORT_PRESETS.map(({ id, preset }) => {
+					const unsupported = !isFormatSupported(capabilities, preset.format);
+					return (
+						<button
+							key={id}
+							className={`btn btn-outline ${current.entry?.id === id ? 'btn-primary' : ''} ${disabled || unsupported ? 'btn-disabled' : ''}`}
+							onClick={() => handlePresetChange(id, preset)}
+							disabled={disabled || unsupported}
+							title={unsupported ? `The installed ffmpeg cannot encode ${preset.format}` : undefined}
+						>
+							<div className="text-left">
+								<div className="font-bold">{preset.name}</div>
+								<div className="text-xs opacity-70">{preset.description}</div>
+							</div>
+						</button>
+					);
+				})}
+			</div>
+
+			<div className="flex items-center gap-2 text-sm">
+				<span className="flex-1 truncate">
+					{current.entry ? current.entry.preset.name : 'Custom settings'}
+					{current.modified && <span className="badge badge-warning badge-sm ml-2">modified</span>}
+				</span>
+				<button
+					className="btn btn-ghost btn-xs"
+					onClick={() => setIsCustom(!isCustom)}
+					disabled={disabled}
+				>
+					{isCustom ? 'Hide settings' : 'Customize'}
+				</button>
 			</div>
 
+			<ExportPresetManager
+				library={library}
+				onLibraryChange={updateLibrary}
+				onSelect={preset => handlePresetChange(preset.id, preset)}
+				settings={settings}
+				modifiedPreset={modifiedPreset}
+				capabilities={capabilities}
+				disabled={disabled}
+			/>
+
 			{isCustom && (
 				<div className="grid grid-cols-2 gap-4">
+					<div className="form-control col-span-2">
+						<label className="label">
+							<span className="label-text">Format</span>
+						</label>
+						<select
+							className="select select-bordered"
+							value={settings.format}
+							onChange={(e) => handleFormatChange(e.target.value as ExportFormat)}
+							disabled={disabled}
+						>
+							{(Object.keys(CONTAINER_CODECS) as ExportFormat[]).map(format => (
+								<option key={format} value={format} disabled={!isFormatSupported(capabilities, format)}>
+									{FORMAT_LABELS[format]}
+								</option>
+							))}
+						</select>
+					</div>
+					<div className="form-control">
+						<label className="label">
+							<span className="label-text">Codec</span>
+						</label>
+						<select
+							className="select select-bordered"
+							value={codec}
+							onChange={(e) => handleCodecChange(e.target.value as VideoCodec)}
+							disabled={disabled}
+						>
+							{CONTAINER_CODECS[settings.format].map(option => (
+								<option key={option} value={option} disabled={!isCodecSupported(capabilities, option)}>
+									{VIDEO_CODECS[option].label}
+									{!isCodecSupported(capabilities, option) && ' (unavailable)'}
+								</option>
+							))}
+						</select>
+					</div>
+					<div className="form-control">
+						<label className="label">
+							<span className="label-text">Pixel Format</span>
+						</label>
+						<select
+							className="select select-bordered"
+							value={pixelFormat}
+							onChange={(e) => change({ codec, pixelFormat: e.target.value as PixelFormat }, 'Change pixel format')}
+							disabled={disabled || CODEC_PIXEL_FORMATS[codec].length < 2}
+						>
+							{CODEC_PIXEL_FORMATS[codec].map(option => (
+								<option key={option} value={option}>
+									{PIXEL_FORMAT_LABELS[option]}
+								</option>
+							))}
+						</select>
+					</div>
 					<div className="form-control">
 						<label className="label">
 							<span className="label-text">Width</span>
@@ -51,7 +245,7 @@ export function ExportSettings({ settings, onSettingsChange, disabled = false }:
 							type="number"
 							className="input input-bordered"
 							value={settings.width}
-							onChange={(e) => onSettingsChange({ ...settings, width: parseInt(e.target.value) || 1920 })}
+							onChange={(e) => change({ width: parseInt(e.target.value) || 1920 }, 'Change width', 'export:width')}
 							min="100"
 							max="3840"
 							disabled={disabled}
@@ -65,7 +259,7 @@ export function ExportSettings({ settings, onSettingsChange, disabled = false }:
 							type="number"
 							className="input input-bordered"
 							value={settings.height}
-							onChange={(e) => onSettingsChange({ ...settings, height: parseInt(e.target.value) || 1080 })}
+							onChange={(e) => change({ height: parseInt(e.target.value) || 1080 }, 'Change height', 'export:height')}
 							min="100"
 							max="2160"
 							disabled={disabled}
@@ -79,7 +273,7 @@ export function ExportSettings({ settings, onSettingsChange, disabled = false }:
 							type="number"
 							className="input input-bordered"
 							value={settings.fps}
-							onChange={(e) => onSettingsChange({ ...settings, fps: parseInt(e.target.value) || 30 })}
+							onChange={(e) => change({ fps: parseInt(e.target.value) || 30 }, 'Change FPS', 'export:fps')}
 							min="1"
 							max="60"
 							disabled={disabled}
@@ -93,13 +287,154 @@ export function ExportSettings({ settings, onSettingsChange, disabled = false }:
 							type="range"
 							className="range range-primary"
 							value={settings.quality}
-							onChange={(e) => onSettingsChange({ ...settings, quality: parseInt(e.target.value) })}
+							onChange={(e) => change({ quality: parseInt(e.target.value) }, 'Change quality', 'export:quality')}
 							min="1"
 							max="100"
 							disabled={disabled}
 						/>
 						<div className="text-xs text-center mt-1">{settings.quality}%</div>
 					</div>
+					<div className="form-control col-span-2">
+						<label className="label">
+							<span className="label-text">Rate Control</span>
+						</label>
+						<select
+							className="select select-bordered"
+							value={rateControl.mode}
+							onChange={(e) => handleRateControlModeChange(e.target.value as RateControl['mode'])}
+							disabled={disabled || isQualityOnly}
+						>
+							<option value="quality">Constant quality</option>
+							<option value="bitrate">Quality with bitrate cap</option>
+							<option value="targetSize">Target file size (two-pass)</option>
+						</select>
+						<label className="label">
+							<span className="label-text-alt text-base-content/70">
+								{isQualityOnly
+									? `${VIDEO_CODECS[codec].label} always encodes at constant quality`
+									: RATE_CONTROL_DESCRIPTIONS[rateControl.mode]}
+							</span>
+						</label>
+					</div>
+					{codec === 'gif' && (
+						<>
+							<div className="form-control col-span-2">
+								<label className="label">
+									<span className="label-text">Dithering</span>
+								</label>
+								<select
+									className="select select-bordered"
+									value={gifOptions.dither}
+									onChange={(e) => handleGifOptionChange({ dither: e.target.value as GifDither })}
+									disabled={disabled}
+								>
+									{GifDitherSchema.options.map(option => (
+										<option key={option} value={option}>
+											{GIF_DITHER_LABELS[option]}
+										</option>
+									))}
+								</select>
+							</div>
+							<div className="form-control">
+								<label className="label">
+									<span className="label-text">Max Colors</span>
+								</label>
+								<input
+									type="number"
+									className="input input-bordered"
+									value={gifOptions.maxColors}
+									onChange={(e) => handleGifOptionChange({ maxColors: parseInt(e.target.value) || DEFAULT_GIF_OPTIONS.maxColors })}
+									min="2"
+									max="256"
+									disabled={disabled}
+								/>
+							</div>
+							<div className="form-control">
+								<label className="label">
+									<span className="label-text">Max FPS</span>
+								</label>
+								<input
+									type="number"
+									className="input input-bordered"
+									value={gifOptions.maxFps}
+									onChange={(e) => handleGifOptionChange({ maxFps: parseInt(e.target.value) || DEFAULT_GIF_OPTIONS.maxFps })}
+									min="1"
+									max="50"
+									disabled={disabled}
+								/>
+							</div>
+							<div className="form-control col-span-2">
+								<label className="label">
+									<span className="label-text">Max Width</span>
+								</label>
+								<input
+									type="number"
+									className="input input-bordered"
+									value={gifOptions.maxWidth}
+									onChange={(e) => handleGifOptionChange({ maxWidth: parseInt(e.target.value) || DEFAULT_GIF_OPTIONS.maxWidth })}
+									min="100"
+									max="3840"
+									disabled={disabled}
+								/>
+								<label className="label">
+									<span className="label-text-alt text-base-content/70">
+										Larger exports are scaled down and slowed to these limits to keep the file small
+									</span>
+								</label>
+							</div>
+						</>
+					)}
+					{codec === 'webp' && (
+						<div className="form-control col-span-2">
+							<label className="label cursor-pointer justify-start gap-2">
+								<input
+									type="checkbox"
+									className="toggle toggle-primary"
+									checked={webpOptions.lossless}
+									onChange={(e) => handleWebpLosslessChange(e.target.checked)}
+									disabled={disabled}
+								/>
+								<span className="label-text">Lossless</span>
+							</label>
+						</div>
+					)}
+					{rateControl.mode === 'bitrate' && (
+						<div className="form-control col-span-2">
+							<label className="label">
+								<span className="label-text">Max Bitrate (kbps)</span>
+							</label>
+							<input
+								type="number"
+								className="input input-bordered"
+								value={rateControl.maxBitrateKbps}
+								onChange={(e) => change({
+									rateControl: { mode: 'bitrate', maxBitrateKbps: parseInt(e.target.value) || DEFAULT_MAX_BITRATE_KBPS }
+								}, 'Change max bitrate', 'export:bitrate')}
+								min="100"
+								max="100000"
+								disabled={disabled}
+							/>
+						</div>
+					)}
+					{rateControl.mode === 'targetSize' && (
+						<div className="form-control col-span-2">
+							<label className="label">
+								<span className="label-text">Target Size (MB)</span>
+							</label>
+							<input
+								type="number"
+								className="input input-bordered"
+								value={rateControl.targetSizeMB}
+								onChange={(e) => change({
+									rateControl: { mode: 'targetSize', targetSizeMB: parseFloat(e.target.value) || DEFAULT_TARGET_SIZE_MB }
+								}, 'Change target size', 'export:targetSize')}
+								min="0.1"
+								max="4096"
+								step="0.1"
+								disabled={disabled}
+							/>
+						</div>
+					)}
 				</div>
 			)}
 		</div>
@@ -0,0 +1,50 @@
+'use client';
+
+import type { History } from '@/lib/history/history';
+
+interface HistoryPanelProps<T> {
+	history: History<T>;
+	onJump: (index: number) => void;
+	disabled?: boolean;
+}
+
+/** The editing history, newest first; clicking an entry moves the workspace back (or forward) to it. */
+export function HistoryPanel<T>({ history, onJump, disabled = false }: HistoryPanelProps<T>) {
+	const { entries, index } = history;
+	return (
+		<div className="space-y-2">
+			<div className="flex items-center gap-2">
+				<span className="label-text flex-1">History</span>
+				<button
+					className="btn btn-xs"
+					onClick={() => onJump(index - 1)}
+					disabled={disabled || index === 0}
+					title="Undo (Ctrl+Z)"
+				>
+					Undo
+				</button>
+				<button
+					className="btn btn-xs"
+					onClick={() => onJump(index + 1)}
+					disabled={disabled || index === entries.length - 1}
+					title="Redo (Ctrl+Shift+Z)"
+				>
+					Redo
+				</button>
+			</div>
+			<ul className="max-h-48 space-y-1 overflow-y-auto">
+				{entries.map((entry, position) => ({ entry, position })).reverse().map(({ entry, position }) => (
+					<li key={entry.id}>
+						<button
+							className={`w-full truncate rounded px-2 py-1 text-left text-xs ${position === index ? 'bg-primary/20 font-bold' : 'hover:bg-base-200'} ${position > index ? 'opacity-50' : ''}`}
+							onClick={() => onJump(position)}
+							disabled={disabled}
+						>
+							{entry.label}
+						</button>
+					</li>
+				))}
+			</ul>
+		</div>
+	);
+}
@@ -1,10 +1,13 @@
 'use client';
 
 import { useState, useCallback } from 'react';
-import { useDropzone } from 'react-dropzone';
+import { ErrorCode, FileRejection, useDropzone } from 'react-dropzone';
 
 interface ImageUploadProps {
 	onImageSelect: (file: File) => void;
+	// Accept several images at once; onImageSelect runs once per image, in drop order
+	multiple?: boolean;
+	maxFiles?: number;
 	disabled?: boolean;
 }
 
@@ -15,7 +18,7 @@ const ACCEPTED_TYPES = {
 	'image/webp': ['.webp']
 };
 
-export function ImageUpload({ onImageSelect, disabled = false }: ImageUploadProps) {
+export function ImageUpload({ onImageSelect, multiple = false, maxFiles = 1, disabled = false }: ImageUploadProps) {
 	const [preview, setPreview] = useState<string | null>(null);
 	const [error, setError] = useState<string | null>(null);
 	const [loading, setLoading] = useState(false);
@@ -38,37 +41,57 @@ export function ImageUpload({ onImageSelect, disabled = false }: ImageUploadProp
 		});
 	};
 
-	const onDrop = useCallback(async (acceptedFiles: File[]) => {
-		const file = acceptedFiles[0];
-		if (!file) return;
+	const onDrop = useCallback(async (acceptedFiles: File[], fileRejections: FileRejection[]) => {
+		// Past maxFiles react-dropzone rejects the whole drop, so keep the first maxFiles that are otherwise fine
+		const overLimit = fileRejections
+			.filter(({ errors }) => errors.every(({ code }) => code === ErrorCode.TooManyFiles))
+			.map(({ file }) => file);
+		const invalid = fileRejections.find(({ errors }) => errors.some(({ code }) => code !== ErrorCode.TooManyFiles));
+		const dropped = overLimit.length > 0 ? overLimit.slice(0, maxFiles) : acceptedFiles;
+		const files = multiple ? dropped : dropped.slice(0, 1);
+
+		setError(multiple && overLimit.length > maxFiles
+			? `Only ${maxFiles} image${maxFiles === 1 ? '' : 's'} fit; kept the first ${maxFiles} of the ${overLimit.length} dropped`
+			: invalid ? `${invalid.file.name}: ${invalid.errors[0].message}` : null);
+		if (files.length === 0) return;
 
-		setError(null);
 		setLoading(true);
 
-		try {
-			await validateFile(file);
-			
-			const reader = new FileReader();
-			reader.onloadend = () => {
-				setPreview(reader.result as string);
-				setLoading(false);
-			};
-			reader.onerror = () => {
-				setError('Failed to read file');
-				setLoading(false);
-			};
-			reader.readAsDataURL(file);
-			onImageSelect(file);
-		} catch (err) {
-			setError(err instanceof Error ? err.message : 'Failed to process image');
+		const accepted: File[] = [];
+		for (const file of files) {
+			try {
+				await validateFile(file);
+				accepted.push(file);
+			} catch (err) {
+				const message = err instanceof Error ? err.message : 'Failed to process image';
+				setError(files.length > 1 ? `${file.name}: ${message}` : message);
+			}
+		}
+
+		const last = accepted[accepted.length - 1];
+		if (!last) {
 			setLoading(false);
+			return;
 		}
-	}, [onImageSelect]);
+
+		const reader = new FileReader();
+		reader.onloadend = () => {
+			setPreview(reader.result as string);
+			setLoading(false);
+		};
+		reader.onerror = () => {
+			setError('Failed to read file');
+			setLoading(false);
+		};
+		reader.readAsDataURL(last);
+		accepted.forEach(file => onImageSelect(file));
+	}, [onImageSelect, multiple, maxFiles]);
 
 	const { getRootProps, getInputProps, isDragActive } = useDropzone({
 		onDrop,
 		accept: ACCEPTED_TYPES,
-		maxFiles: 1,
+		maxFiles,
+		multiple,
 		disabled: disabled || loading,
 		maxSize: MAX_FILE_SIZE,
 	});
@@ -97,7 +120,9 @@ export function ImageUpload({ onImageSelect, disabled = false }: ImageUploadProp
 							className="max-h-64 mx-auto object-contain rounded-lg"
 						/>
 						<p className="text-sm">
-							{disabled ? 'Image upload disabled during processing' : 'Drop a new image to replace'}
+							{disabled
+								? 'Image upload disabled during processing'
+								: multiple ? 'Drop more images to add clips' : 'Drop a new image to replace'}
 						</p>
 					</div>
 				) : (
@@ -117,7 +142,7 @@ export function ImageUpload({ onImageSelect, disabled = false }: ImageUploadProp
 							/>
 						</svg>
 						<div className="text-lg">
-							{disabled ? 'Image upload disabled' : 'Drop an image here'}
+							{disabled ? 'Image upload disabled' : multiple ? 'Drop images here' : 'Drop an image here'}
 						</div>
 						<p className="text-sm text-base-content/70">
 							PNG, JPG, or WebP (max 10MB)
@@ -0,0 +1,135 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { ExportSettings } from '@/types/effects';
+import { ProjectClip } from '@/types/timeline';
+import { ProjectWatermark } from '@/types/watermark';
+import { Filmstrip } from '@/types/preview';
+import { ffmpegService } from '@/lib/ffmpeg/ffmpeg-service';
+import { toTimelineClip } from '@/lib/timeline/clips';
+
+// Let slider drags settle before asking the server for a render
+const PROXY_DEBOUNCE_MS = 600;
+
+const FILMSTRIP_FRAMES = 8;
+const FILMSTRIP_FRAME_HEIGHT = 72;
+
+interface ProxyPreviewProps {
+	clip: ProjectClip;
+	settings: ExportSettings;
+	watermark?: ProjectWatermark | null;
+	/** Render a strip of stills under the video too */
+	showFilmstrip?: boolean;
+}
+
+/** Plays a server-rendered proxy of the clip, re-rendered whenever the clip or settings settle. */
+export function ProxyPreview({ clip, settings, watermark = null, showFilmstrip = true }: ProxyPreviewProps) {
+	const videoRef = useRef<HTMLVideoElement>(null);
+	const [videoUrl, setVideoUrl] = useState<string | null>(null);
+	const [filmstrip, setFilmstrip] = useState<Filmstrip | null>(null);
+	const [rendering, setRendering] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	// Re-render only when what the server is sent changes, not on every new object
+	const requestKey = JSON.stringify([toTimelineClip(clip), settings]);
+	const request = useRef({ clip, settings, watermark });
+	request.current = { clip, settings, watermark };
+
+	useEffect(() => {
+		const controller = new AbortController();
+		const { signal } = controller;
+		const timer = setTimeout(async () => {
+			const { clip, settings, watermark } = request.current;
+			setRendering(true);
+			setError(null);
+			try {
+				const video = await ffmpegService.renderProxy(clip, settings, watermark, signal);
+				if (signal.aborted) return;
+				setVideoUrl(URL.createObjectURL(video));
+
+				if (!showFilmstrip) return;
+				const times = Array.from({ length: FILMSTRIP_FRAMES }, (_, index) => index * clip.duration / FILMSTRIP_FRAMES);
+				const strip = await ffmpegService.renderFilmstrip(clip, settings, watermark, { times, frameHeight: FILMSTRIP_FRAME_HEIGHT }, signal);
+				if (signal.aborted) {
+					URL.revokeObjectURL(strip.imageUrl);
+					return;
+				}
+				setFilmstrip(strip);
+			} catch (err) {
+				// Superseded by newer settings; that render reports for itself
+				if (signal.aborted) return;
+				console.error('Proxy preview error:', err);
+				setError(err instanceof Error ? err.message : 'Failed to render the preview');
+			} finally {
+				if (!signal.aborted) setRendering(false);
+			}
+		}, PROXY_DEBOUNCE_MS);
+		return () => {
+			clearTimeout(timer);
+			controller.abort();
+		};
+	}, [requestKey, watermark, showFilmstrip]);
+
+	useEffect(() => () => {
+		if (videoUrl) URL.revokeObjectURL(videoUrl);
+	}, [videoUrl]);
+
+	useEffect(() => () => {
+		if (filmstrip) URL.revokeObjectURL(filmstrip.imageUrl);
+	}, [filmstrip]);
+
+	const seek = (time: number) => {
+		const video = videoRef.current;
+		if (!video) return;
+		video.pause();
+		video.currentTime = time;
+	};
+
+	return (
+		<div className="space-y-2">
+			<div className="relative w-full aspect-video bg-base-300 rounded-lg overflow-hidden">
+				{videoUrl && (
+					<video
+						ref={videoRef}
+						src={videoUrl}
+						className="w-full h-full object-contain bg-black"
+						autoPlay
+						loop
+						muted
+						playsInline
+						controls
+					/>
+				)}
+				{!videoUrl && !error && (
+					<div className="absolute inset-0 flex items-center justify-center text-base-content/70">
+						Rendering preview...
+					</div>
+				)}
+				{rendering && videoUrl && (
+					<span className="badge badge-neutral badge-sm absolute top-2 right-2">Updating...</span>
+				)}
+				{error && (
+					<div className="absolute inset-x-0 bottom-0 bg-base-300/90 p-2 text-sm text-error">{error}</div>
+				)}
+			</div>
+
+			{filmstrip && (
+				<div className="relative">
+					<img src={filmstrip.imageUrl} alt="Filmstrip" className="w-full rounded" />
+					{/* One button per still, over its cell of the single-row sheet */}
+					<div className="absolute inset-0 flex">
+						{filmstrip.times.map(time => (
+							<button
+								key={time}
+								className="flex-1 hover:outline hover:outline-2 hover:outline-primary"
+								onClick={() => seek(time)}
+								title={`${time.toFixed(2)}s`}
+								aria-label={`Show ${time.toFixed(2)}s`}
+							/>
+						))}
+					</div>
+				</div>
+			)}
+		</div>
+	);
+}
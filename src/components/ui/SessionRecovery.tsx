@@ -0,0 +1,80 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { SessionSnapshot } from '@/lib/session/autosave';
+
+interface SessionRecoveryProps {
+	/** Newest first */
+	snapshots: SessionSnapshot[];
+	onRestore: (snapshot: SessionSnapshot) => void;
+	onDiscard: () => void;
+	onClose: () => void;
+	restoring?: boolean;
+}
+
+function timeAgo(savedAt: number): string {
+	const minutes = Math.round((Date.now() - savedAt) / 60_000);
+	if (minutes < 1) return 'just now';
+	if (minutes < 60) return `${minutes} min ago`;
+	const hours = Math.round(minutes / 60);
+	return hours < 24 ? `${hours} h ago` : `${Math.round(hours / 24)} d ago`;
+}
+
+/** Offers the auto-saved snapshots, the latest highlighted, to bring a lost session back. */
+export function SessionRecovery({ snapshots, onRestore, onDiscard, onClose, restoring = false }: SessionRecoveryProps) {
+	const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+
+	useEffect(() => {
+		const urls: Record<string, string> = {};
+		snapshots.forEach(snapshot => {
+			if (snapshot.thumbnail) urls[snapshot.id] = URL.createObjectURL(snapshot.thumbnail);
+		});
+		setThumbnails(urls);
+		return () => Object.values(urls).forEach(url => URL.revokeObjectURL(url));
+	}, [snapshots]);
+
+	return (
+		<div className="modal modal-open">
+			<div className="modal-box max-w-lg">
+				<h3 className="text-lg font-bold">Restore previous session</h3>
+				<p className="text-sm text-base-content/70 mt-1">
+					Your work is saved in this browser as you go. Pick a snapshot to continue from.
+				</p>
+				<ul className="mt-4 space-y-2">
+					{snapshots.map((snapshot, index) => (
+						<li key={snapshot.id}>
+							<button
+								className={`flex w-full items-center gap-3 rounded-lg p-2 text-left ${index === 0 ? 'bg-primary/20' : 'bg-base-200'} hover:bg-base-300`}
+								onClick={() => onRestore(snapshot)}
+								disabled={restoring}
+							>
+								<div className="h-12 w-20 shrink-0 overflow-hidden rounded bg-base-300">
+									{thumbnails[snapshot.id] && (
+										<img src={thumbnails[snapshot.id]} alt="" className="h-full w-full object-cover" />
+									)}
+								</div>
+								<div className="min-w-0 flex-1">
+									<div className="text-sm font-bold">
+										{new Date(snapshot.savedAt).toLocaleString()}
+										{index === 0 && <span className="badge badge-primary badge-sm ml-2">Latest</span>}
+									</div>
+									<div className="text-xs opacity-70">
+										{timeAgo(snapshot.savedAt)}, {snapshot.clipCount} clip{snapshot.clipCount === 1 ? '' : 's'}
+									</div>
+								</div>
+							</button>
+						</li>
+					))}
+				</ul>
+				<div className="modal-action">
+					<button className="btn btn-ghost btn-sm" onClick={onDiscard} disabled={restoring}>
+						Discard all
+					</button>
+					<button className="btn btn-sm" onClick={onClose} disabled={restoring}>
+						{restoring ? <span className="loading loading-spinner loading-sm"></span> : 'Not now'}
+					</button>
+				</div>
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,118 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import type { CSSProperties } from 'react';
+import { TextFont, TextOverlay } from '@/types/text';
+import { AnchorAlignment, TEXT_ANCHORS, TEXT_SHADOW_OFFSET, TEXT_SHADOW_OPACITY, evaluateTextMotion } from '@/lib/text/overlays';
+import { PreviewClock } from '@/lib/preview/clock';
+
+// CSS font stacks for each overlay font; the Geist variables come from the root layout
+const FONT_STACKS: Record<TextFont, string> = {
+	GEIST_SANS: 'var(--font-geist-sans), sans-serif',
+	GEIST_MONO: 'var(--font-geist-mono), monospace',
+	SANS: 'sans-serif',
+	SERIF: 'serif',
+};
+
+// Aspect ratio of the preview box the overlay sits in
+const PREVIEW_ASPECT = 16 / 9;
+
+/** Places the text box like drawtext: `margin` from the anchored edge, or centered. */
+function anchorStyle(alignment: AnchorAlignment, margin: number, [startEdge, endEdge]: ['left', 'right'] | ['top', 'bottom']): CSSProperties {
+	switch (alignment) {
+		case 'start': return { [startEdge]: `${margin}cqh` };
+		case 'center': return { [startEdge]: '50%' };
+		case 'end': return { [endEdge]: `${margin}cqh` };
+	}
+}
+
+function overlayStyle(overlay: TextOverlay): CSSProperties {
+	const { horizontal, vertical } = TEXT_ANCHORS[overlay.anchor];
+	return {
+		position: 'absolute',
+		...anchorStyle(horizontal, overlay.margin, ['left', 'right']),
+		...anchorStyle(vertical, overlay.margin, ['top', 'bottom']),
+		fontFamily: FONT_STACKS[overlay.font],
+		fontSize: `${overlay.size}cqh`,
+		lineHeight: 1.2,
+		color: overlay.color,
+		// drawtext left-aligns every line of a block
+		whiteSpace: 'pre',
+		textAlign: 'left',
+		// drawtext strokes outside the glyphs; a doubled stroke painted under the fill matches it
+		WebkitTextStroke: overlay.strokeWidth > 0 ? `${overlay.strokeWidth * 2}cqh ${overlay.strokeColor}` : undefined,
+		paintOrder: 'stroke fill',
+		textShadow: overlay.shadow
+			? `${TEXT_SHADOW_OFFSET}cqh ${TEXT_SHADOW_OFFSET}cqh 0 rgba(0, 0, 0, ${TEXT_SHADOW_OPACITY})`
+			: undefined,
+	};
+}
+
+interface TextOverlayPreviewProps {
+	overlays: TextOverlay[];
+	/** Seconds the clip plays; the preview loops over it */
+	clipDuration: number;
+	/** Export width / height, so text is placed on the exported frame */
+	frameAspect: number;
+	/** Player clock to follow; without one the overlays loop on their own */
+	clock?: PreviewClock;
+}
+
+export function TextOverlayPreview({ overlays, clipDuration, frameAspect, clock }: TextOverlayPreviewProps) {
+	const elements = useRef<(HTMLDivElement | null)[]>([]);
+
+	// Drive every overlay from one clock with the same motion math the export uses
+	useEffect(() => {
+		let frame = 0;
+		const startedAt = performance.now();
+		const tick = (now: number) => {
+			const time = clock ? clock.time(now) : ((now - startedAt) / 1000) % clipDuration;
+			overlays.forEach((overlay, index) => {
+				const element = elements.current[index];
+				if (!element) return;
+				const motion = evaluateTextMotion(overlay, time);
+				if (!motion) {
+					element.style.visibility = 'hidden';
+					return;
+				}
+				const { horizontal, vertical } = TEXT_ANCHORS[overlay.anchor];
+				const centerX = horizontal === 'center' ? '-50%' : '0px';
+				const centerY = vertical === 'center' ? '-50%' : '0px';
+				element.style.visibility = 'visible';
+				element.style.opacity = String(motion.alpha);
+				element.style.transform = `translate(calc(${centerX} + ${motion.dx * 100}cqw), calc(${centerY} + ${motion.dy * 100}cqh))`;
+				if (element.textContent !== motion.text) element.textContent = motion.text;
+			});
+			frame = requestAnimationFrame(tick);
+		};
+		frame = requestAnimationFrame(tick);
+		return () => cancelAnimationFrame(frame);
+	}, [overlays, clipDuration, clock]);
+
+	if (overlays.length === 0) return null;
+
+	// Fit a box with the export's aspect ratio inside the preview, like the padded export frame
+	const fitsWidth = frameAspect >= PREVIEW_ASPECT;
+	return (
+		<div className="absolute inset-0 flex items-center justify-center pointer-events-none overflow-hidden">
+			<div
+				className="relative"
+				style={{
+					aspectRatio: `${frameAspect}`,
+					width: fitsWidth ? '100%' : 'auto',
+					height: fitsWidth ? 'auto' : '100%',
+					containerType: 'size',
+				}}
+			>
+				{overlays.map((overlay, index) => (
+					<div
+						key={overlay.id}
+						ref={element => { elements.current[index] = element; }}
+						// The clock fills in the visible text, which typewriter animations change
+						style={{ ...overlayStyle(overlay), visibility: 'hidden' }}
+					/>
+				))}
+			</div>
+		</div>
+	);
+}
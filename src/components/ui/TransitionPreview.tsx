@@ -0,0 +1,125 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { Transition, TransitionType } from '@/types/timeline';
+import { applyEasing } from '@/lib/effects/keyframes';
+
+// Seconds each still is held before and after the transition plays
+const HOLD_SECONDS = 1;
+const TRANSITION_STEPS = 30;
+
+interface TransitionFrame {
+	first: string;
+	second: string;
+}
+
+/** CSS for the outgoing (first) and incoming (second) image at eased progress `e`, matching xfade. */
+function transitionFrame(type: TransitionType, e: number): TransitionFrame {
+	const hidden = (1 - e) * 100;
+	switch (type) {
+		case 'DIP_TO_BLACK':
+		case 'DIP_TO_WHITE':
+			return {
+				first: `opacity: ${Math.max(1 - 2 * e, 0)};`,
+				second: `opacity: ${Math.max(2 * e - 1, 0)};`
+			};
+		case 'WIPE_LEFT': return { first: '', second: `clip-path: inset(0 0 0 ${hidden}%);` };
+		case 'WIPE_RIGHT': return { first: '', second: `clip-path: inset(0 ${hidden}% 0 0);` };
+		case 'WIPE_UP': return { first: '', second: `clip-path: inset(${hidden}% 0 0 0);` };
+		case 'WIPE_DOWN': return { first: '', second: `clip-path: inset(0 0 ${hidden}% 0);` };
+		case 'SLIDE_LEFT':
+			return { first: `transform: translateX(${-e * 100}%);`, second: `transform: translateX(${hidden}%);` };
+		case 'SLIDE_RIGHT':
+			return { first: `transform: translateX(${e * 100}%);`, second: `transform: translateX(${-hidden}%);` };
+		case 'SLIDE_UP':
+			return { first: `transform: translateY(${-e * 100}%);`, second: `transform: translateY(${hidden}%);` };
+		case 'SLIDE_DOWN':
+			return { first: `transform: translateY(${e * 100}%);`, second: `transform: translateY(${-hidden}%);` };
+		// 70.71% of the reference length reaches the corners
+		case 'CIRCLE_REVEAL': return { first: '', second: `clip-path: circle(${e * 70.71}% at 50% 50%);` };
+		case 'ZOOM_THROUGH':
+			return { first: `transform: scale(${1 + e}); opacity: ${1 - e};`, second: `opacity: ${e};` };
+		default:
+			return { first: '', second: `opacity: ${e};` };
+	}
+}
+
+/** Keyframes for both images: hold, transition along the eased curve, hold. */
+function generateTransitionKeyframes({ type, easing }: Transition, duration: number): TransitionFrame {
+	const total = HOLD_SECONDS * 2 + duration;
+	const first: string[] = [];
+	const second: string[] = [];
+	const add = (time: number, e: number) => {
+		const percent = (time / total * 100).toFixed(2);
+		const frame = transitionFrame(type, e);
+		first.push(`${percent}% { ${frame.first} }`);
+		second.push(`${percent}% { ${frame.second} }`);
+	};
+
+	add(0, 0);
+	for (let step = 0; step <= TRANSITION_STEPS; step++) {
+		const t = step / TRANSITION_STEPS;
+		add(HOLD_SECONDS + t * duration, applyEasing(easing, t));
+	}
+	add(total, 1);
+	return { first: `{\n${first.join('\n')}\n}`, second: `{\n${second.join('\n')}\n}` };
+}
+
+interface TransitionPreviewProps {
+	fromUrl: string;
+	toUrl: string;
+	transition: Transition;
+	/** Overlap the export will use, after shortening to fit the clips */
+	duration: number;
+}
+
+export function TransitionPreview({ fromUrl, toUrl, transition, duration }: TransitionPreviewProps) {
+	const firstRef = useRef<HTMLImageElement>(null);
+	const secondRef = useRef<HTMLImageElement>(null);
+
+	useEffect(() => {
+		const first = firstRef.current;
+		const second = secondRef.current;
+		if (!first || !second) return;
+
+		const keyframes = generateTransitionKeyframes(transition, duration);
+		const total = HOLD_SECONDS * 2 + duration;
+		const styleElement = document.createElement('style');
+		styleElement.id = 'transition-preview-style';
+		styleElement.textContent = [
+			`@keyframes transition-preview-first ${keyframes.first}`,
+			`@keyframes transition-preview-second ${keyframes.second}`
+		].join('\n');
+		document.head.appendChild(styleElement);
+
+		// Sampled frames are already eased, so they play back linearly
+		first.style.animation = `transition-preview-first ${total}s linear infinite`;
+		second.style.animation = `transition-preview-second ${total}s linear infinite`;
+
+		return () => {
+			first.style.animation = 'none';
+			second.style.animation = 'none';
+			styleElement.remove();
+		};
+	}, [transition, duration]);
+
+	return (
+		<div
+			className="relative w-full h-full overflow-hidden"
+			style={{ backgroundColor: transition.type === 'DIP_TO_WHITE' ? 'white' : 'black' }}
+		>
+			<img
+				ref={firstRef}
+				src={fromUrl}
+				alt="Outgoing clip"
+				className="absolute inset-0 w-full h-full object-contain"
+			/>
+			<img
+				ref={secondRef}
+				src={toUrl}
+				alt="Incoming clip"
+				className="absolute inset-0 w-full h-full object-contain"
+			/>
+		</div>
+	);
+}
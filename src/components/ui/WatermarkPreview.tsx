@@ -0,0 +1,75 @@
+'use client';
+
+import { useState } from 'react';
+import type { CSSProperties } from 'react';
+import { WatermarkOptions } from '@/types/watermark';
+
+// Aspect ratio of the preview box the watermark sits in
+const PREVIEW_ASPECT = 16 / 9;
+
+/** Places the logo like the export's overlay; `logoAspect` is the image's width / height. */
+function watermarkStyle(options: WatermarkOptions, logoAspect: number): CSSProperties {
+	const { anchor, margin, scale, x, y } = options;
+	// Logo size in container units: the width is a share of the frame width, the height follows
+	const width = `${scale}cqw`;
+	const height = `${scale / logoAspect}cqw`;
+	const edge = `${margin}cqh`;
+
+	if (anchor === 'CUSTOM') {
+		return {
+			width,
+			left: `clamp(${edge}, calc(${x * 100}cqw - ${width} / 2), calc(100cqw - ${width} - ${edge}))`,
+			top: `clamp(${edge}, calc(${y * 100}cqh - ${height} / 2), calc(100cqh - ${height} - ${edge}))`,
+		};
+	}
+	return {
+		width,
+		[anchor.endsWith('RIGHT') ? 'right' : 'left']: edge,
+		[anchor.startsWith('BOTTOM') ? 'bottom' : 'top']: edge,
+	};
+}
+
+export interface WatermarkPreviewProps {
+	imageUrl: string;
+	options: WatermarkOptions;
+	/** Export width / height, so the logo is placed on the exported frame */
+	frameAspect: number;
+}
+
+export function WatermarkPreview({ imageUrl, options, frameAspect }: WatermarkPreviewProps) {
+	const [logoAspect, setLogoAspect] = useState(1);
+
+	// Fit a box with the export's aspect ratio inside the preview, like the padded export frame
+	const fitsWidth = frameAspect >= PREVIEW_ASPECT;
+	return (
+		<div className="absolute inset-0 z-10 flex items-center justify-center pointer-events-none overflow-hidden">
+			<style>{'@keyframes watermark-fade-in { from { opacity: 0; } }'}</style>
+			<div
+				className="relative"
+				style={{
+					aspectRatio: `${frameAspect}`,
+					width: fitsWidth ? '100%' : 'auto',
+					height: fitsWidth ? 'auto' : '100%',
+					containerType: 'size',
+				}}
+			>
+				{/* Remounts when the fade changes, so the new fade plays once */}
+				<img
+					key={options.fadeIn}
+					src={imageUrl}
+					alt="Watermark"
+					className="absolute"
+					style={{
+						...watermarkStyle(options, logoAspect),
+						opacity: options.opacity,
+						animation: options.fadeIn > 0 ? `watermark-fade-in ${options.fadeIn}s linear` : undefined,
+					}}
+					onLoad={(e) => {
+						const { naturalWidth, naturalHeight } = e.currentTarget;
+						if (naturalWidth > 0 && naturalHeight > 0) setLogoAspect(naturalWidth / naturalHeight);
+					}}
+				/>
+			</div>
+		</div>
+	);
+}
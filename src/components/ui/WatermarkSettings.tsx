@@ -0,0 +1,238 @@
+'use client';
+
+import { useState } from 'react';
+import type { ChangeEvent } from 'react';
+import { DEFAULT_WATERMARK_OPTIONS, ProjectWatermark, WatermarkAnchor, WatermarkAnchorSchema, WatermarkOptions } from '@/types/watermark';
+import { loadWatermarkImage } from '@/lib/watermark/image';
+
+const MAX_WATERMARK_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+const ACCEPTED_WATERMARK = '.png,.svg,image/png,image/svg+xml';
+
+const WATERMARK_ANCHOR_LABELS: Record<WatermarkAnchor, string> = {
+	TOP_LEFT: 'Top left',
+	TOP_RIGHT: 'Top right',
+	BOTTOM_LEFT: 'Bottom left',
+	BOTTOM_RIGHT: 'Bottom right',
+	CUSTOM: 'Custom position',
+};
+
+interface WatermarkSettingsProps {
+	watermark: ProjectWatermark | null;
+	onWatermarkChange: (watermark: ProjectWatermark | null) => void;
+	/** Placement from the export settings, so it is saved with presets */
+	options?: WatermarkOptions;
+	onOptionsChange: (options: WatermarkOptions | undefined) => void;
+	/** Why the watermark can't be rendered, if it can't */
+	unsupportedReason?: string | null;
+	disabled?: boolean;
+}
+
+export function WatermarkSettings({
+	watermark,
+	onWatermarkChange,
+	options,
+	onOptionsChange,
+	unsupportedReason = null,
+	disabled = false
+}: WatermarkSettingsProps) {
+	const [loading, setLoading] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const current = options ?? DEFAULT_WATERMARK_OPTIONS;
+
+	const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		e.target.value = '';
+		if (!file) return;
+		if (file.size > MAX_WATERMARK_FILE_SIZE) {
+			setError('Watermark image must be less than 5MB');
+			return;
+		}
+
+		setError(null);
+		setLoading(true);
+		try {
+			// The old preview URL stays valid for undo; the page releases it once history drops it
+			const loaded = await loadWatermarkImage(file);
+			onWatermarkChange(loaded);
+			// A preset may already carry a placement; otherwise start from the defaults
+			if (!options) onOptionsChange(DEFAULT_WATERMARK_OPTIONS);
+		} catch (err) {
+			console.error('Watermark load error:', err);
+			setError(err instanceof Error ? err.message : 'Failed to read watermark image');
+		} finally {
+			setLoading(false);
+		}
+	};
+
+	const handleRemove = () => {
+		onWatermarkChange(null);
+		onOptionsChange(undefined);
+	};
+
+	const updateOptions = (changes: Partial<WatermarkOptions>) => {
+		onOptionsChange({ ...current, ...changes });
+	};
+
+	if (!watermark) {
+		return (
+			<div className="form-control">
+				<label className="label">
+					<span className="label-text">Watermark</span>
+				</label>
+				<input
+					type="file"
+					accept={ACCEPTED_WATERMARK}
+					className="file-input file-input-bordered file-input-sm w-full"
+					onChange={handleFileChange}
+					disabled={disabled || loading}
+				/>
+				<span className="label-text-alt mt-1 text-base-content/70">
+					{loading ? 'Reading image...' : 'A PNG or SVG logo with a transparent background'}
+				</span>
+				{error && <span className="label-text-alt text-error mt-1">{error}</span>}
+			</div>
+		);
+	}
+
+	return (
+		<div className="space-y-3 rounded-lg bg-base-200 p-3">
+			<div className="flex items-center justify-between gap-2 text-sm">
+				<div className="flex min-w-0 items-center gap-2">
+					<img src={watermark.previewUrl} alt="" className="h-8 w-8 shrink-0 rounded bg-base-300 object-contain" />
+					<span className="truncate" title={watermark.fileName}>{watermark.fileName}</span>
+				</div>
+				<button
+					className="btn btn-ghost btn-xs"
+					onClick={handleRemove}
+					disabled={disabled}
+					aria-label="Remove watermark"
+				>
+					✕
+				</button>
+			</div>
+
+			{unsupportedReason && (
+				<div className="text-xs text-warning">{unsupportedReason}</div>
+			)}
+
+			<div className="form-control">
+				<label className="label">
+					<span className="label-text-alt">Position</span>
+				</label>
+				<select
+					className="select select-bordered select-sm"
+					value={current.anchor}
+					onChange={(e) => updateOptions({ anchor: e.target.value as WatermarkAnchor })}
+					disabled={disabled}
+				>
+					{WatermarkAnchorSchema.options.map(anchor => (
+						<option key={anchor} value={anchor}>{WATERMARK_ANCHOR_LABELS[anchor]}</option>
+					))}
+				</select>
+			</div>
+
+			<div className="grid grid-cols-2 gap-2">
+				{current.anchor === 'CUSTOM' && (
+					<>
+						<div className="form-control">
+							<label className="label">
+								<span className="label-text-alt">Horizontal</span>
+								<span className="label-text-alt">{Math.round(current.x * 100)}%</span>
+							</label>
+							<input
+								type="range"
+								className="range range-primary range-xs"
+								value={current.x}
+								onChange={(e) => updateOptions({ x: Number(e.target.value) })}
+								min="0"
+								max="1"
+								step="0.01"
+								disabled={disabled}
+							/>
+						</div>
+						<div className="form-control">
+							<label className="label">
+								<span className="label-text-alt">Vertical</span>
+								<span className="label-text-alt">{Math.round(current.y * 100)}%</span>
+							</label>
+							<input
+								type="range"
+								className="range range-primary range-xs"
+								value={current.y}
+								onChange={(e) => updateOptions({ y: Number(e.target.value) })}
+								min="0"
+								max="1"
+								step="0.01"
+								disabled={disabled}
+							/>
+						</div>
+					</>
+				)}
+				<div className="form-control">
+					<label className="label">
+						<span className="label-text-alt">Size</span>
+						<span className="label-text-alt">{current.scale}% of width</span>
+					</label>
+					<input
+						type="range"
+						className="range range-primary range-xs"
+						value={current.scale}
+						onChange={(e) => updateOptions({ scale: Number(e.target.value) })}
+						min="2"
+						max="50"
+						step="1"
+						disabled={disabled}
+					/>
+				</div>
+				<div className="form-control">
+					<label className="label">
+						<span className="label-text-alt">Safe margin</span>
+						<span className="label-text-alt">{current.margin}%</span>
+					</label>
+					<input
+						type="range"
+						className="range range-primary range-xs"
+						value={current.margin}
+						onChange={(e) => updateOptions({ margin: Number(e.target.value) })}
+						min="0"
+						max="20"
+						step="0.5"
+						disabled={disabled}
+					/>
+				</div>
+				<div className="form-control">
+					<label className="label">
+						<span className="label-text-alt">Opacity</span>
+						<span className="label-text-alt">{Math.round(current.opacity * 100)}%</span>
+					</label>
+					<input
+						type="range"
+						className="range range-primary range-xs"
+						value={current.opacity}
+						onChange={(e) => updateOptions({ opacity: Number(e.target.value) })}
+						min="0.05"
+						max="1"
+						step="0.05"
+						disabled={disabled}
+					/>
+				</div>
+				<div className="form-control">
+					<label className="label">
+						<span className="label-text-alt">Fade in</span>
+						<span className="label-text-alt">{current.fadeIn}s</span>
+					</label>
+					<input
+						type="range"
+						className="range range-primary range-xs"
+						value={current.fadeIn}
+						onChange={(e) => updateOptions({ fadeIn: Number(e.target.value) })}
+						min="0"
+						max="5"
+						step="0.5"
+						disabled={disabled}
+					/>
+				</div>
+			</div>
+		</div>
+	);
+}
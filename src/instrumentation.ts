@@ -0,0 +1,13 @@
+export async function register() {
+	// Probe the ffmpeg install once at startup so the first health check is instant
+	// and a missing binary shows up in the server log right away
+	if (process.env.NEXT_RUNTIME === 'nodejs') {
+		const { getCapabilities } = await import('@/lib/ffmpeg/binaries');
+		const capabilities = await getCapabilities();
+		if (capabilities.available) {
+			console.log(`Using ffmpeg ${capabilities.version} at ${capabilities.ffmpegPath}`);
+		} else {
+			console.warn(`FFmpeg unavailable: ${capabilities.error}`);
+		}
+	}
+}
@@ -0,0 +1,33 @@
+// Waveform columns computed per file; the strip scales them to its width
+export const WAVEFORM_COLUMNS = 600;
+
+/** Peak amplitude of each of `columns` equal slices of the mixed-down channels, scaled to 0..1. */
+export function computePeaks(buffer: AudioBuffer, columns = WAVEFORM_COLUMNS): number[] {
+	const channels = Array.from({ length: buffer.numberOfChannels }, (_, index) => buffer.getChannelData(index));
+	const samplesPerColumn = Math.max(Math.floor(buffer.length / columns), 1);
+	const peaks: number[] = [];
+	for (let column = 0; column < columns; column++) {
+		const start = column * samplesPerColumn;
+		const end = Math.min(start + samplesPerColumn, buffer.length);
+		let peak = 0;
+		for (let sample = start; sample < end; sample++) {
+			for (const channel of channels) {
+				peak = Math.max(peak, Math.abs(channel[sample]));
+			}
+		}
+		peaks.push(peak);
+	}
+	const loudest = Math.max(...peaks, 0);
+	return loudest > 0 ? peaks.map(peak => peak / loudest) : peaks;
+}
+
+/** Decodes an audio file in the browser and returns its length and waveform. */
+export async function analyzeAudioFile(file: File): Promise<{ duration: number; peaks: number[] }> {
+	const context = new AudioContext();
+	try {
+		const buffer = await context.decodeAudioData(await file.arrayBuffer());
+		return { duration: buffer.duration, peaks: computePeaks(buffer) };
+	} finally {
+		void context.close();
+	}
+}
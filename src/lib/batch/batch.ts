@@ -0,0 +1,106 @@
+import { EffectLayer } from '@/types/effects';
+import { BatchItem, BatchVariation } from '@/types/batch';
+import { ExportPresetEntry, presetSettings } from '@/lib/presets/export-presets';
+import { createEffectLayer } from '@/lib/effects/stack';
+import { createProjectClip, withLayers } from '@/lib/timeline/clips';
+
+export const BATCH_NAME_TOKENS = ['basename', 'preset', 'index', 'effect', 'ext'] as const;
+
+type BatchNameToken = typeof BATCH_NAME_TOKENS[number];
+
+const ZOOM_DIRECTIONS = ['IN', 'OUT'] as const;
+const PAN_DIRECTIONS = ['LEFT', 'RIGHT', 'UP', 'DOWN'] as const;
+
+/** Why `template` can't name outputs, or null when it can. */
+export function validateNameTemplate(template: string): string | null {
+	const unknown = Array.from(template.matchAll(/\{([^}]*)\}/g), match => match[1])
+		.find(token => !(BATCH_NAME_TOKENS as readonly string[]).includes(token));
+	if (unknown !== undefined) return `Unknown name token {${unknown}}`;
+	if (!template.includes('{basename}') && !template.includes('{index}')) {
+		return 'The name needs {basename} or {index} to tell the images apart';
+	}
+	if (/[\\/]/.test(template)) return 'The name cannot contain folders';
+	return null;
+}
+
+// Keeps file names portable: no path or reserved characters, no runs of whitespace
+function sanitizeNamePart(value: string): string {
+	return value.replace(/[\\/:*?"<>|]+/g, '-').replace(/\s+/g, '-');
+}
+
+/** Fills the template's tokens in; every value is made safe for a file name first. */
+export function formatBatchName(template: string, values: Record<BatchNameToken, string>): string {
+	return template.replace(/\{(\w+)\}/g, (token, name: BatchNameToken) => (
+		name in values ? sanitizeNamePart(values[name]) : token
+	));
+}
+
+// `name`, or `name-2`, `name-3`... before the extension, whichever isn't taken
+function uniqueFileName(name: string, taken: Set<string>): string {
+	const dot = name.lastIndexOf('.');
+	const stem = dot > 0 ? name.slice(0, dot) : name;
+	const extension = dot > 0 ? name.slice(dot) : '';
+	let candidate = name;
+	for (let copy = 2; taken.has(candidate.toLowerCase()); copy++) {
+		candidate = `${stem}-${copy}${extension}`;
+	}
+	taken.add(candidate.toLowerCase());
+	return candidate;
+}
+
+/** A copy of `layers` with the intensity and direction varied within `variation`. */
+export function varyLayers(layers: EffectLayer[], variation: BatchVariation, random = Math.random): EffectLayer[] {
+	return layers.map(layer => {
+		const { params } = layer;
+		const offset = (random() * 2 - 1) * variation.intensity;
+		const intensity = Math.round(Math.min(Math.max(params.intensity + offset, 0), 100));
+		let direction = params.direction;
+		if (variation.direction && (layer.type === 'ZOOM' || layer.type === 'PAN')) {
+			const options = layer.type === 'ZOOM' ? ZOOM_DIRECTIONS : PAN_DIRECTIONS;
+			direction = options[Math.floor(random() * options.length)];
+		}
+		return createEffectLayer({ type: layer.type, keyframes: layer.keyframes, params: { ...params, intensity, direction } });
+	});
+}
+
+interface BatchPlan {
+	files: File[];
+	/** The effect every image gets, before variation */
+	layers: EffectLayer[];
+	variation: BatchVariation;
+	presets: ExportPresetEntry[];
+	template: string;
+	random?: () => number;
+}
+
+/**
+ * One queued item per image and preset, images first. Each image draws its
+ * variation once, so every preset of it shows the same motion.
+ */
+export function planBatch({ files, layers: effectLayers, variation, presets, template, random = Math.random }: BatchPlan): BatchItem[] {
+	const taken = new Set<string>();
+	return files.flatMap((file, index) => {
+		const layers = varyLayers(effectLayers, variation, random);
+		const clip = withLayers(createProjectClip(file), layers);
+		const basename = file.name.replace(/\.[^.]+$/, '');
+		return presets.map(({ preset }) => {
+			const settings = presetSettings(preset);
+			const outputName = formatBatchName(template, {
+				basename,
+				preset: preset.name,
+				index: String(index + 1).padStart(String(files.length).length, '0'),
+				effect: layers[0].type.toLowerCase(),
+				ext: settings.format,
+			});
+			return {
+				id: crypto.randomUUID(),
+				clip,
+				presetName: preset.name,
+				settings,
+				outputName: uniqueFileName(outputName, taken),
+				status: 'queued' as const,
+				progress: 0,
+			};
+		});
+	});
+}
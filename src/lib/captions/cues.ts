@@ -0,0 +1,131 @@
+import { CaptionCue, MAX_CAPTION_CUES } from '@/types/captions';
+
+export type CaptionFormat = 'srt' | 'vtt';
+
+export interface CaptionIssue {
+	/** 1-based line in the cue file */
+	line: number;
+	message: string;
+}
+
+export class CaptionParseError extends Error {
+	constructor(public readonly issues: CaptionIssue[]) {
+		const shown = issues.slice(0, 3).map(issue => `line ${issue.line}: ${issue.message}`).join('; ');
+		const more = issues.length > 3 ? ` (and ${issues.length - 3} more)` : '';
+		super(`Invalid caption file, ${shown}${more}`);
+		this.name = 'CaptionParseError';
+	}
+}
+
+// hh:mm:ss,mmm (SRT) or [hh:]mm:ss.mmm (WebVTT)
+const TIMESTAMP = /^(?:(\d{1,3}):)?([0-5]\d):([0-5]\d)[,.](\d{3})$/;
+const TIMING_LINE = /^(\S+)\s+-->\s+(\S+)(?:\s+.*)?$/;
+
+function parseTimestamp(value: string): number | null {
+	const match = TIMESTAMP.exec(value);
+	if (!match) return null;
+	const [, hours = '0', minutes, seconds, millis] = match;
+	return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(millis) / 1000;
+}
+
+export function detectCaptionFormat(source: string): CaptionFormat {
+	return /^\uFEFF?WEBVTT(?:[ \t].*)?$/.test(source.split(/\r?\n/, 1)[0]) ? 'vtt' : 'srt';
+}
+
+/**
+ * Parses an SRT or WebVTT file. Every problem is collected with its line number,
+ * and a CaptionParseError is thrown listing them if there are any.
+ */
+export function parseCaptions(source: string): CaptionCue[] {
+	const format = detectCaptionFormat(source);
+	const lines = source.replace(/^\uFEFF/, '').split(/\r?\n/);
+	const issues: CaptionIssue[] = [];
+	const cues: CaptionCue[] = [];
+
+	// Group lines into blank-line separated blocks, remembering where each starts
+	const blocks: { line: number; lines: string[] }[] = [];
+	let current: { line: number; lines: string[] } | null = null;
+	lines.forEach((text, index) => {
+		if (text.trim() === '') {
+			current = null;
+			return;
+		}
+		if (!current) {
+			current = { line: index + 1, lines: [] };
+			blocks.push(current);
+		}
+		current.lines.push(text);
+	});
+
+	for (let blockIndex = 0; blockIndex < blocks.length; blockIndex++) {
+		const block = blocks[blockIndex];
+		if (format === 'vtt') {
+			// The header block, comments and styling carry no cues
+			if (blockIndex === 0 && block.lines[0].startsWith('WEBVTT')) continue;
+			if (/^(NOTE|STYLE|REGION)\b/.test(block.lines[0])) continue;
+		}
+
+		// SRT cues start with a counter; WebVTT cues may start with an identifier
+		const timingOffset = TIMING_LINE.test(block.lines[0]) ? 0 : 1;
+		if (format === 'srt' && timingOffset === 1 && !/^\d+$/.test(block.lines[0].trim())) {
+			issues.push({ line: block.line, message: `expected a cue number, found "${block.lines[0].trim()}"` });
+			continue;
+		}
+		const timingLine = block.lines[timingOffset];
+		const lineNumber = block.line + timingOffset;
+		const timing = timingLine === undefined ? null : TIMING_LINE.exec(timingLine.trim());
+		if (!timing) {
+			issues.push({ line: lineNumber, message: 'expected a timing line like "00:00:01,000 --> 00:00:04,000"' });
+			continue;
+		}
+
+		const start = parseTimestamp(timing[1]);
+		const end = parseTimestamp(timing[2]);
+		if (start === null || end === null) {
+			issues.push({ line: lineNumber, message: `invalid timestamp "${start === null ? timing[1] : timing[2]}"` });
+			continue;
+		}
+		if (end <= start) {
+			issues.push({ line: lineNumber, message: 'cue ends before it starts' });
+			continue;
+		}
+
+		const text = block.lines.slice(timingOffset + 1).join('\n').trim();
+		if (!text) {
+			issues.push({ line: lineNumber, message: 'cue has no text' });
+			continue;
+		}
+		cues.push({ start, end, text });
+	}
+
+	if (cues.length === 0 && issues.length === 0) {
+		issues.push({ line: 1, message: 'no cues found' });
+	}
+	if (cues.length > MAX_CAPTION_CUES) {
+		issues.push({ line: 1, message: `at most ${MAX_CAPTION_CUES} cues are supported` });
+	}
+	if (issues.length > 0) throw new CaptionParseError(issues);
+	return cues.sort((a, b) => a.start - b.start);
+}
+
+function formatTimestamp(seconds: number, separator: ',' | '.'): string {
+	const totalMillis = Math.round(seconds * 1000);
+	const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+	const hours = Math.floor(totalMillis / 3600000);
+	const minutes = Math.floor(totalMillis / 60000) % 60;
+	const secs = Math.floor(totalMillis / 1000) % 60;
+	return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(totalMillis % 1000, 3)}`;
+}
+
+export function toSrt(cues: CaptionCue[]): string {
+	return cues
+		.map((cue, index) => `${index + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`)
+		.join('\n');
+}
+
+export function toWebVtt(cues: CaptionCue[]): string {
+	const body = cues
+		.map(cue => `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.text}\n`)
+		.join('\n');
+	return `WEBVTT\n\n${body}`;
+}
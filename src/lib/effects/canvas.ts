@@ -0,0 +1,129 @@
+import { EffectMotion, ViewMotion, sampleView, waveOffset, windowOffset } from '@/lib/effects/motion';
+
+/**
+ * Draws export frames on a canvas from the same `effectMotion` curves the filter graph
+ * is written from. Drawing happens in export pixels; the canvas may be any size with
+ * the export's aspect ratio.
+ */
+
+// Rows the wave displaces together, in export pixels
+const WAVE_STRIP_HEIGHT = 2;
+
+export interface FrameSize {
+	width: number;
+	height: number;
+}
+
+type FrameSource = CanvasImageSource & { width: number; height: number };
+
+function exportContext(canvas: HTMLCanvasElement, { width }: FrameSize): CanvasRenderingContext2D | null {
+	const context = canvas.getContext('2d');
+	if (!context) return null;
+	const scale = canvas.width / width;
+	context.setTransform(scale, 0, 0, scale, 0, 0);
+	context.globalAlpha = 1;
+	context.globalCompositeOperation = 'source-over';
+	return context;
+}
+
+/** Letterboxes `image` into the frame, like the scale and pad every graph starts with. */
+export function drawFittedImage(canvas: HTMLCanvasElement, image: HTMLImageElement, size: FrameSize) {
+	const context = exportContext(canvas, size);
+	if (!context) return;
+	const { width, height } = size;
+	const scale = Math.min(width / image.naturalWidth, height / image.naturalHeight);
+	const drawnWidth = image.naturalWidth * scale;
+	const drawnHeight = image.naturalHeight * scale;
+	context.fillStyle = '#000';
+	context.fillRect(0, 0, width, height);
+	context.drawImage(image, (width - drawnWidth) / 2, (height - drawnHeight) / 2, drawnWidth, drawnHeight);
+}
+
+// Zooms and rotates `source`, then takes the frame-sized window the view sits at
+function drawView(context: CanvasRenderingContext2D, source: FrameSource, view: ViewMotion, time: number, { width, height }: FrameSize) {
+	const { zoom, panX, panY, rotation, offsetX, offsetY } = sampleView(view, time);
+	const zoomedWidth = width * zoom;
+	const zoomedHeight = height * zoom;
+	context.save();
+	context.translate(-windowOffset(width, zoom, panX, offsetX), -windowOffset(height, zoom, panY, offsetY));
+	if (rotation !== 0) {
+		context.translate(zoomedWidth / 2, zoomedHeight / 2);
+		context.rotate(rotation * Math.PI / 180);
+		context.translate(-zoomedWidth / 2, -zoomedHeight / 2);
+	}
+	context.drawImage(source, 0, 0, zoomedWidth, zoomedHeight);
+	context.restore();
+}
+
+// Shifts each strip of rows sideways; the edge column stretches into the gap, like geq's clip()
+function drawWave(context: CanvasRenderingContext2D, source: FrameSource, motion: EffectMotion, time: number, { width, height }: FrameSize) {
+	if (!motion.wave) return;
+	const scale = source.height / height;
+	for (let y = 0; y < height; y += WAVE_STRIP_HEIGHT) {
+		const strip = Math.min(WAVE_STRIP_HEIGHT, height - y);
+		const offset = waveOffset(motion.wave, y + strip / 2, height, time);
+		context.drawImage(source, 0, y * scale, source.width, strip * scale, -offset, y, width, strip);
+		if (offset > 0) {
+			context.drawImage(source, source.width - 1, y * scale, 1, strip * scale, width - offset, y, offset, strip);
+		} else if (offset < 0) {
+			context.drawImage(source, 0, y * scale, 1, strip * scale, 0, y, -offset, strip);
+		}
+	}
+}
+
+/** Renders one layer's frame at `time` from the frame the layers before it produced. */
+export function drawEffectFrame(canvas: HTMLCanvasElement, source: FrameSource, motion: EffectMotion, time: number, size: FrameSize) {
+	const context = exportContext(canvas, size);
+	if (!context) return;
+	context.fillStyle = '#000';
+	context.fillRect(0, 0, size.width, size.height);
+
+	if (motion.wave) {
+		drawWave(context, source, motion, time, size);
+	} else {
+		drawView(context, source, motion.view, time, size);
+	}
+	if (motion.blend) {
+		context.globalAlpha = Math.min(Math.max(motion.blend.mix.at(time), 0), 1);
+		drawView(context, source, motion.blend.view, time, size);
+		context.globalAlpha = 1;
+	}
+
+	// eq's brightness adds to every pixel
+	const brightness = motion.brightness?.at(time) ?? 0;
+	if (brightness !== 0) {
+		context.globalCompositeOperation = brightness > 0 ? 'lighter' : 'source-over';
+		context.fillStyle = brightness > 0 ? `rgba(255, 255, 255, ${brightness})` : `rgba(0, 0, 0, ${-brightness})`;
+		context.fillRect(0, 0, size.width, size.height);
+		context.globalCompositeOperation = 'source-over';
+	}
+}
+
+/**
+ * Renders a clip at `time` into `output`: each layer's motion animates the previous
+ * layer's frame. `scratch` holds the intermediate frames; it grows as needed.
+ */
+export function drawStackFrame(
+	output: HTMLCanvasElement,
+	scratch: HTMLCanvasElement[],
+	image: HTMLImageElement,
+	motions: EffectMotion[],
+	time: number,
+	size: FrameSize
+) {
+	const frames = motions.map((_, index) => {
+		if (!scratch[index]) scratch[index] = document.createElement('canvas');
+		const frame = scratch[index];
+		if (frame.width !== output.width || frame.height !== output.height) {
+			frame.width = output.width;
+			frame.height = output.height;
+		}
+		return frame;
+	});
+	frames.push(output);
+
+	drawFittedImage(frames[0], image, size);
+	for (let index = 0; index < motions.length; index++) {
+		drawEffectFrame(frames[index + 1], frames[index], motions[index], time, size);
+	}
+}
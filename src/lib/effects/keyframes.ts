@@ -0,0 +1,121 @@
+import { EFFECT_KEYFRAME_PARAMS, Easing, Keyframe, KeyframeParam, VideoEffect } from '@/types/effects';
+import { formatNumber as num } from '@/lib/ffmpeg/filter-graph';
+
+/**
+ * Keyframe curves shared by the browser preview and the ffmpeg filter graph.
+ * `evaluateTrack` samples a curve in JS; `trackExpression` writes the same curve
+ * as an ffmpeg expression, so both sides animate identically.
+ */
+
+interface EasingCurve {
+	apply: (t: number) => number;
+	expression: (t: string) => string;
+}
+
+const EASING_CURVES: Record<Easing, EasingCurve> = {
+	LINEAR: {
+		apply: t => t,
+		expression: t => t,
+	},
+	EASE_IN: {
+		apply: t => t * t,
+		expression: t => `pow(${t},2)`,
+	},
+	EASE_OUT: {
+		apply: t => 1 - (1 - t) ** 2,
+		expression: t => `(1-pow(1-${t},2))`,
+	},
+	EASE_IN_OUT: {
+		apply: t => (t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2),
+		expression: t => `if(lt(${t},0.5),2*pow(${t},2),1-pow(-2*${t}+2,2)/2)`,
+	},
+};
+
+export interface KeyframeParamInfo {
+	label: string;
+	min: number;
+	max: number;
+	step: number;
+	unit: string;
+}
+
+export const KEYFRAME_PARAM_INFO: Record<KeyframeParam, KeyframeParamInfo> = {
+	zoom: { label: 'Zoom', min: 1, max: 4, step: 0.05, unit: 'x' },
+	panX: { label: 'Pan X', min: -1, max: 1, step: 0.05, unit: '' },
+	panY: { label: 'Pan Y', min: -1, max: 1, step: 0.05, unit: '' },
+	rotation: { label: 'Rotation', min: -720, max: 720, step: 1, unit: '°' },
+	intensity: { label: 'Intensity', min: 0, max: 100, step: 1, unit: '%' },
+};
+
+export function applyEasing(easing: Easing, t: number): number {
+	return EASING_CURVES[easing].apply(Math.min(Math.max(t, 0), 1));
+}
+
+/** ffmpeg expression for `easing` applied to the 0..1 expression `t`. */
+export function easingExpression(easing: Easing, t: string): string {
+	return EASING_CURVES[easing].expression(t);
+}
+
+export function sortKeyframes(track: Keyframe[]): Keyframe[] {
+	return [...track].sort((a, b) => a.time - b.time);
+}
+
+/** The sorted track animating `param`, or null when the effect does not animate it. */
+export function getTrack(effect: VideoEffect, param: KeyframeParam): Keyframe[] | null {
+	const track = effect.keyframes?.[param];
+	if (!track || track.length === 0 || !EFFECT_KEYFRAME_PARAMS[effect.type].includes(param)) {
+		return null;
+	}
+	return sortKeyframes(track);
+}
+
+/** Value a new track starts from, matching what the static params render. */
+export function defaultKeyframeValue(effect: VideoEffect, param: KeyframeParam): number {
+	switch (param) {
+		case 'zoom': return 1;
+		case 'intensity': return effect.params.intensity;
+		default: return 0;
+	}
+}
+
+/** Value of a sorted track at `time`; holds the first and last values outside the keys. */
+export function evaluateTrack(track: Keyframe[], time: number): number {
+	if (time <= track[0].time) return track[0].value;
+
+	for (let i = 0; i < track.length - 1; i++) {
+		const from = track[i];
+		const to = track[i + 1];
+		if (time < to.time) {
+			const span = to.time - from.time;
+			const ratio = span > 0 ? (time - from.time) / span : 1;
+			return from.value + (to.value - from.value) * applyEasing(from.easing, ratio);
+		}
+	}
+	return track[track.length - 1].value;
+}
+
+/** The same curve as `evaluateTrack`, as an ffmpeg expression of the time variable `time`. */
+export function trackExpression(track: Keyframe[], time: string): string {
+	const last = track[track.length - 1];
+	let expression = num(last.value);
+	if (track.length === 1) return expression;
+
+	// Build from the last segment backwards so each segment guards the ones after it
+	for (let i = track.length - 2; i >= 0; i--) {
+		const from = track[i];
+		const to = track[i + 1];
+		const span = to.time - from.time;
+		if (span <= 0) continue;
+		const ratio = `(${time}-${num(from.time)})/${num(span)}`;
+		const segment = `${num(from.value)}+(${num(to.value - from.value)})*${easingExpression(from.easing, ratio)}`;
+		expression = `if(lt(${time},${num(to.time)}),${segment},${expression})`;
+	}
+
+	return track[0].time > 0
+		? `if(lt(${time},${num(track[0].time)}),${num(track[0].value)},${expression})`
+		: expression;
+}
+
+export function trackMax(track: Keyframe[]): number {
+	return Math.max(...track.map(key => key.value));
+}
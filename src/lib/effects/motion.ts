@@ -0,0 +1,252 @@
+import { Easing, Keyframe, KeyframeParam, VideoEffect } from '@/types/effects';
+import { formatNumber as num } from '@/lib/ffmpeg/filter-graph';
+import { applyEasing, easingExpression, evaluateTrack, getTrack, trackExpression, trackMax } from '@/lib/effects/keyframes';
+
+/**
+ * Effect motion shared by the canvas preview and the ffmpeg filter graph.
+ * Every animated quantity is a `Signal` built once from the effect's params:
+ * the preview samples it with `at`, the export writes it with `expression`.
+ */
+
+export interface Signal {
+	/** Value at `time` seconds into the clip */
+	at: (time: number) => number;
+	/** The same curve as an ffmpeg expression of the time variable `time` */
+	expression: (time: string) => string;
+	/** Set when the signal never changes */
+	constant?: number;
+}
+
+export function constant(value: number): Signal {
+	const formatted = value < 0 ? `(${num(value)})` : num(value);
+	return { at: () => value, expression: () => formatted, constant: value };
+}
+
+const ZERO = constant(0);
+const ONE = constant(1);
+
+const time: Signal = { at: t => t, expression: t => t };
+
+/** Eased clip progress: 0 at the start, 1 from `duration` on. */
+function progress(duration: number, easing: Easing = 'LINEAR'): Signal {
+	return {
+		at: t => applyEasing(easing, t / duration),
+		expression: t => easingExpression(easing, `min(${t}/${num(duration)},1)`),
+	};
+}
+
+function track(keys: Keyframe[]): Signal {
+	return { at: t => evaluateTrack(keys, t), expression: t => `(${trackExpression(keys, t)})` };
+}
+
+// Folds constants so the written expressions only carry what actually animates
+function binary(a: Signal, b: Signal, apply: (x: number, y: number) => number, write: (x: string, y: string) => string): Signal {
+	if (a.constant !== undefined && b.constant !== undefined) return constant(apply(a.constant, b.constant));
+	return { at: t => apply(a.at(t), b.at(t)), expression: t => write(a.expression(t), b.expression(t)) };
+}
+
+function add(a: Signal, b: Signal): Signal {
+	if (a.constant === 0) return b;
+	if (b.constant === 0) return a;
+	return binary(a, b, (x, y) => x + y, (x, y) => `(${x}+${y})`);
+}
+
+function sub(a: Signal, b: Signal): Signal {
+	if (b.constant === 0) return a;
+	return binary(a, b, (x, y) => x - y, (x, y) => `(${x}-${y})`);
+}
+
+function mul(a: Signal, b: Signal): Signal {
+	if (a.constant === 0 || b.constant === 0) return ZERO;
+	if (a.constant === 1) return b;
+	if (b.constant === 1) return a;
+	return binary(a, b, (x, y) => x * y, (x, y) => `${x}*${y}`);
+}
+
+function max(a: Signal, b: Signal): Signal {
+	return binary(a, b, Math.max, (x, y) => `max(${x},${y})`);
+}
+
+function sin(a: Signal): Signal {
+	if (a.constant !== undefined) return constant(Math.sin(a.constant));
+	return { at: t => Math.sin(a.at(t)), expression: t => `sin(${a.expression(t)})` };
+}
+
+const scaled = (a: Signal, factor: number) => mul(constant(factor), a);
+
+/**
+ * What one effect layer shows of the frame it animates. The frame is scaled by
+ * `zoom`, rotated about its center (corners fill black), and a frame-sized window
+ * is taken from it: positioned by pan within the room the zoom leaves, then
+ * shifted by the pixel offsets. The window stays inside the zoomed frame.
+ */
+export interface ViewMotion {
+	/** 1 shows the whole frame */
+	zoom: Signal;
+	/** -1 (left/top edge) to 1 (right/bottom edge) of the room the zoom leaves */
+	panX: Signal;
+	panY: Signal;
+	/** Degrees, clockwise */
+	rotation: Signal;
+	/** Export pixels */
+	offsetX: Signal;
+	offsetY: Signal;
+}
+
+export interface WaveMotion {
+	/** Horizontal displacement of each row, in export pixels */
+	amplitude: Signal;
+	/** Radians the wave has travelled */
+	phase: Signal;
+}
+
+export interface EffectMotion {
+	view: ViewMotion;
+	/** A second view blended over the first, `mix` (0..1) of the way */
+	blend?: { view: ViewMotion; mix: Signal };
+	wave?: WaveMotion;
+	/** Added to every channel, in 0..1 units */
+	brightness?: Signal;
+}
+
+// Waves per frame height
+export const WAVE_CYCLES = 2;
+
+const STILL_VIEW: ViewMotion = { zoom: ONE, panX: ZERO, panY: ZERO, rotation: ZERO, offsetX: ZERO, offsetY: ZERO };
+
+/** How far the rows at `y` (export pixels) are displaced at `time`. */
+export function waveOffset(wave: WaveMotion, y: number, height: number, time: number): number {
+	return wave.amplitude.at(time) * Math.sin(2 * Math.PI * WAVE_CYCLES * y / height + wave.phase.at(time));
+}
+
+/** `waveOffset` as an ffmpeg expression of the row variable `y` and time variable `time`. */
+export function waveOffsetExpression(wave: WaveMotion, y: string, height: number, time: string): string {
+	return `${wave.amplitude.expression(time)}*sin(2*PI*${WAVE_CYCLES}*${y}/${height}+${wave.phase.expression(time)})`;
+}
+
+/** The motion `effect` applies, with keyframe tracks replacing the params they animate. */
+export function effectMotion(effect: VideoEffect): EffectMotion {
+	const { type, params } = effect;
+	const { duration, intensity = 50, easing = 'LINEAR' } = params;
+	const intensityFactor = intensity / 100;
+	const eased = progress(duration, easing);
+	const linear = progress(duration);
+
+	const keyed = (param: KeyframeParam) => {
+		const keys = getTrack(effect, param);
+		return keys ? track(keys) : null;
+	};
+	// `scale` times the (possibly keyframed) intensity factor
+	const intensityTrack = getTrack(effect, 'intensity');
+	const scaledIntensity = (scale: number) => intensityTrack
+		? scaled(track(intensityTrack), scale / 100)
+		: constant(intensityFactor * scale);
+	const view = (changes: Partial<ViewMotion>): ViewMotion => ({ ...STILL_VIEW, ...changes });
+	const zoomTrack = () => {
+		const zoom = keyed('zoom');
+		return zoom ? max(zoom, ONE) : null;
+	};
+	// -1 to 1 as the eased progress runs 0 to 1, or 1 to -1 when reversed
+	const sweep = (reverse: boolean) => reverse ? sub(ONE, scaled(eased, 2)) : sub(scaled(eased, 2), ONE);
+
+	switch (type) {
+		case 'ZOOM': {
+			const maxZoom = 1 + intensityFactor;
+			const zoom = params.direction === 'OUT'
+				? sub(constant(maxZoom), scaled(eased, maxZoom - 1))
+				: add(ONE, scaled(eased, maxZoom - 1));
+			return { view: view({ zoom: zoomTrack() ?? zoom, panX: keyed('panX') ?? ZERO, panY: keyed('panY') ?? ZERO }) };
+		}
+		case 'KEN_BURNS': {
+			const panRange = intensityFactor * 0.5;
+			const drift = sub(eased, constant(0.5));
+			return {
+				view: view({
+					zoom: zoomTrack() ?? add(ONE, scaled(eased, intensityFactor * 0.5)),
+					panX: keyed('panX') ?? scaled(drift, 2 * panRange),
+					panY: keyed('panY') ?? scaled(drift, -panRange),
+				}),
+			};
+		}
+		case 'PAN': {
+			const direction = params.direction || 'LEFT';
+			const horizontal = direction === 'LEFT' || direction === 'RIGHT';
+			const moving = sweep(direction === 'RIGHT' || direction === 'DOWN');
+			return {
+				view: view({
+					zoom: constant(1 + intensityFactor * 0.5),
+					panX: keyed('panX') ?? (horizontal ? moving : ZERO),
+					panY: keyed('panY') ?? (horizontal ? ZERO : moving),
+				}),
+			};
+		}
+		case 'PARALLAX': {
+			// A slow background layer fades into a fast foreground one
+			const zoom = constant(1 + intensityFactor * 0.4);
+			return {
+				view: view({ zoom, panX: sub(eased, ONE) }),
+				blend: { view: view({ zoom, panX: sweep(false) }), mix: linear },
+			};
+		}
+		case 'WAVE':
+			return {
+				view: STILL_VIEW,
+				wave: { amplitude: scaledIntensity(20), phase: mul(constant(2 * Math.PI / duration), time) },
+			};
+		case 'PULSE': {
+			const swell = sin(scaled(linear, Math.PI));
+			return {
+				view: view({ zoom: add(ONE, mul(scaledIntensity(0.3), swell)) }),
+				brightness: scaled(swell, 0.1),
+			};
+		}
+		case 'ROTATION':
+			return { view: view({ rotation: keyed('rotation') ?? scaled(eased, intensityFactor * 360) }) };
+		case 'DRIFT': {
+			const phase = scaled(linear, 2 * Math.PI);
+			// The zoom has to leave room for the strongest point of an animated intensity
+			const peakIntensityFactor = intensityTrack ? Math.max(trackMax(intensityTrack) / 100, 0) : intensityFactor;
+			return {
+				view: view({
+					zoom: constant(1.1 + peakIntensityFactor * 0.1),
+					rotation: mul(sin(phase), scaledIntensity(5)),
+					offsetX: mul(sin(phase), scaledIntensity(30)),
+					offsetY: mul(sin(scaled(phase, 2)), scaledIntensity(15)),
+				}),
+			};
+		}
+		default:
+			return { view: STILL_VIEW };
+	}
+}
+
+export interface ViewSample {
+	zoom: number;
+	panX: number;
+	panY: number;
+	rotation: number;
+	offsetX: number;
+	offsetY: number;
+}
+
+export function sampleView(view: ViewMotion, time: number): ViewSample {
+	return {
+		zoom: view.zoom.at(time),
+		panX: view.panX.at(time),
+		panY: view.panY.at(time),
+		rotation: view.rotation.at(time),
+		offsetX: view.offsetX.at(time),
+		offsetY: view.offsetY.at(time),
+	};
+}
+
+/** Left edge of the view window in the zoomed frame's pixels, as ffmpeg's crop clamps it. */
+export function windowOffset(frame: number, zoom: number, pan: number, offset: number): number {
+	const room = frame * zoom - frame;
+	return Math.min(Math.max(room * (0.5 + 0.5 * pan) + offset, 0), room);
+}
+
+/** Where the window sits in the room the zoom leaves (0..1), from a -1..1 pan. */
+export function panPosition(pan: Signal): Signal {
+	return add(constant(0.5), scaled(pan, 0.5));
+}
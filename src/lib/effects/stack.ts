@@ -0,0 +1,25 @@
+import { EffectLayer, VideoEffect } from '@/types/effects';
+
+// Stack every new clip starts with
+const DEFAULT_EFFECT: VideoEffect = {
+	type: 'ZOOM',
+	params: { duration: 5, intensity: 30, direction: 'IN', easing: 'EASE_IN_OUT' },
+};
+
+export function createEffectLayer({ type, params, keyframes }: VideoEffect): EffectLayer {
+	return { id: crypto.randomUUID(), enabled: true, type, params, keyframes };
+}
+
+/** The layers that render, in the order they apply. */
+export function enabledLayers(layers: EffectLayer[]): EffectLayer[] {
+	return layers.filter(layer => layer.enabled);
+}
+
+/** Clip length: the longest enabled layer. Shorter layers hold their final frame. */
+export function stackDuration(layers: EffectLayer[]): number {
+	return Math.max(0, ...enabledLayers(layers).map(layer => layer.params.duration));
+}
+
+export function createDefaultStack(): EffectLayer[] {
+	return [createEffectLayer(DEFAULT_EFFECT)];
+}
@@ -0,0 +1,74 @@
+import { AudioTrack } from '@/types/audio';
+import { ExportFormat } from '@/types/effects';
+import { Filter, FilterGraph, filter } from '@/lib/ffmpeg/filter-graph';
+
+export const AUDIO_OUTPUT_LABEL = 'a';
+
+// Everything is resampled to one rate, so loop sizes can be given in samples
+const SAMPLE_RATE = 48000;
+
+// loudnorm targets besides the integrated loudness
+const TRUE_PEAK_DB = -1.5;
+const LOUDNESS_RANGE = 11;
+
+export interface AudioCodecProfile {
+	label: string;
+	encoder: string;
+	bitrateKbps: number;
+}
+
+// Audio codec per container; formats without an entry (GIF, WebP) are always silent
+export const AUDIO_CODECS: Partial<Record<ExportFormat, AudioCodecProfile>> = {
+	mp4: { label: 'AAC', encoder: 'aac', bitrateKbps: 192 },
+	mov: { label: 'AAC', encoder: 'aac', bitrateKbps: 192 },
+	mkv: { label: 'Opus', encoder: 'libopus', bitrateKbps: 160 },
+	webm: { label: 'Opus', encoder: 'libopus', bitrateKbps: 160 },
+};
+
+// Filters the audio chain depends on
+export const AUDIO_FILTERS = ['atrim', 'aloop', 'afade', 'aresample', 'loudnorm'];
+
+/** Seconds of audio in the output: looped tracks fill the video, others stop at whichever ends first. */
+export function audioOutputDuration(track: AudioTrack, videoDuration: number): number {
+	return track.loop ? videoDuration : Math.min(track.duration, videoDuration);
+}
+
+/**
+ * Appends the chain that trims, loops, fades and loudness-normalizes `input`
+ * to fit a video of `videoDuration` seconds, ending in `output`.
+ */
+export function buildAudioGraph(
+	track: AudioTrack,
+	videoDuration: number,
+	graph = new FilterGraph(),
+	input = '1:a',
+	output = AUDIO_OUTPUT_LABEL
+): FilterGraph {
+	const length = audioOutputDuration(track, videoDuration);
+	const filters: Filter[] = [
+		filter('atrim', { start: track.offset, duration: track.duration }),
+		filter('asetpts', ['PTS-STARTPTS']),
+		filter('aresample', [SAMPLE_RATE]),
+	];
+	if (track.loop) {
+		filters.push(
+			filter('aloop', { loop: -1, size: Math.round(track.duration * SAMPLE_RATE) }),
+			filter('asetpts', ['N/SR/TB'])
+		);
+	}
+	filters.push(filter('atrim', { duration: length }));
+	// Fades apply to the track as a whole, not to every loop
+	if (track.fadeIn > 0) {
+		filters.push(filter('afade', { t: 'in', st: 0, d: Math.min(track.fadeIn, length) }));
+	}
+	if (track.fadeOut > 0) {
+		const fadeOut = Math.min(track.fadeOut, length);
+		filters.push(filter('afade', { t: 'out', st: length - fadeOut, d: fadeOut }));
+	}
+	filters.push(
+		filter('loudnorm', { I: track.targetLufs, TP: TRUE_PEAK_DB, LRA: LOUDNESS_RANGE }),
+		// loudnorm upsamples internally; bring it back down for the encoder
+		filter('aresample', [SAMPLE_RATE])
+	);
+	return graph.chain(input, filters, output);
+}
@@ -0,0 +1,184 @@
+import { execFile } from 'child_process';
+import { constants } from 'fs';
+import fs from 'fs/promises';
+import path from 'path';
+import { promisify } from 'util';
+import { FFmpegCapabilities } from '@/types/capabilities';
+import { FFmpegNotFoundError } from '@/lib/ffmpeg/errors';
+import {
+	PROBED_ENCODERS,
+	PROBED_FILTERS,
+	resolveCodecSupport,
+	resolveEffectSupport,
+	resolveFormatSupport,
+} from '@/lib/ffmpeg/requirements';
+
+const execFileAsync = promisify(execFile);
+
+type BinaryName = 'ffmpeg' | 'ffprobe';
+
+// Environment variables that point at a specific binary
+const BINARY_ENV_VARS: Record<BinaryName, string> = {
+	ffmpeg: 'FFMPEG_PATH',
+	ffprobe: 'FFPROBE_PATH',
+};
+
+// Binaries dropped into the repo (git-ignored) take precedence over the system install
+const BUNDLED_DIR = path.join(process.cwd(), 'src', 'ffmpeg');
+
+const PROBE_TIMEOUT_MS = 10000;
+
+function executableNames(name: BinaryName): string[] {
+	if (process.platform !== 'win32') return [name];
+	const extensions = (process.env.PATHEXT || '.EXE;.CMD;.BAT').split(';').filter(Boolean);
+	return [name, ...extensions.map(ext => `${name}${ext.toLowerCase()}`)];
+}
+
+async function isExecutable(file: string): Promise<boolean> {
+	try {
+		const stats = await fs.stat(file);
+		if (!stats.isFile()) return false;
+		await fs.access(file, process.platform === 'win32' ? constants.F_OK : constants.X_OK);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+async function findInDirectories(name: BinaryName, directories: string[]): Promise<string | null> {
+	for (const dir of directories) {
+		for (const candidate of executableNames(name)) {
+			const file = path.join(dir, candidate);
+			if (await isExecutable(file)) return file;
+		}
+	}
+	return null;
+}
+
+/**
+ * Locates a binary by checking, in order: its environment variable,
+ * the bundled src/ffmpeg directory, then every directory on PATH.
+ */
+export async function findBinary(name: BinaryName): Promise<string | null> {
+	const configured = process.env[BINARY_ENV_VARS[name]];
+	if (configured) {
+		if (await isExecutable(configured)) return configured;
+		console.warn(`${BINARY_ENV_VARS[name]} is set to ${configured}, which is not an executable file`);
+	}
+
+	const bundled = await findInDirectories(name, [BUNDLED_DIR]);
+	if (bundled) return bundled;
+
+	const searchPath = (process.env.PATH || '').split(path.delimiter).filter(Boolean);
+	return findInDirectories(name, searchPath);
+}
+
+// Resolved paths and the capability probe are cached for the life of the server process
+const globalForBinaries = globalThis as unknown as {
+	ffmpegBinaries?: Partial<Record<BinaryName, Promise<string | null>>>;
+	ffmpegCapabilities?: Promise<FFmpegCapabilities>;
+};
+const resolved = globalForBinaries.ffmpegBinaries ??= {};
+
+export async function resolveBinary(name: BinaryName): Promise<string> {
+	const found = await (resolved[name] ??= findBinary(name));
+	if (!found) {
+		// Allow a binary installed after startup to be picked up on the next attempt
+		delete resolved[name];
+		throw new FFmpegNotFoundError(name, BINARY_ENV_VARS[name]);
+	}
+	return found;
+}
+
+// Parses the name column of `ffmpeg -encoders` / `ffmpeg -filters` listings
+function parseListing(output: string, flagsPattern: RegExp): Set<string> {
+	const names = new Set<string>();
+	for (const line of output.split(/\r?\n/)) {
+		const match = line.match(flagsPattern);
+		if (match) names.add(match[1]);
+	}
+	return names;
+}
+
+async function runProbe(ffmpegPath: string, ...args: string[]): Promise<string> {
+	const { stdout } = await execFileAsync(ffmpegPath, ['-hide_banner', ...args], {
+		timeout: PROBE_TIMEOUT_MS,
+		maxBuffer: 4 * 1024 * 1024,
+	});
+	return stdout;
+}
+
+async function probeCapabilities(): Promise<FFmpegCapabilities> {
+	const unavailable = (error: string): FFmpegCapabilities => ({
+		available: false,
+		ffmpegPath: null,
+		ffprobePath: null,
+		version: null,
+		encoders: Object.fromEntries(PROBED_ENCODERS.map(name => [name, false])),
+		filters: Object.fromEntries(PROBED_FILTERS.map(name => [name, false])),
+		codecs: resolveCodecSupport({}, {}),
+		formats: resolveFormatSupport({}, {}),
+		effects: resolveEffectSupport({}),
+		error,
+		checkedAt: Date.now(),
+	});
+
+	let ffmpegPath: string;
+	try {
+		ffmpegPath = await resolveBinary('ffmpeg');
+	} catch (error) {
+		return unavailable(error instanceof Error ? error.message : 'ffmpeg was not found');
+	}
+	const ffprobePath = await resolveBinary('ffprobe').catch(() => null);
+
+	try {
+		const [versionOutput, encodersOutput, filtersOutput] = await Promise.all([
+			runProbe(ffmpegPath, '-version'),
+			runProbe(ffmpegPath, '-encoders'),
+			runProbe(ffmpegPath, '-filters'),
+		]);
+
+		const version = versionOutput.match(/ffmpeg version (\S+)/)?.[1] ?? null;
+		// e.g. " V....D libx264              libx264 H.264 / AVC ..."
+		const encoderNames = parseListing(encodersOutput, /^\s*[VAS][.A-Z]{5}\s+(\S+)/);
+		// e.g. " TSC zoompan           V->V       Apply Zoom & Pan effect."
+		const filterNames = parseListing(filtersOutput, /^\s*[.A-Z|]{2,3}\s+(\S+)\s+\S+->\S+/);
+
+		const encoders = Object.fromEntries(PROBED_ENCODERS.map(name => [name, encoderNames.has(name)]));
+		const filters = Object.fromEntries(PROBED_FILTERS.map(name => [name, filterNames.has(name)]));
+
+		return {
+			available: true,
+			ffmpegPath,
+			ffprobePath,
+			version,
+			encoders,
+			filters,
+			codecs: resolveCodecSupport(encoders, filters),
+			formats: resolveFormatSupport(encoders, filters),
+			effects: resolveEffectSupport(filters),
+			checkedAt: Date.now(),
+		};
+	} catch (error) {
+		console.error('FFmpeg capability probe failed:', error);
+		return unavailable(`Failed to run ${ffmpegPath}: ${error instanceof Error ? error.message : error}`);
+	}
+}
+
+/**
+ * Returns the cached capability report, probing the installed ffmpeg on first use.
+ * Pass `refresh` to re-run the probe (e.g. after installing a new build).
+ */
+export function getCapabilities(refresh = false): Promise<FFmpegCapabilities> {
+	if (refresh) {
+		delete resolved.ffmpeg;
+		delete resolved.ffprobe;
+		globalForBinaries.ffmpegCapabilities = undefined;
+	}
+	globalForBinaries.ffmpegCapabilities ??= probeCapabilities().then(capabilities => {
+		// Don't pin a failed probe; the next request tries again
+		if (!capabilities.available) globalForBinaries.ffmpegCapabilities = undefined;
+		return capabilities;
+	});
+	return globalForBinaries.ffmpegCapabilities;
+}
@@ -0,0 +1,68 @@
+import { CaptionPosition, CaptionStyle } from '@/types/captions';
+import { ExportFormat } from '@/types/effects';
+import { TextFont } from '@/types/text';
+import { Filter, filter } from '@/lib/ffmpeg/filter-graph';
+
+export interface SubtitleCodecProfile {
+	label: string;
+	encoder: string;
+}
+
+// Soft subtitle codec per container; GIF and WebP can only burn captions in
+export const SUBTITLE_CODECS: Partial<Record<ExportFormat, SubtitleCodecProfile>> = {
+	mp4: { label: 'mov_text', encoder: 'mov_text' },
+	mov: { label: 'mov_text', encoder: 'mov_text' },
+	mkv: { label: 'SRT', encoder: 'srt' },
+	webm: { label: 'WebVTT', encoder: 'webvtt' },
+};
+
+// Burned-in captions are drawn by libass through the subtitles filter
+export const CAPTION_BURN_IN_FILTERS = ['subtitles'];
+
+// libass renders SRT on a 288-line canvas, so sizes and margins are given in those units
+const ASS_PLAY_RES_Y = 288;
+
+// Family names libass matches; the Geist fonts come from the bundled fonts directory
+const ASS_FONT_NAMES: Record<TextFont, string> = {
+	GEIST_SANS: 'Geist',
+	GEIST_MONO: 'Geist Mono',
+	SANS: 'Sans',
+	SERIF: 'Serif',
+};
+
+// ASS numpad alignment: bottom, middle and top center
+const ASS_ALIGNMENT: Record<CaptionPosition, number> = {
+	BOTTOM: 2,
+	MIDDLE: 5,
+	TOP: 8,
+};
+
+/** `#rrggbb` as an ASS colour, `&HAABBGGRR`, where alpha 00 is opaque. */
+export function assColor(hex: string, opacity = 1): string {
+	const [r, g, b] = [1, 3, 5].map(index => hex.slice(index, index + 2));
+	const alpha = Math.round((1 - opacity) * 255).toString(16).padStart(2, '0');
+	return `&H${alpha}${b}${g}${r}`.toUpperCase();
+}
+
+/** ASS style overrides for the subtitles filter's `force_style`. */
+export function assForceStyle(style: CaptionStyle): string {
+	const units = (percent: number) => Math.round(percent / 100 * ASS_PLAY_RES_Y);
+	const fields: Record<string, string | number> = {
+		FontName: ASS_FONT_NAMES[style.font],
+		FontSize: units(style.size),
+		PrimaryColour: assColor(style.color),
+		Alignment: ASS_ALIGNMENT[style.position],
+		MarginV: units(style.margin),
+		// BorderStyle 3 draws an opaque box in the outline colour behind each line
+		...(style.box
+			? { BorderStyle: 3, OutlineColour: assColor(style.boxColor, style.boxOpacity), Outline: 2, Shadow: 0 }
+			: { BorderStyle: 1, OutlineColour: assColor('#000000'), Outline: 1, Shadow: 0 }),
+	};
+	return Object.entries(fields).map(([key, value]) => `${key}=${value}`).join(',');
+}
+
+/** Burns the SRT file at `path` into the picture with `style`, loading fonts from `fontsDir`. */
+export function captionBurnInFilter(path: string, style: CaptionStyle, fontsDir: string): Filter {
+	return filter('subtitles', { filename: path, fontsdir: fontsDir, force_style: assForceStyle(style) });
+}
+
@@ -0,0 +1,143 @@
+import {
+	DEFAULT_GIF_OPTIONS,
+	DEFAULT_WEBP_OPTIONS,
+	ExportFormat,
+	ExportSettings,
+	PixelFormat,
+	VideoCodec,
+	resolveCodec,
+	resolvePixelFormat,
+} from '@/types/effects';
+
+export interface CodecProfile {
+	label: string;
+	/** ffmpeg encoder that produces this codec */
+	encoder: string;
+	/** Encoder arguments added after rate control */
+	args: string[];
+	/** Arguments that depend on the export settings */
+	settingsArgs?: (settings: ExportSettings) => string[];
+	/** Extra arguments for specific containers */
+	containerArgs?: Partial<Record<ExportFormat, string[]>>;
+	/** Filters the encode pipeline needs besides the effect graph */
+	filters?: string[];
+}
+
+export const VIDEO_CODECS: Record<VideoCodec, CodecProfile> = {
+	h264: {
+		label: 'H.264',
+		encoder: 'libx264',
+		args: [],
+	},
+	hevc: {
+		label: 'HEVC (H.265)',
+		encoder: 'libx265',
+		args: [],
+		// Apple players only decode HEVC in MP4 when it is tagged hvc1
+		containerArgs: { mp4: ['-tag:v', 'hvc1'] },
+	},
+	vp9: {
+		label: 'VP9',
+		encoder: 'libvpx-vp9',
+		args: ['-row-mt', '1', '-deadline', 'good', '-cpu-used', '2'],
+	},
+	av1: {
+		label: 'AV1',
+		encoder: 'libaom-av1',
+		args: ['-row-mt', '1', '-cpu-used', '6'],
+	},
+	prores_422: {
+		label: 'ProRes 422',
+		encoder: 'prores_ks',
+		args: ['-profile:v', '2', '-vendor', 'apl0'],
+	},
+	prores_4444: {
+		label: 'ProRes 4444',
+		encoder: 'prores_ks',
+		args: ['-profile:v', '4', '-vendor', 'apl0'],
+	},
+	gif: {
+		label: 'GIF',
+		encoder: 'gif',
+		args: [],
+		// Rendered in two passes: palettegen builds the palette, paletteuse applies it
+		filters: ['palettegen', 'paletteuse'],
+	},
+	webp: {
+		label: 'Animated WebP',
+		encoder: 'libwebp',
+		args: [],
+		settingsArgs: settings => (settings.webp ?? DEFAULT_WEBP_OPTIONS).lossless
+			? ['-lossless', '1', '-compression_level', '6']
+			: ['-lossless', '0', '-compression_level', '4'],
+	},
+};
+
+// Muxer arguments per container
+const CONTAINER_ARGS: Partial<Record<ExportFormat, string[]>> = {
+	// Move the index to the front so playback can start before the download finishes
+	mp4: ['-movflags', '+faststart'],
+	mov: ['-movflags', '+faststart'],
+	// Loop forever
+	gif: ['-loop', '0'],
+	webp: ['-loop', '0'],
+};
+
+export const PIXEL_FORMAT_LABELS: Record<PixelFormat, string> = {
+	yuv420p: '4:2:0 8-bit',
+	yuv420p10le: '4:2:0 10-bit',
+	yuv444p: '4:4:4 8-bit',
+	yuv422p10le: '4:2:2 10-bit',
+	yuv444p10le: '4:4:4 10-bit',
+	yuva420p: '4:2:0 8-bit + alpha',
+	yuva444p10le: '4:4:4 10-bit + alpha',
+	bgra: 'RGB + alpha',
+	pal8: 'Palette (up to 256 colors)',
+};
+
+export const FORMAT_LABELS: Record<ExportFormat, string> = {
+	mp4: 'MP4',
+	webm: 'WebM',
+	mov: 'QuickTime (MOV)',
+	mkv: 'Matroska (MKV)',
+	gif: 'Animated GIF',
+	webp: 'Animated WebP',
+};
+
+export interface EncoderSelection {
+	codec: VideoCodec;
+	encoder: string;
+	pixelFormat: PixelFormat;
+	/** Codec and container arguments, in order */
+	args: string[];
+}
+
+export function selectEncoder(settings: ExportSettings): EncoderSelection {
+	const codec = resolveCodec(settings);
+	const profile = VIDEO_CODECS[codec];
+	return {
+		codec,
+		encoder: profile.encoder,
+		pixelFormat: resolvePixelFormat(settings),
+		args: [
+			...profile.args,
+			...(profile.settingsArgs?.(settings) ?? []),
+			...(profile.containerArgs?.[settings.format] ?? []),
+			...(CONTAINER_ARGS[settings.format] ?? []),
+		],
+	};
+}
+
+/** Settings actually rendered: GIFs are capped to their frame rate and width limits. */
+export function effectiveRenderSettings(settings: ExportSettings): ExportSettings {
+	if (resolveCodec(settings) !== 'gif') return settings;
+
+	const { maxFps, maxWidth } = settings.gif ?? DEFAULT_GIF_OPTIONS;
+	const scale = Math.min(maxWidth / settings.width, 1);
+	return {
+		...settings,
+		width: Math.max(Math.round(settings.width * scale / 2) * 2, 2),
+		height: Math.max(Math.round(settings.height * scale / 2) * 2, 2),
+		fps: Math.min(settings.fps, maxFps),
+	};
+}
@@ -0,0 +1,124 @@
+import { FilterGraph } from '@/lib/ffmpeg/filter-graph';
+
+export type ArgValue = string | number;
+
+export interface InputOptions {
+	/** Repeat a still image (`-loop 1`) */
+	loop?: boolean;
+	/** Frame rate to read the input at (`-framerate`) */
+	framerate?: number;
+	/** Stop reading the input after this many seconds (`-t`) */
+	duration?: number;
+	/** Start reading the input at this offset in seconds (`-ss`) */
+	seek?: number;
+	/** Force the input format (`-f`) */
+	format?: string;
+}
+
+interface InputSpec {
+	path: string;
+	options: InputOptions;
+}
+
+/**
+ * Builds an ffmpeg argument list: global flags, inputs, an optional filter graph,
+ * stream mappings, then output options in the order they were added.
+ * `toArgs()` is deterministic, so commands can be compared without running ffmpeg.
+ */
+export class FFmpegCommand {
+	private globalArgs: string[] = ['-hide_banner', '-y'];
+	private inputs: InputSpec[] = [];
+	private graph: FilterGraph | null = null;
+	private maps: string[] = [];
+	private outputArgs: string[] = [];
+	private outputPath: string | null = null;
+
+	globalOption(flag: string, value?: ArgValue): this {
+		this.globalArgs.push(flag, ...(value === undefined ? [] : [String(value)]));
+		return this;
+	}
+
+	/** Adds an input and returns its index for use in stream specifiers (`0:v`). */
+	addInput(path: string, options: InputOptions = {}): number {
+		this.inputs.push({ path, options });
+		return this.inputs.length - 1;
+	}
+
+	filterGraph(graph: FilterGraph): this {
+		this.graph = graph;
+		return this;
+	}
+
+	/** Maps a graph output label (`v`) or a stream specifier (`1:a`) to the output. */
+	map(labelOrStream: string): this {
+		const isStreamSpecifier = /^\d+(:|$)/.test(labelOrStream);
+		this.maps.push(isStreamSpecifier ? labelOrStream : `[${labelOrStream}]`);
+		return this;
+	}
+
+	videoCodec(codec: string): this {
+		return this.outputOption('-c:v', codec);
+	}
+
+	audioCodec(codec: string): this {
+		return this.outputOption('-c:a', codec);
+	}
+
+	pixelFormat(format: string): this {
+		return this.outputOption('-pix_fmt', format);
+	}
+
+	frames(count: number): this {
+		return this.outputOption('-frames:v', count);
+	}
+
+	outputOption(flag: string, value?: ArgValue): this {
+		this.outputArgs.push(flag, ...(value === undefined ? [] : [String(value)]));
+		return this;
+	}
+
+	/** Appends a prepared list of output arguments as-is. */
+	outputOptions(args: ArgValue[]): this {
+		this.outputArgs.push(...args.map(String));
+		return this;
+	}
+
+	output(path: string): this {
+		this.outputPath = path;
+		return this;
+	}
+
+	toArgs(): string[] {
+		if (this.inputs.length === 0) {
+			throw new Error('An ffmpeg command needs at least one input');
+		}
+		if (!this.outputPath) {
+			throw new Error('An ffmpeg command needs an output');
+		}
+
+		const args = [...this.globalArgs];
+		for (const { path, options } of this.inputs) {
+			if (options.loop) args.push('-loop', '1');
+			if (options.framerate !== undefined) args.push('-framerate', String(options.framerate));
+			if (options.seek !== undefined) args.push('-ss', String(options.seek));
+			if (options.duration !== undefined) args.push('-t', String(options.duration));
+			if (options.format) args.push('-f', options.format);
+			args.push('-i', path);
+		}
+		if (this.graph && !this.graph.isEmpty) {
+			args.push('-filter_complex', this.graph.toString());
+		}
+		for (const map of this.maps) {
+			args.push('-map', map);
+		}
+		args.push(...this.outputArgs, this.outputPath);
+		return args;
+	}
+
+	/** Shell-like rendering for logs; not meant to be executed. */
+	toString(): string {
+		return this.toArgs()
+			.map(arg => (/[\s'"[\];,]/.test(arg) ? `"${arg.replace(/"/g, '\\"')}"` : arg))
+			.join(' ');
+	}
+}
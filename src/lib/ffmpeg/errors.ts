@@ -0,0 +1,38 @@
+import { EffectType } from '@/types/effects';
+
+export class FilterGraphError extends Error {
+	constructor(effectTypes: EffectType[], detail: string) {
+		super(`Failed to build the ${effectTypes.join(' + ')} effect filter graph: ${detail}`);
+		this.name = 'FilterGraphError';
+	}
+}
+
+// Thrown on both client and server when a render is stopped on purpose rather than failing
+export class RenderCancelledError extends Error {
+	constructor(reason = 'Render cancelled') {
+		super(reason);
+		this.name = 'RenderCancelledError';
+	}
+}
+
+// A preview request the server refuses, with the HTTP status to answer it with
+export class PreviewRequestError extends Error {
+	constructor(message: string, readonly status = 400) {
+		super(message);
+		this.name = 'PreviewRequestError';
+	}
+}
+
+export class InsufficientDiskSpaceError extends Error {
+	constructor(freeBytes: number) {
+		super(`Not enough free disk space to start a render (${Math.round(freeBytes / 1024 / 1024)} MB available)`);
+		this.name = 'InsufficientDiskSpaceError';
+	}
+}
+
+export class FFmpegNotFoundError extends Error {
+	constructor(binary: string, envVar: string) {
+		super(`${binary} was not found. Set ${envVar}, place it in src/ffmpeg, or install it on PATH.`);
+		this.name = 'FFmpegNotFoundError';
+	}
+}
@@ -1,11 +1,52 @@
-import { VideoEffect, ExportSettings } from '@/types/effects';
+import { ExportSettings } from '@/types/effects';
+import { ProjectClip } from '@/types/timeline';
+import { ProjectAudio } from '@/types/audio';
+import { ProjectCaptions } from '@/types/captions';
+import { ProjectWatermark } from '@/types/watermark';
+import { RenderJobSnapshot, RenderJobSnapshotSchema } from '@/types/jobs';
+import { FFmpegCapabilities, FFmpegCapabilitiesSchema } from '@/types/capabilities';
+import { FILMSTRIP_LAYOUT_HEADER, Filmstrip, FilmstripLayoutSchema, FilmstripRequestInput } from '@/types/preview';
+import { RenderCancelledError } from '@/lib/ffmpeg/errors';
+import { toTimelineClip } from '@/lib/timeline/clips';
+import { toSrt } from '@/lib/captions/cues';
+
+export { RenderCancelledError };
 
 type ProgressCallback = (progress: number, stage: string) => void;
 
+// One clip on its own, as the preview routes take it; its transition needs a next clip, so it's left out
+function previewForm(clip: ProjectClip, settings: ExportSettings, watermark: ProjectWatermark | null): FormData {
+	const formData = new FormData();
+	formData.append('images', clip.file);
+	formData.append('clips', JSON.stringify([{ ...toTimelineClip(clip), transition: undefined }]));
+	formData.append('settings', JSON.stringify(settings));
+	if (watermark && settings.watermark) {
+		formData.append('watermark', watermark.file);
+	}
+	return formData;
+}
+
+async function previewResponse(url: string, body: FormData, signal?: AbortSignal): Promise<Response> {
+	const response = await fetch(url, { method: 'POST', body, signal });
+	if (!response.ok) {
+		const error = await response.json();
+		throw new Error(error.error || 'Preview failed');
+	}
+	return response;
+}
+
 class FFmpegService {
+	private controller: AbortController | null = null;
+	private activeJobId: string | null = null;
+
+	async getCapabilities(refresh = false): Promise<FFmpegCapabilities> {
+		// The health endpoint answers 503 with a full report when ffmpeg is missing
+		const response = await fetch(`/api/ffmpeg/health${refresh ? '?refresh=1' : ''}`);
+		return FFmpegCapabilitiesSchema.parse(await response.json());
+	}
+
 	async generateVideo(
-		imageFile: File,
-		effect: VideoEffect,
+		clips: ProjectClip[],
 		onProgress?: ProgressCallback,
 		settings: ExportSettings = {
 			width: 1920,
@@ -13,19 +54,41 @@ class FFmpegService {
 			fps: 30,
 			format: 'mp4',
 			quality: 85
-		}
+		},
+		audio: ProjectAudio | null = null,
+		captions: ProjectCaptions | null = null,
+		watermark: ProjectWatermark | null = null
 	): Promise<Blob> {
+		const controller = new AbortController();
+		this.controller = controller;
+		const { signal } = controller;
+
 		try {
 			const formData = new FormData();
-			formData.append('image', imageFile);
-			formData.append('effect', JSON.stringify(effect));
+			clips.forEach(clip => formData.append('images', clip.file));
+			formData.append('clips', JSON.stringify(clips.map(toTimelineClip)));
 			formData.append('settings', JSON.stringify(settings));
+			if (audio) {
+				formData.append('audio', audio.file);
+				formData.append('audioTrack', JSON.stringify(audio.track));
+			}
+			if (captions) {
+				// Cues may have been edited in the app, so send them as a fresh SRT file
+				const { fileName, cues, ...options } = captions;
+				formData.append('captions', new Blob([toSrt(cues)], { type: 'application/x-subrip' }), `${fileName.replace(/\.\w+$/, '')}.srt`);
+				formData.append('captionOptions', JSON.stringify(options));
+			}
+			// Placement travels in the settings; only the logo itself is uploaded
+			if (watermark && settings.watermark) {
+				formData.append('watermark', watermark.file);
+			}
 
-			onProgress?.(10, 'Starting export');
+			onProgress?.(0, clips.length > 1 ? `Uploading ${clips.length} images` : 'Uploading image');
 
 			const response = await fetch('/api/ffmpeg', {
 				method: 'POST',
-				body: formData
+				body: formData,
+				signal
 			});
 
 			if (!response.ok) {
@@ -33,18 +96,132 @@ class FFmpegService {
 				throw new Error(error.error || 'Export failed');
 			}
 
+			const { jobId } = await response.json() as { jobId: string };
+			this.activeJobId = jobId;
+			// abort() may have landed while the job was being created
+			if (signal.aborted) {
+				this.cancelJob(jobId);
+				throw new RenderCancelledError();
+			}
+
+			await this.waitForJob(jobId, signal, onProgress);
+
+			const download = await fetch(`/api/ffmpeg/jobs/${jobId}/download`, { signal });
+			if (!download.ok) {
+				const error = await download.json();
+				throw new Error(error.error || 'Download failed');
+			}
+
 			onProgress?.(100, 'Complete');
-			return await response.blob();
+			return await download.blob();
 		} catch (error) {
+			if (signal.aborted || error instanceof RenderCancelledError) {
+				throw error instanceof RenderCancelledError ? error : new RenderCancelledError();
+			}
 			console.error('Video generation error:', error);
 			throw error;
+		} finally {
+			if (this.controller === controller) {
+				this.controller = null;
+				this.activeJobId = null;
+			}
 		}
 	}
 
+	/**
+	 * Renders a small, low frame rate MP4 of one clip: the export's own filter graph at the
+	 * export size, shrunk at the end. Abort `signal` once the clip or settings change; the
+	 * server only stops a render when its own request is aborted.
+	 */
+	async renderProxy(
+		clip: ProjectClip,
+		settings: ExportSettings,
+		watermark: ProjectWatermark | null = null,
+		signal?: AbortSignal
+	): Promise<Blob> {
+		const response = await previewResponse('/api/ffmpeg/preview', previewForm(clip, settings, watermark), signal);
+		return await response.blob();
+	}
+
+	/** Renders stills of one clip at `request.times` as a sprite sheet. Revoke `imageUrl` when done with it. */
+	async renderFilmstrip(
+		clip: ProjectClip,
+		settings: ExportSettings,
+		watermark: ProjectWatermark | null,
+		request: FilmstripRequestInput,
+		signal?: AbortSignal
+	): Promise<Filmstrip> {
+		const formData = previewForm(clip, settings, watermark);
+		formData.append('filmstrip', JSON.stringify(request));
+		const response = await previewResponse('/api/ffmpeg/filmstrip', formData, signal);
+		const layout = FilmstripLayoutSchema.parse(JSON.parse(response.headers.get(FILMSTRIP_LAYOUT_HEADER) ?? 'null'));
+		return { ...layout, imageUrl: URL.createObjectURL(await response.blob()) };
+	}
+
+	private waitForJob(jobId: string, signal: AbortSignal, onProgress?: ProgressCallback): Promise<RenderJobSnapshot> {
+		return new Promise((resolve, reject) => {
+			const source = new EventSource(`/api/ffmpeg/jobs/${jobId}/events`);
+
+			const onAbort = () => {
+				source.close();
+				reject(new RenderCancelledError());
+			};
+			signal.addEventListener('abort', onAbort, { once: true });
+
+			const finish = () => {
+				source.close();
+				signal.removeEventListener('abort', onAbort);
+			};
+
+			source.addEventListener('progress', (event) => {
+				let data: unknown;
+				try {
+					data = JSON.parse((event as MessageEvent<string>).data);
+				} catch {
+					// A garbled event would otherwise leave the export waiting forever
+					finish();
+					reject(new Error('Received an unreadable update from the render job'));
+					return;
+				}
+				const parsed = RenderJobSnapshotSchema.safeParse(data);
+				if (!parsed.success) return;
+
+				const job = parsed.data;
+				onProgress?.(job.progress, job.message);
+				if (job.status === 'completed') {
+					finish();
+					resolve(job);
+				} else if (job.status === 'failed') {
+					finish();
+					reject(new Error(job.error || 'Export failed'));
+				} else if (job.status === 'cancelled') {
+					finish();
+					reject(new RenderCancelledError(job.message));
+				}
+			});
+
+			source.onerror = () => {
+				// The stream closes after the terminal event; only a drop before that is an error
+				if (source.readyState === EventSource.CLOSED) {
+					finish();
+					reject(new Error('Lost connection to the render job'));
+				}
+			};
+		});
+	}
+
+	private cancelJob(jobId: string) {
+		// keepalive lets the request outlive a page that is being closed
+		fetch(`/api/ffmpeg/jobs/${jobId}`, { method: 'DELETE', keepalive: true })
+			.catch(error => console.error('Failed to cancel render job:', error));
+	}
+
 	abort() {
-		// Implement abort logic if needed
+		if (this.activeJobId) {
+			this.cancelJob(this.activeJobId);
+		}
+		this.controller?.abort();
 	}
 }
 
 export const ffmpegService = new FFmpegService();
-
@@ -0,0 +1,211 @@
+import { VideoEffect, EffectLayer, ExportSettings, resolvePixelFormat } from '@/types/effects';
+import { Filter, FilterGraph, filter } from '@/lib/ffmpeg/filter-graph';
+import { Signal, ViewMotion, effectMotion, panPosition, waveOffsetExpression } from '@/lib/effects/motion';
+import { enabledLayers } from '@/lib/effects/stack';
+import { TimelineClip } from '@/types/timeline';
+import { transitionDuration } from '@/lib/timeline/clips';
+import { appendTransition } from '@/lib/ffmpeg/transitions';
+import { appendTextOverlays } from '@/lib/ffmpeg/text';
+
+export const EFFECT_OUTPUT_LABEL = 'v';
+
+/** Pixel format effect graphs produce. Palettes are built after the graph, so GIF graphs stay in full color. */
+export function graphPixelFormat(settings: ExportSettings): string {
+	const pixelFormat = resolvePixelFormat(settings);
+	return pixelFormat === 'pal8' ? 'rgb24' : pixelFormat;
+}
+
+/**
+ * Appends the chains that animate `input` with `effect` to `graph`, ending in `output`.
+ * The motion comes from `effectMotion`, the same curves the preview samples.
+ */
+export function buildEffectGraph(
+	effect: VideoEffect,
+	settings: ExportSettings,
+	graph = new FilterGraph(),
+	input = '0:v',
+	output = EFFECT_OUTPUT_LABEL
+): FilterGraph {
+	const { width, height, fps } = settings;
+	const { view, blend, wave, brightness } = effectMotion(effect);
+
+	const fit: Filter[] = [
+		filter('scale', { w: width, h: height, force_original_aspect_ratio: 'decrease' }),
+		filter('pad', [width, height, '(ow-iw)/2', '(oh-ih)/2']),
+		filter('setsar', [1]),
+	];
+	const toOutput = filter('format', [graphPixelFormat(settings)]);
+	const adjustments = brightness ? [filter('eq', { brightness: brightness.expression('t'), eval: 'frame' })] : [];
+	const base = graph.label('base');
+
+	if (wave) {
+		const offset = waveOffsetExpression(wave, 'Y', height, 'T');
+		const sample = (plane: string) => `${plane}(clip(X+${offset},0,W-1),Y)`;
+		return graph
+			.chain(input, [...fit, filter('format', ['rgb24'])], base)
+			.chain(base, [filter('geq', { r: sample('r'), g: sample('g'), b: sample('b') }), toOutput], output);
+	}
+
+	// An animated zoom runs through zoompan, which has no time variable of its own,
+	// so it derives one from the output frame count. Its views never rotate.
+	if (view.zoom.constant === undefined) {
+		const time = `on/${fps}`;
+		const position = (frame: string, pan: Signal, offset: Signal) => {
+			const place = `(${frame}-${frame}/zoom)*${panPosition(pan).expression(time)}`;
+			return offset.constant === 0 ? place : `${place}+${offset.expression(time)}/zoom`;
+		};
+		return graph
+			.chain(input, fit, base)
+			.chain(base, [
+				filter('zoompan', {
+					z: view.zoom.expression(time),
+					x: position('iw', view.panX, view.offsetX),
+					y: position('ih', view.panY, view.offsetY),
+					d: 1,
+					s: `${width}x${height}`,
+					fps,
+				}),
+				...adjustments,
+				toOutput,
+			], output);
+	}
+
+	// A steady zoom scales the frame up once, so crop windows have room to move
+	const zoom = view.zoom.constant;
+	const overscan = zoom > 1
+		? [filter('scale', [Math.ceil(width * zoom / 2) * 2, Math.ceil(height * zoom / 2) * 2])]
+		: [];
+	const position = (room: string, pan: Signal, offset: Signal) => {
+		const place = `${room}*${panPosition(pan).expression('t')}`;
+		return offset.constant === 0 ? place : `${place}+${offset.expression('t')}`;
+	};
+	const crop = (motion: ViewMotion) => filter('crop', {
+		w: width,
+		h: height,
+		x: position('(iw-ow)', motion.panX, motion.offsetX),
+		y: position('(ih-oh)', motion.panY, motion.offsetY),
+	});
+	graph.chain(input, [...fit, ...overscan], base);
+
+	if (blend) {
+		const [first, second, firstMoved, secondMoved] = ['bg', 'fg', 'bgm', 'fgm'].map(label => graph.label(label));
+		const mix = blend.mix.expression('T');
+		return graph
+			.chain(base, [filter('split')], [first, second])
+			.chain(first, [crop(view)], firstMoved)
+			.chain(second, [crop(blend.view)], secondMoved)
+			.chain([firstMoved, secondMoved], [
+				filter('blend', { all_expr: `A*(1-${mix})+B*${mix}` }),
+				...adjustments,
+				toOutput,
+			], output);
+	}
+
+	return graph.chain(base, [
+		...(view.rotation.constant === 0 ? [] : [filter('rotate', { a: `${view.rotation.expression('t')}*PI/180`, c: 'black' })]),
+		...(zoom > 1 ? [crop(view)] : []),
+		...adjustments,
+		toOutput,
+	], output);
+}
+
+/**
+ * Chains the graphs of every enabled layer, first to last, so each layer
+ * animates the frames the previous one produced.
+ */
+export function buildStackGraph(
+	layers: EffectLayer[],
+	settings: ExportSettings,
+	graph = new FilterGraph(),
+	input = '0:v',
+	output = EFFECT_OUTPUT_LABEL
+): FilterGraph {
+	const active = enabledLayers(layers);
+	if (active.length === 0) {
+		throw new Error('An effect stack needs at least one enabled layer');
+	}
+
+	let current = input;
+	for (let index = 0; index < active.length; index++) {
+		const next = index === active.length - 1 ? output : graph.label('layer');
+		buildEffectGraph(active[index], settings, graph, current, next);
+		current = next;
+	}
+	return graph;
+}
+
+/** Animates one clip through its effect stack, then draws its text overlays on top. */
+export function buildClipGraph(
+	clip: TimelineClip,
+	settings: ExportSettings,
+	graph = new FilterGraph(),
+	input = '0:v',
+	output = EFFECT_OUTPUT_LABEL
+): FilterGraph {
+	if (!clip.texts?.length) {
+		return buildStackGraph(clip.layers, settings, graph, input, output);
+	}
+	const animated = graph.label('stack');
+	buildStackGraph(clip.layers, settings, graph, input, animated);
+	return appendTextOverlays(graph, clip.texts, settings, animated, output);
+}
+
+/**
+ * Animates every clip from its own input (clip N reads input N) and joins them
+ * in timeline order, with hard cuts or xfade transitions. Every clip is fitted to
+ * the export size, so they join cleanly.
+ */
+export function buildTimelineGraph(
+	clips: TimelineClip[],
+	settings: ExportSettings,
+	graph = new FilterGraph(),
+	output = EFFECT_OUTPUT_LABEL
+): FilterGraph {
+	if (clips.length === 1) {
+		return buildClipGraph(clips[0], settings, graph, '0:v', output);
+	}
+
+	const hasTransitions = clips.some((_, index) => transitionDuration(clips, index) > 0);
+	// xfade needs inputs with one frame rate and time base, which zoompan and concat don't guarantee
+	const normalize = filter('fps', [settings.fps]);
+
+	const segments = clips.map((clip, index) => {
+		const label = graph.label('clip');
+		if (!hasTransitions) {
+			buildClipGraph(clip, settings, graph, `${index}:v`, label);
+			return label;
+		}
+		const animated = graph.label('fx');
+		buildClipGraph(clip, settings, graph, `${index}:v`, animated);
+		graph.chain(animated, [normalize], label);
+		return label;
+	});
+	if (!hasTransitions) {
+		return graph.chain(segments, [filter('concat', { n: clips.length, v: 1, a: 0 })], output);
+	}
+
+	// Join pairwise; the offset is where the next clip starts overlapping the joined output
+	let current = segments[0];
+	let length = clips[0].duration;
+	for (let index = 1; index < clips.length; index++) {
+		const overlap = transitionDuration(clips, index - 1);
+		const transition = clips[index - 1].transition;
+		const next = index === clips.length - 1 ? output : graph.label('join');
+		if (transition && overlap > 0) {
+			appendTransition(graph, [current, segments[index]], transition, {
+				duration: overlap,
+				offset: length - overlap,
+				pixelFormat: graphPixelFormat(settings),
+			}, next);
+		} else {
+			graph.chain([current, segments[index]], [filter('concat', { n: 2, v: 1, a: 0 }), normalize], next);
+		}
+		length += clips[index].duration - overlap;
+		current = next;
+	}
+	return graph;
+}
+
+export function generateFilterComplex(effect: VideoEffect, settings: ExportSettings): string {
+	return buildEffectGraph(effect, settings).toString();
+}
@@ -0,0 +1,111 @@
+/**
+ * Typed model of an ffmpeg filter graph (`-filter_complex`).
+ *
+ * ffmpeg parses a graph in two passes, each with its own escaping rules:
+ * the graph parser splits on `[ ] , ;` and the filter's option parser splits on `:`.
+ * Option values are escaped for both levels here, so callers pass plain strings.
+ */
+
+export type FilterOptionValue = string | number | boolean;
+
+export type FilterOptions = Record<string, FilterOptionValue | undefined> | FilterOptionValue[];
+
+export interface Filter {
+	name: string;
+	options?: FilterOptions;
+}
+
+export interface FilterChain {
+	inputs: string[];
+	filters: Filter[];
+	outputs: string[];
+}
+
+// Characters the option parser treats specially (between `:`-separated options)
+const OPTION_SPECIAL = /[\\':]/g;
+// Characters the graph parser treats specially, plus whitespace it would trim
+const GRAPH_SPECIAL = /[\\'[\],;\s]/;
+
+/** Formats a number for use in filter options and expressions. */
+export function formatNumber(value: number): string {
+	if (!Number.isFinite(value)) {
+		throw new Error(`Filter option values must be finite numbers, got ${value}`);
+	}
+	// Round away float noise like 0.30000000000000004 so output stays stable
+	return Number.isInteger(value) ? value.toString() : parseFloat(value.toFixed(6)).toString();
+}
+
+/** Escapes a value for the option parser, then quotes it for the graph parser if needed. */
+export function escapeOptionValue(value: FilterOptionValue): string {
+	const raw = typeof value === 'number' ? formatNumber(value) : String(value);
+	const optionEscaped = raw.replace(OPTION_SPECIAL, char => `\\${char}`);
+	if (!GRAPH_SPECIAL.test(optionEscaped)) return optionEscaped;
+	return `'${optionEscaped.replace(/'/g, `'\\''`)}'`;
+}
+
+export function filter(name: string, options?: FilterOptions): Filter {
+	return { name, options };
+}
+
+export function formatFilter({ name, options }: Filter): string {
+	if (!options) return name;
+
+	const args = Array.isArray(options)
+		? options.map(escapeOptionValue)
+		: Object.entries(options)
+			.filter((entry): entry is [string, FilterOptionValue] => entry[1] !== undefined)
+			.map(([key, value]) => `${key}=${escapeOptionValue(value)}`);
+
+	return args.length > 0 ? `${name}=${args.join(':')}` : name;
+}
+
+const formatLabels = (labels: string[]) => labels.map(label => `[${label}]`).join('');
+
+export function formatChain({ inputs, filters, outputs }: FilterChain): string {
+	if (filters.length === 0) {
+		throw new Error('A filter chain needs at least one filter');
+	}
+	return `${formatLabels(inputs)}${filters.map(formatFilter).join(',')}${formatLabels(outputs)}`;
+}
+
+export class FilterGraph {
+	private chains: FilterChain[] = [];
+	private labels = new Set<string>();
+
+	/**
+	 * Returns a label unique within this graph, e.g. `base`, then `base1`, `base2`...
+	 * Use for intermediate pads so composed graphs never collide.
+	 */
+	label(prefix: string): string {
+		let label = prefix;
+		for (let i = 1; this.labels.has(label); i++) {
+			label = `${prefix}${i}`;
+		}
+		this.labels.add(label);
+		return label;
+	}
+
+	/** Appends `[inputs]filter,filter[outputs]`. Inputs may be stream specifiers like `0:v`. */
+	chain(inputs: string | string[], filters: Filter[], outputs: string | string[] = []): this {
+		const outputList = Array.isArray(outputs) ? outputs : [outputs];
+		outputList.forEach(output => this.labels.add(output));
+		this.chains.push({
+			inputs: Array.isArray(inputs) ? inputs : [inputs],
+			filters,
+			outputs: outputList,
+		});
+		return this;
+	}
+
+	get isEmpty(): boolean {
+		return this.chains.length === 0;
+	}
+
+	toChains(): FilterChain[] {
+		return this.chains.map(chain => ({ ...chain }));
+	}
+
+	toString(): string {
+		return this.chains.map(formatChain).join(';');
+	}
+}
@@ -0,0 +1,23 @@
+import path from 'path';
+import { TextFont } from '@/types/text';
+
+// The Geist fonts the app ships with, so exports match the preview everywhere
+export const FONTS_DIR = path.join(process.cwd(), 'src', 'app', 'fonts');
+
+const FONT_FILES: Partial<Record<TextFont, string>> = {
+	GEIST_SANS: 'GeistVF.woff',
+	GEIST_MONO: 'GeistMonoVF.woff',
+};
+
+// Generic families are looked up through fontconfig
+const FONT_FAMILIES: Partial<Record<TextFont, string>> = {
+	SANS: 'Sans',
+	SERIF: 'Serif',
+};
+
+/** drawtext options that select `font`: a bundled font file, or a fontconfig family. */
+export function fontOptions(font: TextFont): { fontfile?: string; font?: string } {
+	const file = FONT_FILES[font];
+	if (file) return { fontfile: path.join(FONTS_DIR, file) };
+	return { font: FONT_FAMILIES[font] ?? 'Sans' };
+}
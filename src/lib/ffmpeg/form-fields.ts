@@ -0,0 +1,19 @@
+import { z } from 'zod';
+
+/**
+ * Checks a multipart field holding JSON against `schema`. A missing field is checked as null,
+ * and malformed JSON fails like any other invalid value, so routes answer 400 instead of throwing.
+ */
+export function parseJsonField<T extends z.ZodTypeAny>(
+	schema: T,
+	field: FormDataEntryValue | null
+): z.SafeParseReturnType<z.input<T>, z.output<T>> {
+	if (typeof field !== 'string') return schema.safeParse(null);
+	let value: unknown;
+	try {
+		value = JSON.parse(field);
+	} catch {
+		return { success: false, error: new z.ZodError([{ code: 'custom', path: [], message: 'Not valid JSON' }]) };
+	}
+	return schema.safeParse(value);
+}
@@ -0,0 +1,100 @@
+import { ExportSettings } from '@/types/effects';
+import { TimelineClip } from '@/types/timeline';
+import { FilmstripLayout, FilmstripRequest } from '@/types/preview';
+import { FFmpegCommand } from '@/lib/ffmpeg/command-builder';
+import { FilterGraph, filter } from '@/lib/ffmpeg/filter-graph';
+import { EFFECT_OUTPUT_LABEL } from '@/lib/ffmpeg/filter-complex';
+import { effectiveRenderSettings } from '@/lib/ffmpeg/codecs';
+import { RenderCommandOptions, addClipInputs, buildVideoGraph, totalFrameCount } from '@/lib/ffmpeg/render-command';
+
+/**
+ * Quick renders for checking the export before committing to it. Both run the export's
+ * own graph at the export size, so motion measured in pixels (waves, drift) looks the
+ * same, and only shrink the result; the proxy saves its time on frame rate and encoding.
+ */
+
+export const PROXY_HEIGHT = 480;
+export const PROXY_FPS = 12;
+
+// The proxy is watched once and thrown away, so encode as fast as possible
+const PROXY_ENCODER_ARGS = ['-preset', 'ultrafast', '-crf', '30', '-movflags', '+faststart'];
+
+const even = (value: number) => Math.max(Math.round(value / 2) * 2, 2);
+
+/** Settings the proxy's graph is built from: the rendered export at a capped frame rate. */
+export function proxySettings(settings: ExportSettings): ExportSettings {
+	const rendered = effectiveRenderSettings(settings);
+	return { ...rendered, fps: Math.min(rendered.fps, PROXY_FPS) };
+}
+
+/** H.264 proxy of the timeline, at most `PROXY_HEIGHT` tall and without audio. */
+export function buildProxyCommand(options: RenderCommandOptions): FFmpegCommand {
+	const settings = proxySettings(options.settings);
+	const proxyOptions = { ...options, settings };
+	const command = new FFmpegCommand();
+	addClipInputs(command, proxyOptions);
+
+	const graph = new FilterGraph();
+	const frames = graph.label('fx');
+	buildVideoGraph(proxyOptions, settings, graph, frames);
+	const height = even(Math.min(settings.height, PROXY_HEIGHT));
+	graph.chain(frames, [
+		filter('scale', { w: even(height * settings.width / settings.height), h: height }),
+		filter('format', { pix_fmts: 'yuv420p' }),
+	], EFFECT_OUTPUT_LABEL);
+
+	return command
+		.filterGraph(graph)
+		.map(EFFECT_OUTPUT_LABEL)
+		.videoCodec('libx264')
+		.outputOptions(PROXY_ENCODER_ARGS)
+		.outputOption('-an')
+		.frames(totalFrameCount(options.clips, settings))
+		.output(options.outputPath);
+}
+
+// Export frames the stills come from: each time snapped to the frame showing then, once each
+function filmstripFrames(clips: TimelineClip[], settings: ExportSettings, times: number[]): number[] {
+	const { fps } = effectiveRenderSettings(settings);
+	const last = Math.max(totalFrameCount(clips, settings) - 1, 0);
+	const frames = times.map(time => Math.min(Math.floor(time * fps + 1e-6), last));
+	return Array.from(new Set(frames)).sort((a, b) => a - b);
+}
+
+/** Where the stills for `request` land in the sprite sheet. */
+export function filmstripLayout(clips: TimelineClip[], settings: ExportSettings, request: FilmstripRequest): FilmstripLayout {
+	const rendered = effectiveRenderSettings(settings);
+	const frames = filmstripFrames(clips, settings, request.times);
+	return {
+		times: frames.map(frame => frame / rendered.fps),
+		columns: Math.min(request.columns ?? frames.length, frames.length),
+		frameWidth: even(request.frameHeight * rendered.width / rendered.height),
+		frameHeight: request.frameHeight,
+	};
+}
+
+/** Picks the requested frames out of the rendered timeline and tiles them into one PNG. */
+export function buildFilmstripCommand(options: RenderCommandOptions, request: FilmstripRequest): FFmpegCommand {
+	const settings = effectiveRenderSettings(options.settings);
+	const frames = filmstripFrames(options.clips, settings, request.times);
+	const { columns, frameWidth, frameHeight } = filmstripLayout(options.clips, settings, request);
+	const command = new FFmpegCommand();
+	addClipInputs(command, options);
+
+	const graph = new FilterGraph();
+	const rendered = graph.label('fx');
+	buildVideoGraph(options, settings, graph, rendered);
+	graph.chain(rendered, [
+		filter('select', { expr: frames.map(frame => `eq(n,${frame})`).join('+') }),
+		filter('scale', { w: frameWidth, h: frameHeight }),
+		// nb_frames emits the sheet as soon as the last still arrives, even if the grid isn't full
+		filter('tile', { layout: `${columns}x${Math.ceil(frames.length / columns)}`, nb_frames: frames.length }),
+	], EFFECT_OUTPUT_LABEL);
+
+	return command
+		.filterGraph(graph)
+		.map(EFFECT_OUTPUT_LABEL)
+		.frames(1)
+		.outputOption('-update', 1)
+		.output(options.outputPath);
+}
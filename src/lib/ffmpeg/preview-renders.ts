@@ -0,0 +1,138 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { ExportSettings, ExportSettingsSchema } from '@/types/effects';
+import { TimelineClip, TimelineSchema } from '@/types/timeline';
+import { FilmstripRequest } from '@/types/preview';
+import { FFmpegCapabilities } from '@/types/capabilities';
+import { FFmpegCommand } from '@/lib/ffmpeg/command-builder';
+import { RenderCommandOptions, RenderWatermark } from '@/lib/ffmpeg/render-command';
+import { RenderJobWatermark, runFFmpeg } from '@/lib/ffmpeg/render-jobs';
+import { buildFilmstripCommand, buildProxyCommand } from '@/lib/ffmpeg/preview-command';
+import { PreviewRequestError, RenderCancelledError } from '@/lib/ffmpeg/errors';
+import { resolveBinary } from '@/lib/ffmpeg/binaries';
+import { parseJsonField } from '@/lib/ffmpeg/form-fields';
+import { createJobWorkspace, removeJobWorkspace } from '@/lib/ffmpeg/workspace';
+import { isEffectSupported, isTextSupported, isTransitionSupported, isWatermarkSupported } from '@/lib/ffmpeg/requirements';
+import { enabledLayers } from '@/lib/effects/stack';
+import { transitionDuration } from '@/lib/timeline/clips';
+
+export interface PreviewRequest {
+	/** One image per clip, in timeline order */
+	images: Buffer[];
+	clips: TimelineClip[];
+	settings: ExportSettings;
+	watermark?: RenderJobWatermark;
+}
+
+type PreviewKind = 'proxy' | 'filmstrip';
+
+/**
+ * Reads the multipart body the preview routes share: the same `images`, `clips`,
+ * `settings` and optional `watermark` fields an export is uploaded with.
+ * Throws a PreviewRequestError for anything the render would fail on.
+ */
+export async function parsePreviewForm(formData: FormData, capabilities: FFmpegCapabilities): Promise<PreviewRequest> {
+	const imageFiles = formData.getAll('images').filter((entry): entry is File => typeof entry !== 'string');
+	const clipsField = formData.get('clips');
+	const settingsField = formData.get('settings');
+	const watermarkFile = formData.get('watermark');
+
+	if (imageFiles.length === 0 || typeof clipsField !== 'string' || typeof settingsField !== 'string') {
+		throw new PreviewRequestError('Missing required fields');
+	}
+	const parsedClips = parseJsonField(TimelineSchema, clipsField);
+	const parsedSettings = parseJsonField(ExportSettingsSchema, settingsField);
+	if (!parsedClips.success) {
+		throw new PreviewRequestError(`Invalid timeline: ${parsedClips.error.issues[0]?.message ?? 'unknown error'}`);
+	}
+	if (!parsedSettings.success) {
+		throw new PreviewRequestError(`Invalid export settings: ${parsedSettings.error.issues[0]?.message ?? 'unknown error'}`);
+	}
+	const clips = parsedClips.data;
+	const settings = parsedSettings.data;
+	if (imageFiles.length !== clips.length) {
+		throw new PreviewRequestError('Every clip needs exactly one image');
+	}
+	if (imageFiles.some(imageFile => !imageFile.type.startsWith('image/'))) {
+		throw new PreviewRequestError('Invalid file type');
+	}
+
+	const unsupported = clips
+		.flatMap(clip => enabledLayers(clip.layers))
+		.find(layer => !isEffectSupported(capabilities, layer.type));
+	if (unsupported) {
+		throw new PreviewRequestError(`This ffmpeg build lacks the filters needed for the ${unsupported.type} effect`, 422);
+	}
+	if (clips.some(clip => clip.texts?.length) && !isTextSupported(capabilities)) {
+		throw new PreviewRequestError('This ffmpeg build lacks drawtext, which text overlays need', 422);
+	}
+	if (clips.some((_, index) => transitionDuration(clips, index) > 0) && !isTransitionSupported(capabilities)) {
+		throw new PreviewRequestError('This ffmpeg build lacks xfade, which transitions need (ffmpeg 4.3 or newer)', 422);
+	}
+
+	let watermark: RenderJobWatermark | undefined;
+	if (watermarkFile instanceof File) {
+		if (watermarkFile.type !== 'image/png') {
+			throw new PreviewRequestError('Watermarks must be PNG images');
+		}
+		if (!settings.watermark) {
+			throw new PreviewRequestError('Missing watermark settings');
+		}
+		if (!isWatermarkSupported(capabilities)) {
+			throw new PreviewRequestError('This ffmpeg build lacks the filters needed to draw a watermark', 422);
+		}
+		watermark = { data: Buffer.from(await watermarkFile.arrayBuffer()), options: settings.watermark };
+	}
+
+	const images = await Promise.all(imageFiles.map(async imageFile => Buffer.from(await imageFile.arrayBuffer())));
+	return { images, clips, settings, watermark };
+}
+
+/**
+ * Renders into a throwaway workspace and returns the output file's contents.
+ * `signal` cancels the render when the browser stops waiting; the client aborts
+ * its stale previews itself, so renders from other tabs or users never collide.
+ */
+async function renderPreview(
+	kind: PreviewKind,
+	{ images, clips, settings, watermark }: PreviewRequest,
+	signal: AbortSignal,
+	buildCommand: (options: RenderCommandOptions) => FFmpegCommand,
+	extension: string
+): Promise<Buffer<ArrayBuffer>> {
+	const controller = new AbortController();
+	const onAbort = () => controller.abort(new RenderCancelledError('Preview request aborted'));
+	signal.addEventListener('abort', onAbort, { once: true });
+	if (signal.aborted) onAbort();
+
+	const workDir = await createJobWorkspace(`preview-${randomUUID()}`);
+	try {
+		const inputPaths = images.map((_, index) => path.join(workDir, `input-${index}.png`));
+		await Promise.all(images.map((image, index) => fs.writeFile(inputPaths[index], image)));
+		let renderWatermark: RenderWatermark | undefined;
+		if (watermark) {
+			renderWatermark = { path: path.join(workDir, 'watermark.png'), options: watermark.options };
+			await fs.writeFile(renderWatermark.path, watermark.data);
+		}
+		controller.signal.throwIfAborted();
+
+		const outputPath = path.join(workDir, `${kind}.${extension}`);
+		const command = buildCommand({ inputPaths, outputPath, clips, settings, watermark: renderWatermark });
+		await runFFmpeg(await resolveBinary('ffmpeg'), command, { signal: controller.signal, clips });
+		return await fs.readFile(outputPath);
+	} finally {
+		signal.removeEventListener('abort', onAbort);
+		await removeJobWorkspace(workDir);
+	}
+}
+
+/** Renders the low-resolution, low frame rate MP4 proxy of `request`. */
+export function renderProxy(request: PreviewRequest, signal: AbortSignal): Promise<Buffer<ArrayBuffer>> {
+	return renderPreview('proxy', request, signal, buildProxyCommand, 'mp4');
+}
+
+/** Renders the stills `filmstrip` asks for as one PNG sprite sheet. */
+export function renderFilmstrip(request: PreviewRequest, filmstrip: FilmstripRequest, signal: AbortSignal): Promise<Buffer<ArrayBuffer>> {
+	return renderPreview('filmstrip', request, signal, options => buildFilmstripCommand(options, filmstrip), 'png');
+}
@@ -0,0 +1,63 @@
+export interface FFmpegProgress {
+	frame?: number;
+	time?: number;
+}
+
+const FRAME_PATTERN = /frame=\s*(\d+)/;
+const TIME_PATTERN = /time=\s*(-?)(\d+):(\d{2}):(\d{2}(?:\.\d+)?)/;
+
+/**
+ * Parses a single ffmpeg stats line (`frame=  120 fps= 30 ... time=00:00:04.00 ...`).
+ * Returns null for lines that carry no progress information.
+ */
+export function parseProgressLine(line: string): FFmpegProgress | null {
+	const frameMatch = line.match(FRAME_PATTERN);
+	const timeMatch = line.match(TIME_PATTERN);
+	if (!frameMatch && !timeMatch) return null;
+
+	const progress: FFmpegProgress = {};
+	if (frameMatch) {
+		progress.frame = parseInt(frameMatch[1], 10);
+	}
+	if (timeMatch && !timeMatch[1]) {
+		const [, , hours, minutes, seconds] = timeMatch;
+		progress.time = parseInt(hours, 10) * 3600 + parseInt(minutes, 10) * 60 + parseFloat(seconds);
+	}
+	return progress;
+}
+
+/**
+ * Turns a parsed stats line into a 0..1 ratio against the expected frame count,
+ * falling back to the output timestamp when the frame counter is missing.
+ */
+export function progressRatio(progress: FFmpegProgress, totalFrames: number, duration: number): number {
+	let ratio = 0;
+	if (progress.frame !== undefined && totalFrames > 0) {
+		ratio = progress.frame / totalFrames;
+	} else if (progress.time !== undefined && duration > 0) {
+		ratio = progress.time / duration;
+	}
+	return Math.min(Math.max(ratio, 0), 1);
+}
+
+/**
+ * Buffers raw stderr chunks and yields complete lines. ffmpeg terminates its
+ * stats lines with `\r`, so both carriage returns and newlines end a line.
+ */
+export function createLineSplitter(onLine: (line: string) => void) {
+	let buffer = '';
+	return {
+		push(chunk: string) {
+			buffer += chunk;
+			const lines = buffer.split(/\r\n|\r|\n/);
+			buffer = lines.pop() ?? '';
+			lines.forEach(line => {
+				if (line.trim()) onLine(line);
+			});
+		},
+		flush() {
+			if (buffer.trim()) onLine(buffer);
+			buffer = '';
+		},
+	};
+}
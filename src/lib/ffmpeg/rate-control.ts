@@ -0,0 +1,157 @@
+import { ExportSettings, RateControl } from '@/types/effects';
+import { FFmpegCommand } from '@/lib/ffmpeg/command-builder';
+
+interface EncoderRateProfile {
+	/** Quality scale value at quality 100 and at quality 1 */
+	crfRange: [number, number];
+	/** Flag the quality scale is passed with (defaults to -crf) */
+	qualityFlag?: string;
+	/** Encoder speed presets, from quality 1 up to quality 100 */
+	speedPresets?: string[];
+	/** libvpx reads -crf as constant quality only with -b:v 0, and as constrained quality with a -b:v cap */
+	crfNeedsBitrate?: boolean;
+	/** libx265 takes its two-pass settings through -x265-params instead of -pass */
+	x265TwoPass?: boolean;
+	/** Encoders without bitrate targeting (ProRes) always encode at constant quality */
+	qualityOnly?: boolean;
+	/** Encoders without any quality scale (GIF, where the palette decides quality) */
+	noQualityScale?: boolean;
+}
+
+// -x265-params is a `:`-separated list that honours backslash escapes, so a Windows
+// stats path (C:\...) keeps its drive letter and separators
+const escapeX265Param = (value: string) => value.replace(/[\\':]/g, char => `\\${char}`);
+
+const ENCODER_RATE_PROFILES: Record<string, EncoderRateProfile> = {
+	libx264: {
+		crfRange: [16, 38],
+		speedPresets: ['veryfast', 'faster', 'fast', 'medium', 'slow'],
+	},
+	libx265: {
+		crfRange: [18, 36],
+		speedPresets: ['veryfast', 'faster', 'fast', 'medium', 'slow'],
+		x265TwoPass: true,
+	},
+	'libvpx-vp9': {
+		crfRange: [18, 50],
+		crfNeedsBitrate: true,
+	},
+	'libaom-av1': {
+		crfRange: [20, 52],
+		crfNeedsBitrate: true,
+	},
+	prores_ks: {
+		crfRange: [4, 24],
+		qualityFlag: '-qscale:v',
+		qualityOnly: true,
+	},
+	// libwebp's -quality runs the other way: higher is better
+	libwebp: {
+		crfRange: [95, 40],
+		qualityFlag: '-quality',
+		qualityOnly: true,
+	},
+	gif: {
+		crfRange: [0, 0],
+		qualityOnly: true,
+		noQualityScale: true,
+	},
+};
+
+const DEFAULT_RATE_PROFILE: EncoderRateProfile = { crfRange: [18, 40] };
+
+// Headroom left for container overhead when hitting a target file size
+const CONTAINER_OVERHEAD = 0.03;
+
+export const DEFAULT_RATE_CONTROL: RateControl = { mode: 'quality' };
+
+function profileFor(encoder: string): EncoderRateProfile {
+	return ENCODER_RATE_PROFILES[encoder] ?? DEFAULT_RATE_PROFILE;
+}
+
+export function qualityToCrf(encoder: string, quality: number): number {
+	const [best, worst] = profileFor(encoder).crfRange;
+	const ratio = (Math.min(Math.max(quality, 1), 100) - 1) / 99;
+	return Math.round(worst - (worst - best) * ratio);
+}
+
+export function qualityToSpeedPreset(encoder: string, quality: number): string | null {
+	const presets = profileFor(encoder).speedPresets;
+	if (!presets) return null;
+	const index = Math.min(Math.floor((Math.min(Math.max(quality, 1), 100) - 1) / 100 * presets.length), presets.length - 1);
+	return presets[index];
+}
+
+/** Video bitrate (kbps) that lands a clip of `duration` seconds at `targetSizeMB`. */
+export function targetSizeBitrateKbps(targetSizeMB: number, duration: number, audioBitrateKbps = 0): number {
+	const totalKbits = targetSizeMB * 8 * 1024 * (1 - CONTAINER_OVERHEAD);
+	return Math.max(Math.floor(totalKbits / duration - audioBitrateKbps), 50);
+}
+
+export function getRateControl(settings: ExportSettings): RateControl {
+	return settings.rateControl ?? DEFAULT_RATE_CONTROL;
+}
+
+/** Number of ffmpeg passes the settings need (two for a target file size). */
+export function passCount(settings: ExportSettings, encoder: string): number {
+	if (profileFor(encoder).qualityOnly) return 1;
+	return getRateControl(settings).mode === 'targetSize' ? 2 : 1;
+}
+
+export interface RateControlOptions {
+	encoder: string;
+	settings: ExportSettings;
+	duration: number;
+	/** 1-based pass number for two-pass encodes */
+	pass?: number;
+	/** Prefix for the two-pass statistics files */
+	passLogFile?: string;
+	audioBitrateKbps?: number;
+}
+
+/** Adds encoder speed and rate-control arguments for the chosen mode. */
+export function applyRateControl(command: FFmpegCommand, options: RateControlOptions): FFmpegCommand {
+	const { encoder, settings, duration, pass, passLogFile, audioBitrateKbps } = options;
+	const profile = profileFor(encoder);
+	const rateControl = getRateControl(settings);
+
+	const qualityFlag = profile.qualityFlag ?? '-crf';
+
+	const speedPreset = qualityToSpeedPreset(encoder, settings.quality);
+	if (speedPreset) command.outputOption('-preset', speedPreset);
+
+	if (profile.qualityOnly) {
+		return profile.noQualityScale ? command : command.outputOption(qualityFlag, qualityToCrf(encoder, settings.quality));
+	}
+
+	switch (rateControl.mode) {
+		case 'targetSize': {
+			const bitrate = targetSizeBitrateKbps(rateControl.targetSizeMB, duration, audioBitrateKbps);
+			command
+				.outputOption('-b:v', `${bitrate}k`)
+				.outputOption('-maxrate', `${Math.round(bitrate * 1.5)}k`)
+				.outputOption('-bufsize', `${bitrate * 2}k`);
+			if (pass !== undefined && profile.x265TwoPass) {
+				const stats = passLogFile ? `:stats=${escapeX265Param(`${passLogFile}.log`)}` : '';
+				command.outputOption('-x265-params', `pass=${pass}${stats}`);
+			} else if (pass !== undefined) {
+				command.outputOption('-pass', pass);
+				if (passLogFile) command.outputOption('-passlogfile', passLogFile);
+			}
+			return command;
+		}
+		case 'bitrate': {
+			const crf = qualityToCrf(encoder, settings.quality);
+			command.outputOption(qualityFlag, crf);
+			if (profile.crfNeedsBitrate) command.outputOption('-b:v', `${rateControl.maxBitrateKbps}k`);
+			return command
+				.outputOption('-maxrate', `${rateControl.maxBitrateKbps}k`)
+				.outputOption('-bufsize', `${rateControl.maxBitrateKbps * 2}k`);
+		}
+		default: {
+			command.outputOption(qualityFlag, qualityToCrf(encoder, settings.quality));
+			if (profile.crfNeedsBitrate) command.outputOption('-b:v', 0);
+			return command;
+		}
+	}
+}
@@ -0,0 +1,197 @@
+import { ExportSettings, DEFAULT_GIF_OPTIONS, resolveCodec } from '@/types/effects';
+import { TimelineClip } from '@/types/timeline';
+import { AudioTrack } from '@/types/audio';
+import { CaptionOptions } from '@/types/captions';
+import { WatermarkOptions } from '@/types/watermark';
+import { FFmpegCommand } from '@/lib/ffmpeg/command-builder';
+import { FilterGraph, filter } from '@/lib/ffmpeg/filter-graph';
+import { EFFECT_OUTPUT_LABEL, buildTimelineGraph } from '@/lib/ffmpeg/filter-complex';
+import { applyRateControl, passCount } from '@/lib/ffmpeg/rate-control';
+import { effectiveRenderSettings, selectEncoder } from '@/lib/ffmpeg/codecs';
+import { AUDIO_CODECS, AUDIO_OUTPUT_LABEL, buildAudioGraph } from '@/lib/ffmpeg/audio';
+import { SUBTITLE_CODECS, captionBurnInFilter } from '@/lib/ffmpeg/captions';
+import { FONTS_DIR } from '@/lib/ffmpeg/fonts';
+import { appendWatermark } from '@/lib/ffmpeg/watermark';
+import { timelineDuration } from '@/lib/timeline/clips';
+
+export interface RenderAudio {
+	path: string;
+	track: AudioTrack;
+}
+
+export interface RenderCaptions extends CaptionOptions {
+	/** SRT file with the cues */
+	path: string;
+}
+
+export interface RenderWatermark {
+	path: string;
+	options: WatermarkOptions;
+}
+
+export interface RenderCommandOptions {
+	/** One image per clip, in timeline order */
+	inputPaths: string[];
+	outputPath: string;
+	clips: TimelineClip[];
+	settings: ExportSettings;
+	/** Prefix for two-pass statistics files; should live in the job's workspace */
+	passLogFile?: string;
+	/** Where the GIF palette pass writes its palette; should live in the job's workspace */
+	palettePath?: string;
+	/** Background audio; ignored by formats without an audio codec */
+	audio?: RenderAudio;
+	/** Captions, burned into the picture or embedded as a subtitle track */
+	captions?: RenderCaptions;
+	/** Logo drawn over the whole video */
+	watermark?: RenderWatermark;
+}
+
+export function totalFrameCount(clips: TimelineClip[], settings: ExportSettings): number {
+	return Math.ceil(timelineDuration(clips) * effectiveRenderSettings(settings).fps);
+}
+
+// Each clip loops its still image for the clip's duration; clip N becomes input N.
+// The watermark follows the clips, looped for the whole video so it can fade in.
+export function addClipInputs(command: FFmpegCommand, options: RenderCommandOptions) {
+	const { fps } = effectiveRenderSettings(options.settings);
+	options.clips.forEach((clip, index) => {
+		command.addInput(options.inputPaths[index], { loop: true, framerate: fps, duration: clip.duration });
+	});
+	if (options.watermark) {
+		command.addInput(options.watermark.path, { loop: true, framerate: fps, duration: timelineDuration(options.clips) });
+	}
+}
+
+// The joined timeline, then the watermark, then burned-in captions so they stay readable
+export function buildVideoGraph(options: RenderCommandOptions, settings: ExportSettings, graph = new FilterGraph(), output = EFFECT_OUTPUT_LABEL): FilterGraph {
+	const { clips, captions, watermark } = options;
+	const burnIn = captions?.mode === 'BURN_IN' ? captions : undefined;
+	let frames = burnIn || watermark ? graph.label('timeline') : output;
+	buildTimelineGraph(clips, settings, graph, frames);
+
+	if (watermark) {
+		const watermarked = burnIn ? graph.label('watermarked') : output;
+		appendWatermark(graph, watermark.options, settings, [frames, `${clips.length}:v`], watermarked);
+		frames = watermarked;
+	}
+	if (burnIn) {
+		graph.chain(frames, [captionBurnInFilter(burnIn.path, burnIn.style, FONTS_DIR)], output);
+	}
+	return graph;
+}
+
+const palettePathFor = (options: RenderCommandOptions) => options.palettePath ?? `${options.outputPath}.palette.png`;
+
+/**
+ * Animates every clip through its effect stack and joins them in timeline order.
+ * `pass` selects one half of a two-pass encode; the first pass discards its output.
+ */
+export function buildRenderCommand(options: RenderCommandOptions, pass?: number): FFmpegCommand {
+	const { outputPath, clips, passLogFile, audio, captions } = options;
+	const settings = effectiveRenderSettings(options.settings);
+	const { encoder, pixelFormat, args } = selectEncoder(settings);
+	const audioCodec = audio ? AUDIO_CODECS[settings.format] : undefined;
+	const duration = timelineDuration(clips);
+	const command = new FFmpegCommand();
+	addClipInputs(command, options);
+
+	const graph = buildVideoGraph(options, settings);
+	command.filterGraph(graph).map(EFFECT_OUTPUT_LABEL);
+	// The first pass only analyzes video, so it leaves the audio out entirely
+	if (audio && audioCodec && pass !== 1) {
+		const audioInput = command.addInput(audio.path);
+		buildAudioGraph(audio.track, duration, graph, `${audioInput}:a`, AUDIO_OUTPUT_LABEL);
+		command.map(AUDIO_OUTPUT_LABEL);
+	}
+	const subtitleCodec = captions?.mode === 'EMBED' ? SUBTITLE_CODECS[settings.format] : undefined;
+	if (captions && subtitleCodec && pass !== 1) {
+		const captionInput = command.addInput(captions.path);
+		command.map(`${captionInput}:s`);
+	}
+
+	command.videoCodec(encoder);
+	applyRateControl(command, {
+		encoder,
+		settings,
+		duration,
+		pass,
+		passLogFile,
+		audioBitrateKbps: audioCodec?.bitrateKbps,
+	});
+	command
+		.outputOptions(args)
+		.pixelFormat(pixelFormat)
+		.frames(totalFrameCount(clips, settings));
+	if (audio && audioCodec && pass !== 1) {
+		command.audioCodec(audioCodec.encoder).outputOption('-b:a', `${audioCodec.bitrateKbps}k`);
+	}
+	if (captions && subtitleCodec && pass !== 1) {
+		command
+			.outputOption('-c:s', subtitleCodec.encoder)
+			.outputOption('-metadata:s:s:0', `language=${captions.language}`);
+	}
+
+	if (pass === 1) {
+		return command.outputOption('-an').outputOption('-f', 'null').output('-');
+	}
+	return command.output(outputPath);
+}
+
+/** First GIF pass: renders the effect once and reduces it to a single palette image. */
+export function buildPaletteCommand(options: RenderCommandOptions): FFmpegCommand {
+	const settings = effectiveRenderSettings(options.settings);
+	const { maxColors } = settings.gif ?? DEFAULT_GIF_OPTIONS;
+	const command = new FFmpegCommand();
+	addClipInputs(command, options);
+
+	const graph = new FilterGraph();
+	const frames = graph.label('fx');
+	buildVideoGraph(options, settings, graph, frames);
+	// stats_mode=diff favors colors in moving areas over the static background
+	graph.chain(frames, [filter('palettegen', { max_colors: maxColors, stats_mode: 'diff' })], EFFECT_OUTPUT_LABEL);
+
+	return command
+		.filterGraph(graph)
+		.map(EFFECT_OUTPUT_LABEL)
+		.outputOption('-update', 1)
+		.output(palettePathFor(options));
+}
+
+/** Second GIF pass: renders the effect again and maps it onto the palette. */
+export function buildGifCommand(options: RenderCommandOptions): FFmpegCommand {
+	const settings = effectiveRenderSettings(options.settings);
+	const { dither } = settings.gif ?? DEFAULT_GIF_OPTIONS;
+	const { encoder, args } = selectEncoder(settings);
+	const command = new FFmpegCommand();
+	addClipInputs(command, options);
+	const paletteInput = command.addInput(palettePathFor(options));
+
+	const graph = new FilterGraph();
+	const frames = graph.label('fx');
+	buildVideoGraph(options, settings, graph, frames);
+	// diff_mode=rectangle only re-encodes the part of each frame that changed
+	graph.chain(
+		[frames, `${paletteInput}:v`],
+		[filter('paletteuse', { dither, diff_mode: 'rectangle' })],
+		EFFECT_OUTPUT_LABEL
+	);
+
+	return command
+		.filterGraph(graph)
+		.map(EFFECT_OUTPUT_LABEL)
+		.videoCodec(encoder)
+		.outputOptions(args)
+		.frames(totalFrameCount(options.clips, settings))
+		.output(options.outputPath);
+}
+
+/** Every ffmpeg invocation the settings need, in order. */
+export function buildRenderPasses(options: RenderCommandOptions): FFmpegCommand[] {
+	if (resolveCodec(options.settings) === 'gif') {
+		return [buildPaletteCommand(options), buildGifCommand(options)];
+	}
+	const passes = passCount(options.settings, selectEncoder(options.settings).encoder);
+	if (passes === 1) return [buildRenderCommand(options)];
+	return Array.from({ length: passes }, (_, index) => buildRenderCommand(options, index + 1));
+}
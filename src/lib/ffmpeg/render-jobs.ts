@@ -0,0 +1,340 @@
+import { spawn } from 'child_process';
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { ExportSettings } from '@/types/effects';
+import { TimelineClip } from '@/types/timeline';
+import { AudioTrack } from '@/types/audio';
+import { CaptionCue, CaptionOptions } from '@/types/captions';
+import { WatermarkOptions } from '@/types/watermark';
+import { RenderJobSnapshot, RenderStage, RENDER_STAGE_RANGES } from '@/types/jobs';
+import { RenderAudio, RenderCaptions, RenderWatermark, buildRenderPasses, totalFrameCount } from '@/lib/ffmpeg/render-command';
+import { FFmpegCommand } from '@/lib/ffmpeg/command-builder';
+import { FilterGraphError, RenderCancelledError } from '@/lib/ffmpeg/errors';
+import { resolveBinary } from '@/lib/ffmpeg/binaries';
+import { createJobWorkspace, getJobWorkspace, removeJobWorkspace, sweepWorkspaces } from '@/lib/ffmpeg/workspace';
+import { FFmpegProgress, createLineSplitter, parseProgressLine, progressRatio } from '@/lib/ffmpeg/progress';
+import { enabledLayers } from '@/lib/effects/stack';
+import { timelineDuration } from '@/lib/timeline/clips';
+import { toSrt } from '@/lib/captions/cues';
+
+
+// Finished jobs (and their output files) are kept this long for download
+const JOB_TTL_MS = 10 * 60 * 1000;
+
+// How long a running job may go without any progress subscriber before it is treated as abandoned
+const ABANDON_GRACE_MS = 10 * 1000;
+
+const JANITOR_INTERVAL_MS = 5 * 60 * 1000;
+
+// Stderr markers ffmpeg emits when a -filter_complex graph can't be parsed or configured
+const FILTER_GRAPH_ERROR_PATTERNS = [
+	/Error (?:initializing|parsing|reinitializing) (?:complex )?filter/i,
+	/No such filter/i,
+	/Error (?:while )?(?:parsing|applying) option/i,
+	/Invalid (?:too big or non positive )?size/i,
+	/Failed to configure (?:input|output) pad/i,
+	/Unable to parse option value/i,
+];
+
+function findFilterGraphError(stderr: string): string | null {
+	const lines = stderr.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+	const match = lines.find(line => FILTER_GRAPH_ERROR_PATTERNS.some(pattern => pattern.test(line)));
+	return match ?? null;
+}
+
+export interface RenderJob extends RenderJobSnapshot {
+	workDir: string;
+	outputPath: string;
+	controller: AbortController;
+}
+
+export interface RenderJobRequest {
+	/** One image per clip, in timeline order */
+	images: Buffer[];
+	clips: TimelineClip[];
+	settings: ExportSettings;
+	audio?: RenderJobAudio;
+	captions?: RenderJobCaptions;
+	watermark?: RenderJobWatermark;
+}
+
+export interface RenderJobAudio {
+	data: Buffer;
+	/** Extension of the uploaded file (`.mp3`), so ffmpeg can pick the demuxer */
+	extension: string;
+	track: AudioTrack;
+}
+
+export interface RenderJobCaptions extends CaptionOptions {
+	/** Validated cues; written to the workspace as SRT whatever format was uploaded */
+	cues: CaptionCue[];
+}
+
+export interface RenderJobWatermark {
+	/** PNG logo image */
+	data: Buffer;
+	options: WatermarkOptions;
+}
+
+type RenderJobListener = (snapshot: RenderJobSnapshot) => void;
+
+// Route handlers are bundled separately, so the registry lives on globalThis to be shared between them
+const globalForJobs = globalThis as unknown as {
+	renderJobs?: Map<string, RenderJob>;
+	renderJobEvents?: EventEmitter;
+	renderJobJanitor?: NodeJS.Timeout;
+};
+const jobs = globalForJobs.renderJobs ??= new Map<string, RenderJob>();
+const events = globalForJobs.renderJobEvents ??= new EventEmitter().setMaxListeners(0);
+
+// Workspaces stay in use while their job is registered, i.e. until it expires after download
+export function sweepOrphanedWorkspaces(): Promise<number> {
+	return sweepWorkspaces(jobId => jobs.has(jobId));
+}
+
+if (!globalForJobs.renderJobJanitor) {
+	globalForJobs.renderJobJanitor = setInterval(() => {
+		sweepOrphanedWorkspaces().catch(console.error);
+	}, JANITOR_INTERVAL_MS);
+	globalForJobs.renderJobJanitor.unref?.();
+	sweepOrphanedWorkspaces().catch(console.error);
+}
+
+export function toSnapshot(job: RenderJob): RenderJobSnapshot {
+	const { id, status, stage, progress, message, error, format, createdAt, updatedAt } = job;
+	return { id, status, stage, progress, message, error, format, createdAt, updatedAt };
+}
+
+export function getRenderJob(id: string): RenderJob | undefined {
+	return jobs.get(id);
+}
+
+export function isTerminal(job: RenderJobSnapshot): boolean {
+	return job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+}
+
+export function subscribeToRenderJob(id: string, listener: RenderJobListener): () => void {
+	events.on(id, listener);
+	return () => {
+		events.off(id, listener);
+	};
+}
+
+/**
+ * Stops a queued or running job: kills its ffmpeg process and removes its files.
+ * Returns false when the job is unknown or already finished.
+ */
+export function cancelRenderJob(id: string, reason = 'Render cancelled'): boolean {
+	const job = jobs.get(id);
+	if (!job || isTerminal(job)) return false;
+	job.controller.abort(new RenderCancelledError(reason));
+	return true;
+}
+
+/**
+ * Cancels a running job once nobody has listened to its progress for a grace period,
+ * so a closed tab doesn't leave an encode burning CPU.
+ */
+export function cancelIfAbandoned(id: string) {
+	const timer = setTimeout(() => {
+		const job = jobs.get(id);
+		if (job && !isTerminal(job) && events.listenerCount(id) === 0) {
+			cancelRenderJob(id, 'Client disconnected');
+		}
+	}, ABANDON_GRACE_MS);
+	timer.unref?.();
+}
+
+function updateJob(job: RenderJob, patch: Partial<RenderJobSnapshot>) {
+	Object.assign(job, patch, { updatedAt: Date.now() });
+	events.emit(job.id, toSnapshot(job));
+}
+
+// Maps a 0..1 ratio within a stage onto overall job progress
+function stageProgress(stage: RenderStage, ratio: number): number {
+	const [start, end] = RENDER_STAGE_RANGES[stage];
+	return Math.round(start + (end - start) * Math.min(Math.max(ratio, 0), 1));
+}
+
+function scheduleExpiry(job: RenderJob) {
+	const timer = setTimeout(() => {
+		jobs.delete(job.id);
+		removeJobWorkspace(job.workDir);
+	}, JOB_TTL_MS);
+	timer.unref?.();
+}
+
+export function createRenderJob(settings: ExportSettings): RenderJob {
+	const id = randomUUID();
+	const now = Date.now();
+	const workDir = getJobWorkspace(id);
+	const job: RenderJob = {
+		id,
+		status: 'queued',
+		stage: 'upload',
+		progress: 0,
+		message: 'Queued',
+		format: settings.format,
+		createdAt: now,
+		updatedAt: now,
+		workDir,
+		outputPath: path.join(workDir, `output.${settings.format}`),
+		controller: new AbortController(),
+	};
+	jobs.set(id, job);
+	return job;
+}
+
+export interface RunFFmpegOptions {
+	signal: AbortSignal;
+	clips: TimelineClip[];
+	onProgress?: (progress: FFmpegProgress) => void;
+}
+
+export function runFFmpeg(ffmpegPath: string, command: FFmpegCommand, { signal, clips, onProgress }: RunFFmpegOptions): Promise<void> {
+	return new Promise<void>((resolve, reject) => {
+		console.log('Executing FFmpeg:', command.toString());
+		// Aborting the job's signal kills the child process
+		const process = spawn(ffmpegPath, command.toArgs(), { signal, killSignal: 'SIGKILL' });
+
+		let errorOutput = '';
+		const lines = createLineSplitter(line => {
+			const parsed = parseProgressLine(line);
+			if (parsed) onProgress?.(parsed);
+		});
+
+		process.stderr.on('data', (data: Buffer) => {
+			const output = data.toString();
+			errorOutput += output;
+			lines.push(output);
+		});
+
+		process.on('error', (err) => {
+			if (signal.aborted) {
+				reject(signal.reason);
+				return;
+			}
+			console.error('FFmpeg process error:', err);
+			console.error('Full error output:', errorOutput);
+			reject(err);
+		});
+
+		process.on('exit', (code: number) => {
+			lines.flush();
+			console.log('FFmpeg exit code:', code);
+			if (signal.aborted) reject(signal.reason);
+			else if (code === 0) resolve();
+			else {
+				console.error('Full error output:', errorOutput);
+				const filterError = findFilterGraphError(errorOutput);
+				reject(filterError
+					? new FilterGraphError(clips.flatMap(clip => enabledLayers(clip.layers).map(layer => layer.type)), filterError)
+					: new Error(`FFmpeg exited with code ${code}`));
+			}
+		});
+	});
+}
+
+/**
+ * Runs a render job to completion, publishing progress to subscribers.
+ * Never rejects: failures are recorded on the job itself.
+ */
+export async function runRenderJob(job: RenderJob, { images, clips, settings, audio, captions, watermark }: RenderJobRequest): Promise<void> {
+	const { signal } = job.controller;
+	try {
+		signal.throwIfAborted();
+		updateJob(job, { status: 'running', stage: 'upload', progress: stageProgress('upload', 0), message: 'Saving upload' });
+		await createJobWorkspace(job.id);
+		const inputPaths = images.map((_, index) => path.join(job.workDir, `input-${index}.png`));
+		for (let index = 0; index < images.length; index++) {
+			await fs.writeFile(inputPaths[index], images[index]);
+
+			// Verify file was written
+			const stats = await fs.stat(inputPaths[index]);
+			if (stats.size === 0) {
+				throw new Error('Failed to write input file');
+			}
+			updateJob(job, { progress: stageProgress('upload', (index + 1) / (images.length + (audio ? 1 : 0))) });
+		}
+		let renderAudio: RenderAudio | undefined;
+		if (audio) {
+			renderAudio = { path: path.join(job.workDir, `audio${audio.extension}`), track: audio.track };
+			await fs.writeFile(renderAudio.path, audio.data);
+			updateJob(job, { progress: stageProgress('upload', 1) });
+		}
+		let renderCaptions: RenderCaptions | undefined;
+		if (captions) {
+			const { cues, ...options } = captions;
+			renderCaptions = { ...options, path: path.join(job.workDir, 'captions.srt') };
+			await fs.writeFile(renderCaptions.path, toSrt(cues), 'utf8');
+		}
+		let renderWatermark: RenderWatermark | undefined;
+		if (watermark) {
+			renderWatermark = { path: path.join(job.workDir, 'watermark.png'), options: watermark.options };
+			await fs.writeFile(renderWatermark.path, watermark.data);
+		}
+
+		signal.throwIfAborted();
+		updateJob(job, { stage: 'encode', progress: stageProgress('encode', 0), message: 'Encoding video' });
+
+		const ffmpegPath = await resolveBinary('ffmpeg');
+		const passes = buildRenderPasses({
+			inputPaths,
+			outputPath: job.outputPath,
+			clips,
+			settings,
+			passLogFile: path.join(job.workDir, 'ffmpeg2pass'),
+			palettePath: path.join(job.workDir, 'palette.png'),
+			audio: renderAudio,
+			captions: renderCaptions,
+			watermark: renderWatermark,
+		});
+		const totalFrames = totalFrameCount(clips, settings);
+		const duration = timelineDuration(clips);
+
+		for (let index = 0; index < passes.length; index++) {
+			const command = passes[index];
+			const passLabel = passes.length > 1 ? `Pass ${index + 1}/${passes.length}: ` : '';
+			await runFFmpeg(ffmpegPath, command, {
+				signal,
+				clips,
+				onProgress: parsed => {
+					// Each pass covers an equal share of the encode stage
+					const ratio = (index + progressRatio(parsed, totalFrames, duration)) / passes.length;
+					const progress = stageProgress('encode', ratio);
+					if (progress !== job.progress) {
+						updateJob(job, { progress, message: `${passLabel}Encoding frame ${parsed.frame ?? '?'} of ${totalFrames}` });
+					}
+				},
+			});
+		}
+
+		updateJob(job, { stage: 'finalize', progress: stageProgress('finalize', 0), message: 'Finalizing' });
+		const output = await fs.stat(job.outputPath);
+		if (output.size === 0) {
+			throw new Error('FFmpeg produced an empty output file');
+		}
+		const uploads = [...inputPaths, renderAudio?.path, renderWatermark?.path].filter((upload): upload is string => !!upload);
+		await Promise.all(uploads.map(upload => fs.rm(upload, { force: true }))).catch(console.error);
+
+		updateJob(job, { status: 'completed', progress: 100, message: 'Export complete!' });
+	} catch (error) {
+		await removeJobWorkspace(job.workDir);
+		if (signal.aborted) {
+			const reason = signal.reason instanceof Error ? signal.reason.message : 'Render cancelled';
+			console.log(`Render job ${job.id} cancelled: ${reason}`);
+			updateJob(job, { status: 'cancelled', message: reason });
+			return;
+		}
+		console.error('FFmpeg processing error:', error);
+		updateJob(job, {
+			status: 'failed',
+			message: 'Export failed',
+			error: error instanceof Error ? error.message : 'FFmpeg processing failed',
+		});
+	} finally {
+		scheduleExpiry(job);
+	}
+}
@@ -0,0 +1,168 @@
+import { CONTAINER_CODECS, EffectType, ExportFormat, VideoCodec } from '@/types/effects';
+import { CaptionMode } from '@/types/captions';
+import { FFmpegCapabilities } from '@/types/capabilities';
+import { VIDEO_CODECS } from '@/lib/ffmpeg/codecs';
+import { AUDIO_CODECS, AUDIO_FILTERS } from '@/lib/ffmpeg/audio';
+import { CAPTION_BURN_IN_FILTERS, SUBTITLE_CODECS } from '@/lib/ffmpeg/captions';
+
+// Encoders the health check looks for
+export const PROBED_ENCODERS = [
+	'libx264',
+	'libx265',
+	'libvpx-vp9',
+	'libaom-av1',
+	'libsvtav1',
+	'prores_ks',
+	'gif',
+	'libwebp',
+	'png',
+	'aac',
+	'libopus',
+	'mov_text',
+	'srt',
+	'webvtt',
+];
+
+// Filters the health check looks for
+export const PROBED_FILTERS = [
+	'scale',
+	'pad',
+	'crop',
+	'zoompan',
+	'rotate',
+	'blend',
+	'geq',
+	'eq',
+	'xfade',
+	'drawtext',
+	'overlay',
+	'colorchannelmixer',
+	'fade',
+	'palettegen',
+	'paletteuse',
+	'select',
+	'tile',
+	'subtitles',
+	'atrim',
+	'aloop',
+	'afade',
+	'aresample',
+	'loudnorm',
+];
+
+
+// Filters each effect's graph depends on, beyond the scale/pad every graph starts with
+export const EFFECT_FILTERS: Record<EffectType, string[]> = {
+	ZOOM: ['zoompan'],
+	PAN: ['crop'],
+	PARALLAX: ['crop', 'blend'],
+	WAVE: ['geq'],
+	PULSE: ['zoompan', 'eq'],
+	ROTATION: ['rotate'],
+	DRIFT: ['rotate', 'crop'],
+	KEN_BURNS: ['zoompan'],
+};
+
+const BASE_FILTERS = ['scale', 'pad'];
+
+// Filters the logo chain uses to fade and blend the watermark
+export const WATERMARK_FILTERS = ['overlay', 'colorchannelmixer', 'fade'];
+
+// Transitions overlap neighbouring clips with xfade (ffmpeg 4.3 and newer)
+export const TRANSITION_FILTERS = ['xfade'];
+
+// Filmstrips pick their frames with select and lay them out with tile
+export const FILMSTRIP_FILTERS = ['select', 'tile'];
+
+export function supportsAll(available: Record<string, boolean>, required: string[]): boolean {
+	return required.every(name => available[name]);
+}
+
+export function isFormatSupported(capabilities: FFmpegCapabilities | null, format: ExportFormat): boolean {
+	// Until the health check answers, don't lock anything out
+	if (!capabilities) return true;
+	return capabilities.available && capabilities.formats[format] !== false;
+}
+
+export function isCodecSupported(capabilities: FFmpegCapabilities | null, codec: VideoCodec): boolean {
+	if (!capabilities) return true;
+	return capabilities.available && capabilities.codecs[codec] !== false;
+}
+
+export function isEffectSupported(capabilities: FFmpegCapabilities | null, effect: EffectType): boolean {
+	if (!capabilities) return true;
+	return capabilities.available && capabilities.effects[effect] !== false;
+}
+
+// Text overlays are drawn with drawtext, which needs an ffmpeg built with libfreetype
+export function isTextSupported(capabilities: FFmpegCapabilities | null): boolean {
+	if (!capabilities) return true;
+	return capabilities.available && capabilities.filters.drawtext !== false;
+}
+
+export function isWatermarkSupported(capabilities: FFmpegCapabilities | null): boolean {
+	if (!capabilities) return true;
+	return capabilities.available && supportsAll(capabilities.filters, WATERMARK_FILTERS);
+}
+
+export function isTransitionSupported(capabilities: FFmpegCapabilities | null): boolean {
+	if (!capabilities) return true;
+	return capabilities.available && supportsAll(capabilities.filters, TRANSITION_FILTERS);
+}
+
+// Proxies are always H.264, whatever the export uses
+export function isProxySupported(capabilities: FFmpegCapabilities | null): boolean {
+	if (!capabilities) return true;
+	return capabilities.available && supportsAll(capabilities.encoders, ['libx264']);
+}
+
+export function isFilmstripSupported(capabilities: FFmpegCapabilities | null): boolean {
+	if (!capabilities) return true;
+	return capabilities.available
+		&& supportsAll(capabilities.encoders, ['png'])
+		&& supportsAll(capabilities.filters, FILMSTRIP_FILTERS);
+}
+
+// Whether `format` can carry a background audio track with this ffmpeg build
+export function isAudioSupported(capabilities: FFmpegCapabilities | null, format: ExportFormat): boolean {
+	const profile = AUDIO_CODECS[format];
+	if (!profile) return false;
+	if (!capabilities) return true;
+	return capabilities.available
+		&& supportsAll(capabilities.encoders, [profile.encoder])
+		&& supportsAll(capabilities.filters, AUDIO_FILTERS);
+}
+
+// Burning in needs libass; embedding needs the container's subtitle encoder
+export function isCaptionSupported(capabilities: FFmpegCapabilities | null, format: ExportFormat, mode: CaptionMode): boolean {
+	const profile = SUBTITLE_CODECS[format];
+	if (mode === 'EMBED' && !profile) return false;
+	if (!capabilities) return true;
+	if (!capabilities.available) return false;
+	return profile && mode === 'EMBED'
+		? supportsAll(capabilities.encoders, [profile.encoder])
+		: supportsAll(capabilities.filters, CAPTION_BURN_IN_FILTERS);
+}
+
+export function resolveCodecSupport(encoders: Record<string, boolean>, filters: Record<string, boolean>): Record<string, boolean> {
+	return Object.fromEntries(
+		Object.entries(VIDEO_CODECS).map(([codec, profile]) => [
+			codec,
+			supportsAll(encoders, [profile.encoder]) && supportsAll(filters, profile.filters ?? []),
+		])
+	);
+}
+
+// A container is usable when at least one of its codecs can be encoded
+export function resolveFormatSupport(encoders: Record<string, boolean>, filters: Record<string, boolean>): Record<string, boolean> {
+	const codecs = resolveCodecSupport(encoders, filters);
+	return Object.fromEntries(
+		Object.entries(CONTAINER_CODECS).map(([format, allowed]) => [format, allowed.some(codec => codecs[codec])])
+	);
+}
+
+export function resolveEffectSupport(filters: Record<string, boolean>): Record<string, boolean> {
+	return Object.fromEntries(
+		Object.entries(EFFECT_FILTERS).map(([effect, required]) => [effect, supportsAll(filters, [...BASE_FILTERS, ...required])])
+	);
+}
@@ -0,0 +1,60 @@
+import { ExportSettings } from '@/types/effects';
+import { TextOverlay } from '@/types/text';
+import { Filter, FilterGraph, filter, formatNumber as num } from '@/lib/ffmpeg/filter-graph';
+import { AnchorAlignment, TEXT_ANCHORS, TEXT_SHADOW_OFFSET, TEXT_SHADOW_OPACITY, textMotionExpressions, textSegments } from '@/lib/text/overlays';
+import { fontOptions } from '@/lib/ffmpeg/fonts';
+
+// Position along one axis for an anchor alignment, `margin` pixels from the anchored edge
+function place(alignment: AnchorAlignment, frame: string, text: string, margin: number): string {
+	switch (alignment) {
+		case 'start': return `${margin}`;
+		case 'center': return `(${frame}-${text})/2`;
+		case 'end': return `${frame}-${text}-${margin}`;
+	}
+}
+
+// Adds a motion offset (a fraction of the frame) to a position
+const offsetBy = (position: string, motion: string, frame: string) =>
+	motion === '0' ? position : `${position}+(${motion})*${frame}`;
+
+/** One drawtext per span of visible text; typewriter animations need one per character step. */
+function drawtextFilters(overlay: TextOverlay, { height }: ExportSettings): Filter[] {
+	// Sizes are percentages of the frame height
+	const px = (percent: number) => Math.round(percent / 100 * height);
+	const margin = px(overlay.margin);
+	const motion = textMotionExpressions(overlay);
+	const { horizontal, vertical } = TEXT_ANCHORS[overlay.anchor];
+	const shadow = overlay.shadow ? Math.max(px(TEXT_SHADOW_OFFSET), 1) : undefined;
+
+	const options = {
+		...fontOptions(overlay.font),
+		// Draw the text literally; `%{...}` sequences are not expanded
+		expansion: 'none',
+		fontsize: px(overlay.size),
+		fontcolor: overlay.color,
+		alpha: motion.alpha,
+		x: offsetBy(place(horizontal, 'w', 'text_w', margin), motion.dx, 'w'),
+		y: offsetBy(place(vertical, 'h', 'text_h', margin), motion.dy, 'h'),
+		borderw: overlay.strokeWidth > 0 ? Math.max(px(overlay.strokeWidth), 1) : undefined,
+		bordercolor: overlay.strokeWidth > 0 ? overlay.strokeColor : undefined,
+		shadowx: shadow,
+		shadowy: shadow,
+		shadowcolor: overlay.shadow ? `black@${TEXT_SHADOW_OPACITY}` : undefined,
+	};
+	return textSegments(overlay).map(segment => filter('drawtext', {
+		...options,
+		text: segment.text,
+		enable: `gte(t,${num(segment.start)})*lt(t,${num(segment.end)})`,
+	}));
+}
+
+/** Draws `overlays` over `input`, first to last, ending in `output`. */
+export function appendTextOverlays(
+	graph: FilterGraph,
+	overlays: TextOverlay[],
+	settings: ExportSettings,
+	input: string,
+	output: string
+): FilterGraph {
+	return graph.chain(input, overlays.flatMap(overlay => drawtextFilters(overlay, settings)), output);
+}
@@ -0,0 +1,80 @@
+import { Transition, TransitionType } from '@/types/timeline';
+import { FilterGraph, filter } from '@/lib/ffmpeg/filter-graph';
+import { easingExpression } from '@/lib/effects/keyframes';
+
+// Native xfade transitions, used as-is for linear easing
+export const XFADE_TRANSITIONS: Record<TransitionType, string> = {
+	CROSSFADE: 'fade',
+	DIP_TO_BLACK: 'fadeblack',
+	DIP_TO_WHITE: 'fadewhite',
+	WIPE_LEFT: 'wipeleft',
+	WIPE_RIGHT: 'wiperight',
+	WIPE_UP: 'wipeup',
+	WIPE_DOWN: 'wipedown',
+	SLIDE_LEFT: 'slideleft',
+	SLIDE_RIGHT: 'slideright',
+	SLIDE_UP: 'slideup',
+	SLIDE_DOWN: 'slidedown',
+	CIRCLE_REVEAL: 'circleopen',
+	ZOOM_THROUGH: 'zoomin',
+};
+
+// Pixel of the first (a) or second (b) clip at x,y on the current plane; gbrp has three planes
+const sample = (clip: 'a' | 'b', x: string, y: string) =>
+	`if(eq(PLANE,0),${clip}0(${x},${y}),if(eq(PLANE,1),${clip}1(${x},${y}),${clip}2(${x},${y})))`;
+
+/**
+ * The native transitions rebuilt as xfade `custom` expressions of an eased progress
+ * `e` (0 at the start, 1 at the end). They run on 8-bit gbrp, so black is 0 and white 255.
+ */
+const CUSTOM_TRANSITIONS: Record<TransitionType, (e: string) => string> = {
+	CROSSFADE: e => `A*(1-${e})+B*${e}`,
+	DIP_TO_BLACK: e => `if(lt(${e},0.5),A*(1-2*${e}),B*(2*${e}-1))`,
+	DIP_TO_WHITE: e => `if(lt(${e},0.5),A+(255-A)*2*${e},B+(255-B)*(2-2*${e}))`,
+	WIPE_LEFT: e => `if(gt(X,W*(1-${e})),B,A)`,
+	WIPE_RIGHT: e => `if(lt(X,W*${e}),B,A)`,
+	WIPE_UP: e => `if(gt(Y,H*(1-${e})),B,A)`,
+	WIPE_DOWN: e => `if(lt(Y,H*${e}),B,A)`,
+	SLIDE_LEFT: e => `if(lt(X+W*${e},W),${sample('a', `X+W*${e}`, 'Y')},${sample('b', `X+W*${e}-W`, 'Y')})`,
+	SLIDE_RIGHT: e => `if(gte(X-W*${e},0),${sample('a', `X-W*${e}`, 'Y')},${sample('b', `X-W*${e}+W`, 'Y')})`,
+	SLIDE_UP: e => `if(lt(Y+H*${e},H),${sample('a', 'X', `Y+H*${e}`)},${sample('b', 'X', `Y+H*${e}-H`)})`,
+	SLIDE_DOWN: e => `if(gte(Y-H*${e},0),${sample('a', 'X', `Y-H*${e}`)},${sample('b', 'X', `Y-H*${e}+H`)})`,
+	CIRCLE_REVEAL: e => `if(lte(hypot(X-W/2,Y-H/2),${e}*hypot(W/2,H/2)),B,A)`,
+	ZOOM_THROUGH: e => `${sample('a', `W/2+(X-W/2)/(1+${e})`, `H/2+(Y-H/2)/(1+${e})`)}*(1-${e})+B*${e}`,
+};
+
+export interface TransitionTiming {
+	/** Seconds the clips overlap */
+	duration: number;
+	/** Seconds into the first input where the transition starts */
+	offset: number;
+	/** Pixel format the rest of the graph runs in */
+	pixelFormat: string;
+}
+
+/** Joins `first` and `second` with `transition`, writing the result to `output`. */
+export function appendTransition(
+	graph: FilterGraph,
+	[first, second]: [string, string],
+	transition: Transition,
+	{ duration, offset, pixelFormat }: TransitionTiming,
+	output: string
+): FilterGraph {
+	if (transition.easing === 'LINEAR') {
+		return graph.chain([first, second], [
+			filter('xfade', { transition: XFADE_TRANSITIONS[transition.type], duration, offset }),
+		], output);
+	}
+
+	// xfade's progress P runs from 1 down to 0
+	const eased = easingExpression(transition.easing, '(1-P)');
+	const [rgbFirst, rgbSecond] = [first, second].map(input => {
+		const label = graph.label('rgb');
+		graph.chain(input, [filter('format', ['gbrp'])], label);
+		return label;
+	});
+	return graph.chain([rgbFirst, rgbSecond], [
+		filter('xfade', { transition: 'custom', expr: CUSTOM_TRANSITIONS[transition.type](eased), duration, offset }),
+		filter('format', [pixelFormat]),
+	], output);
+}
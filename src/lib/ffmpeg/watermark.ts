@@ -0,0 +1,43 @@
+import { ExportSettings } from '@/types/effects';
+import { WatermarkOptions } from '@/types/watermark';
+import { FilterGraph, filter, formatNumber as num } from '@/lib/ffmpeg/filter-graph';
+import { graphPixelFormat } from '@/lib/ffmpeg/filter-complex';
+
+// Position along one axis: `margin` pixels from the anchored edge, or the custom
+// center kept inside the margins
+function position(options: WatermarkOptions, axis: 'x' | 'y', margin: number): string {
+	const [frame, logo] = axis === 'x' ? ['main_w', 'overlay_w'] : ['main_h', 'overlay_h'];
+	const far = `${frame}-${logo}-${margin}`;
+	if (options.anchor === 'CUSTOM') {
+		return `clip(${frame}*${num(options[axis])}-${logo}/2,${margin},${far})`;
+	}
+	const farSide = axis === 'x' ? options.anchor.endsWith('RIGHT') : options.anchor.startsWith('BOTTOM');
+	return farSide ? far : `${margin}`;
+}
+
+/**
+ * Scales the looped logo image `logo` to the export, fades it in and overlays it on `input`.
+ * It is applied after the timeline is joined, so it stays still over every clip's effects.
+ */
+export function appendWatermark(
+	graph: FilterGraph,
+	options: WatermarkOptions,
+	settings: ExportSettings,
+	[input, logo]: [string, string],
+	output: string
+): FilterGraph {
+	const margin = Math.round(options.margin / 100 * settings.height);
+	const prepared = graph.label('logo');
+	graph.chain(logo, [
+		filter('scale', { w: Math.max(Math.round(options.scale / 100 * settings.width), 1), h: -1 }),
+		filter('format', ['rgba']),
+		...(options.opacity < 1 ? [filter('colorchannelmixer', { aa: options.opacity })] : []),
+		...(options.fadeIn > 0 ? [filter('fade', { t: 'in', st: 0, d: options.fadeIn, alpha: 1 })] : []),
+	], prepared);
+
+	// format=auto keeps alpha in the main frames for formats that carry it
+	return graph.chain([input, prepared], [
+		filter('overlay', { x: position(options, 'x', margin), y: position(options, 'y', margin), format: 'auto' }),
+		filter('format', [graphPixelFormat(settings)]),
+	], output);
+}
@@ -0,0 +1,105 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { InsufficientDiskSpaceError } from '@/lib/ffmpeg/errors';
+
+export const WORKSPACE_ROOT = path.resolve(os.tmpdir(), 'vidnext-temp');
+
+// Orphaned workspaces (left behind by crashes or restarts) older than this are swept
+const MAX_WORKSPACE_AGE_MS = 60 * 60 * 1000;
+// Oldest workspaces are evicted once all of them together exceed this size
+const MAX_TOTAL_WORKSPACE_BYTES = 5 * 1024 * 1024 * 1024;
+// New jobs are refused when the temp volume has less free space than this
+const MIN_FREE_BYTES = 1024 * 1024 * 1024;
+
+interface WorkspaceEntry {
+	id: string;
+	dir: string;
+	modifiedAt: number;
+	size: number;
+}
+
+export async function createJobWorkspace(jobId: string): Promise<string> {
+	const dir = path.join(WORKSPACE_ROOT, jobId);
+	await fs.mkdir(dir, { recursive: true });
+	return dir;
+}
+
+export function getJobWorkspace(jobId: string): string {
+	return path.join(WORKSPACE_ROOT, jobId);
+}
+
+export async function removeJobWorkspace(dir: string): Promise<void> {
+	await fs.rm(dir, { recursive: true, force: true }).catch(console.error);
+}
+
+async function directorySize(dir: string): Promise<number> {
+	const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+	let total = 0;
+	for (const entry of entries) {
+		const entryPath = path.join(dir, entry.name);
+		if (entry.isDirectory()) {
+			total += await directorySize(entryPath);
+		} else {
+			const stats = await fs.stat(entryPath).catch(() => null);
+			total += stats?.size ?? 0;
+		}
+	}
+	return total;
+}
+
+async function listWorkspaces(): Promise<WorkspaceEntry[]> {
+	const entries = await fs.readdir(WORKSPACE_ROOT, { withFileTypes: true }).catch(() => []);
+	const workspaces: WorkspaceEntry[] = [];
+	for (const entry of entries) {
+		const dir = path.join(WORKSPACE_ROOT, entry.name);
+		if (!entry.isDirectory()) {
+			// Loose files are leftovers from the old shared temp directory layout
+			await fs.rm(dir, { force: true }).catch(console.error);
+			continue;
+		}
+		const stats = await fs.stat(dir).catch(() => null);
+		if (!stats) continue;
+		workspaces.push({ id: entry.name, dir, modifiedAt: stats.mtimeMs, size: await directorySize(dir) });
+	}
+	return workspaces;
+}
+
+/**
+ * Removes workspaces that no live job owns: first anything older than the age limit,
+ * then the oldest remaining ones until the total size fits the budget.
+ */
+export async function sweepWorkspaces(isInUse: (jobId: string) => boolean): Promise<number> {
+	const now = Date.now();
+	const workspaces = (await listWorkspaces()).sort((a, b) => a.modifiedAt - b.modifiedAt);
+	let totalSize = workspaces.reduce((sum, workspace) => sum + workspace.size, 0);
+	let removed = 0;
+
+	for (const workspace of workspaces) {
+		if (isInUse(workspace.id)) continue;
+		const expired = now - workspace.modifiedAt > MAX_WORKSPACE_AGE_MS;
+		if (!expired && totalSize <= MAX_TOTAL_WORKSPACE_BYTES) continue;
+
+		await removeJobWorkspace(workspace.dir);
+		totalSize -= workspace.size;
+		removed++;
+	}
+
+	if (removed > 0) {
+		console.log(`Workspace janitor removed ${removed} orphaned workspace(s)`);
+	}
+	return removed;
+}
+
+/**
+ * Refuses new work when the temp volume is nearly full, before ffmpeg
+ * fails halfway through writing its output.
+ */
+export async function ensureDiskSpace(): Promise<void> {
+	await fs.mkdir(WORKSPACE_ROOT, { recursive: true });
+	const stats = await fs.statfs(WORKSPACE_ROOT);
+	const freeBytes = stats.bavail * stats.bsize;
+	if (freeBytes < MIN_FREE_BYTES) {
+		throw new InsufficientDiskSpaceError(freeBytes);
+	}
+}
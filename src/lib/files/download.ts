@@ -0,0 +1,11 @@
+/** Saves `blob` through the browser's download prompt. */
+export function downloadBlob(blob: Blob, fileName: string) {
+	const url = URL.createObjectURL(blob);
+	const a = document.createElement('a');
+	a.href = url;
+	a.download = fileName;
+	document.body.appendChild(a);
+	a.click();
+	document.body.removeChild(a);
+	URL.revokeObjectURL(url);
+}
@@ -0,0 +1,222 @@
+// Just enough of the zip format for project files and batch downloads: entries are written
+// uncompressed, and reading also accepts deflated entries, so archives repacked by other tools open
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_DIRECTORY = 0x06054b50;
+// General purpose flag bit 11: names are UTF-8
+const UTF8_NAMES = 0x0800;
+const STORED = 0;
+const DEFLATED = 8;
+
+export interface ZipEntry {
+	name: string;
+	data: Uint8Array<ArrayBuffer>;
+}
+
+export interface ZipBlobEntry {
+	name: string;
+	blob: Blob;
+}
+
+// An entry ready to write: its contents go into the archive as they are
+interface PackedEntry {
+	name: string;
+	data: Uint8Array<ArrayBuffer> | Blob;
+	size: number;
+	crc: number;
+}
+
+export class ZipFormatError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'ZipFormatError';
+	}
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+	let crc = index;
+	for (let bit = 0; bit < 8; bit++) {
+		crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+	}
+	return crc >>> 0;
+});
+
+// Folds `data` into a running CRC, so large files can be checksummed a chunk at a time
+function updateCrc(crc: number, data: Uint8Array): number {
+	for (let index = 0; index < data.length; index++) {
+		crc = CRC_TABLE[(crc ^ data[index]) & 0xff] ^ (crc >>> 8);
+	}
+	return crc;
+}
+
+export function crc32(data: Uint8Array): number {
+	return (updateCrc(0xffffffff, data) ^ 0xffffffff) >>> 0;
+}
+
+async function blobCrc32(blob: Blob): Promise<number> {
+	const reader = blob.stream().getReader();
+	let crc = 0xffffffff;
+	for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+		crc = updateCrc(crc, chunk.value);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date and time, which have a two second resolution
+function dosDateTime(date: Date): { time: number; date: number } {
+	return {
+		time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+		date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+	};
+}
+
+// Without the zip64 extension, offsets are 32-bit and entry counts 16-bit
+const MAX_ZIP_BYTES = 0xffffffff;
+const MAX_ZIP_ENTRIES = 0xffff;
+
+function checkEntryCount(count: number) {
+	if (count > MAX_ZIP_ENTRIES) {
+		throw new ZipFormatError(`A zip holds at most ${MAX_ZIP_ENTRIES} files`);
+	}
+}
+
+function packZip(entries: PackedEntry[], modified: Date): Blob {
+	const encoder = new TextEncoder();
+	const stamp = dosDateTime(modified);
+	const parts: (Uint8Array<ArrayBuffer> | Blob)[] = [];
+	const directory: Uint8Array<ArrayBuffer>[] = [];
+	let offset = 0;
+
+	for (const entry of entries) {
+		const name = encoder.encode(entry.name);
+		const { crc, size } = entry;
+
+		const local = new DataView(new ArrayBuffer(30));
+		local.setUint32(0, LOCAL_HEADER, true);
+		local.setUint16(4, 20, true);
+		local.setUint16(6, UTF8_NAMES, true);
+		local.setUint16(8, STORED, true);
+		local.setUint16(10, stamp.time, true);
+		local.setUint16(12, stamp.date, true);
+		local.setUint32(14, crc, true);
+		local.setUint32(18, size, true);
+		local.setUint32(22, size, true);
+		local.setUint16(26, name.length, true);
+		parts.push(new Uint8Array(local.buffer), name, entry.data);
+
+		const central = new DataView(new ArrayBuffer(46));
+		central.setUint32(0, CENTRAL_HEADER, true);
+		central.setUint16(4, 20, true);
+		central.setUint16(6, 20, true);
+		central.setUint16(8, UTF8_NAMES, true);
+		central.setUint16(10, STORED, true);
+		central.setUint16(12, stamp.time, true);
+		central.setUint16(14, stamp.date, true);
+		central.setUint32(16, crc, true);
+		central.setUint32(20, size, true);
+		central.setUint32(24, size, true);
+		central.setUint16(28, name.length, true);
+		central.setUint32(42, offset, true);
+		directory.push(new Uint8Array(central.buffer), name);
+
+		offset += 30 + name.length + size;
+		if (offset > MAX_ZIP_BYTES) throw new ZipFormatError('The files are too large for one zip (over 4 GB)');
+	}
+
+	const directorySize = directory.reduce((total, part) => total + part.length, 0);
+	const end = new DataView(new ArrayBuffer(22));
+	end.setUint32(0, END_OF_DIRECTORY, true);
+	end.setUint16(8, entries.length, true);
+	end.setUint16(10, entries.length, true);
+	end.setUint32(12, directorySize, true);
+	end.setUint32(16, offset, true);
+
+	return new Blob([...parts, ...directory, new Uint8Array(end.buffer)], { type: 'application/zip' });
+}
+
+/** Packs `entries` into an uncompressed zip archive. Throws a ZipFormatError past the format's 4 GB limit. */
+export function createZip(entries: ZipEntry[], modified = new Date()): Blob {
+	checkEntryCount(entries.length);
+	return packZip(entries.map(({ name, data }) => ({ name, data, size: data.length, crc: crc32(data) })), modified);
+}
+
+/**
+ * Like createZip, for contents already held as Blobs: each is streamed once, in turn, for its
+ * checksum, and the archive refers to the Blobs instead of copying them into memory.
+ */
+export async function createZipFromBlobs(entries: ZipBlobEntry[], modified = new Date()): Promise<Blob> {
+	checkEntryCount(entries.length);
+	const packed: PackedEntry[] = [];
+	for (const { name, blob } of entries) {
+		packed.push({ name, data: blob, size: blob.size, crc: await blobCrc32(blob) });
+	}
+	return packZip(packed, modified);
+}
+
+async function inflate(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+	const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+	return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Unpacks a zip archive into a map of entry name to contents. Directories are skipped.
+ * Throws a ZipFormatError for anything that isn't a readable zip.
+ */
+export async function readZip(blob: Blob): Promise<Map<string, Uint8Array<ArrayBuffer>>> {
+	const bytes = new Uint8Array(await blob.arrayBuffer());
+	const view = new DataView(bytes.buffer);
+	const decoder = new TextDecoder();
+
+	// The end record sits at the very end, unless the archive has a comment
+	let endOffset = -1;
+	for (let index = bytes.length - 22; index >= Math.max(bytes.length - 22 - 0xffff, 0); index--) {
+		if (view.getUint32(index, true) === END_OF_DIRECTORY) {
+			endOffset = index;
+			break;
+		}
+	}
+	if (endOffset < 0) throw new ZipFormatError('The file is not a zip archive');
+
+	const count = view.getUint16(endOffset + 10, true);
+	let cursor = view.getUint32(endOffset + 16, true);
+	const entries = new Map<string, Uint8Array<ArrayBuffer>>();
+	for (let index = 0; index < count; index++) {
+		if (cursor + 46 > bytes.length || view.getUint32(cursor, true) !== CENTRAL_HEADER) {
+			throw new ZipFormatError('The zip directory is damaged');
+		}
+		const method = view.getUint16(cursor + 10, true);
+		const crc = view.getUint32(cursor + 16, true);
+		const compressedSize = view.getUint32(cursor + 20, true);
+		const nameLength = view.getUint16(cursor + 28, true);
+		const extraLength = view.getUint16(cursor + 30, true);
+		const commentLength = view.getUint16(cursor + 32, true);
+		const localOffset = view.getUint32(cursor + 42, true);
+		const name = decoder.decode(bytes.subarray(cursor + 46, cursor + 46 + nameLength));
+		cursor += 46 + nameLength + extraLength + commentLength;
+		if (name.endsWith('/')) continue;
+
+		if (localOffset + 30 > bytes.length || view.getUint32(localOffset, true) !== LOCAL_HEADER) {
+			throw new ZipFormatError(`The zip entry ${name} is damaged`);
+		}
+		// The local header may carry a different extra field than the directory does
+		const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+		if (dataStart + compressedSize > bytes.length) {
+			throw new ZipFormatError(`The zip entry ${name} is truncated`);
+		}
+		const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+		let data: Uint8Array<ArrayBuffer>;
+		if (method === STORED) {
+			data = raw;
+		} else if (method === DEFLATED) {
+			data = await inflate(raw).catch(() => {
+				throw new ZipFormatError(`The zip entry ${name} is corrupt`);
+			});
+		} else {
+			throw new ZipFormatError(`The zip entry ${name} uses an unsupported compression method`);
+		}
+		if (crc32(data) !== crc) throw new ZipFormatError(`The zip entry ${name} is corrupt`);
+		entries.set(name, data);
+	}
+	return entries;
+}
@@ -0,0 +1,77 @@
+// Entries past the cap fall off the old end, releasing the states (and files) only they held
+export const MAX_HISTORY_ENTRIES = 100;
+// Edits of the same group closer together than this merge, so a slider drag is one entry
+export const COALESCE_WINDOW_MS = 1000;
+
+/** What an edit did, as shown in the history list. */
+export interface HistoryEdit {
+	label: string;
+	/** Consecutive edits with the same group merge while they keep coming quickly */
+	group?: string;
+}
+
+export interface HistoryEntry<T> {
+	id: number;
+	label: string;
+	group?: string;
+	state: T;
+	/** When the entry last changed, in ms */
+	time: number;
+}
+
+/**
+ * Every state the editor has been in, oldest first. States are immutable and share
+ * whatever an edit didn't touch, so an entry costs little more than what changed.
+ */
+export interface History<T> {
+	entries: HistoryEntry<T>[];
+	/** The entry on screen; entries after it can be redone */
+	index: number;
+	nextId: number;
+}
+
+export function createHistory<T>(state: T, label: string): History<T> {
+	return { entries: [{ id: 0, label, state, time: Date.now() }], index: 0, nextId: 1 };
+}
+
+export function currentState<T>(history: History<T>): T {
+	return history.entries[history.index].state;
+}
+
+/** Adds `state` as the newest entry, discarding anything that could have been redone. */
+export function recordEdit<T>(history: History<T>, state: T, edit: HistoryEdit, now = Date.now()): History<T> {
+	const current = history.entries[history.index];
+	if (state === current.state) return history;
+
+	const isNewest = history.index === history.entries.length - 1;
+	if (edit.group && isNewest && current.group === edit.group && now - current.time < COALESCE_WINDOW_MS) {
+		const entries = [...history.entries];
+		entries[history.index] = { ...current, state, time: now };
+		return { ...history, entries };
+	}
+
+	const entries = [
+		...history.entries.slice(0, history.index + 1),
+		{ id: history.nextId, label: edit.label, group: edit.group, state, time: now },
+	].slice(-MAX_HISTORY_ENTRIES);
+	return { entries, index: entries.length - 1, nextId: history.nextId + 1 };
+}
+
+/** Moves to entry `index`, clamped to the entries there are. */
+export function jumpTo<T>(history: History<T>, index: number): History<T> {
+	const clamped = Math.min(Math.max(index, 0), history.entries.length - 1);
+	if (clamped === history.index) return history;
+	// Moving away ends a run of merged edits, so the next drag starts its own entry
+	const entries = [...history.entries];
+	const newest = entries[entries.length - 1];
+	entries[entries.length - 1] = { ...newest, group: undefined };
+	return { ...history, entries, index: clamped };
+}
+
+export function undo<T>(history: History<T>): History<T> {
+	return jumpTo(history, history.index - 1);
+}
+
+export function redo<T>(history: History<T>): History<T> {
+	return jumpTo(history, history.index + 1);
+}
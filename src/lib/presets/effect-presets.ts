@@ -0,0 +1,164 @@
+import { ZodError } from 'zod';
+import { VideoEffect } from '@/types/effects';
+import {
+	EFFECT_PRESET_BUNDLE_FORMAT,
+	EffectPreset,
+	EffectPresetBundle,
+	EffectPresetBundleSchema,
+	EffectPresetData,
+	EffectPresetSchema,
+	MAX_EFFECT_PRESETS,
+	MAX_PRESET_NAME_LENGTH,
+} from '@/types/presets';
+
+const STORAGE_KEY = 'vidnext:effect-presets';
+
+export const BUILT_IN_CATEGORY = 'Built-in';
+// Where duplicated built-ins land, since the built-in category is reserved
+export const DEFAULT_PRESET_CATEGORY = 'My presets';
+
+/** The presets saved in this browser, plus the ids marked as favorites (built-ins included). */
+export interface EffectPresetLibrary {
+	presets: EffectPreset[];
+	favorites: string[];
+}
+
+export class EffectPresetImportError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'EffectPresetImportError';
+	}
+}
+
+const builtIn = (id: string, name: string, description: string, effect: VideoEffect): EffectPreset => ({
+	id: `built-in:${id}`,
+	name,
+	description,
+	category: BUILT_IN_CATEGORY,
+	effect,
+	builtIn: true,
+	createdAt: 0,
+	updatedAt: 0,
+});
+
+export const BUILT_IN_EFFECT_PRESETS: EffectPreset[] = [
+	builtIn('gentle-zoom-in', 'Gentle Zoom In', 'Subtle zoom that draws attention', {
+		type: 'ZOOM',
+		params: { duration: 5, intensity: 30, direction: 'IN', easing: 'EASE_IN_OUT' },
+	}),
+	builtIn('cinematic-ken-burns', 'Cinematic Ken Burns', 'Professional pan and zoom effect', {
+		type: 'KEN_BURNS',
+		params: { duration: 8, intensity: 70, easing: 'EASE_IN_OUT' },
+	}),
+	builtIn('dynamic-parallax', 'Dynamic Parallax', 'Creates depth with layered movement', {
+		type: 'PARALLAX',
+		params: { duration: 6, intensity: 40, easing: 'EASE_IN_OUT' },
+	}),
+	builtIn('smooth-pulse', 'Smooth Pulse', 'Gentle breathing animation', {
+		type: 'PULSE',
+		params: { duration: 4, intensity: 25, easing: 'EASE_IN_OUT' },
+	}),
+];
+
+/** Reads the library from localStorage, dropping entries that no longer validate. */
+export function loadEffectPresets(): EffectPresetLibrary {
+	try {
+		const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+		if (!stored || typeof stored !== 'object') return { presets: [], favorites: [] };
+		const entries: unknown[] = Array.isArray(stored.presets) ? stored.presets : [];
+		const presets: EffectPreset[] = [];
+		entries.forEach(entry => {
+			const parsed = EffectPresetSchema.safeParse(entry);
+			// Only the defaults are built in, whatever a stored copy claims
+			if (parsed.success) presets.push({ ...parsed.data, builtIn: undefined });
+		});
+		const favorites = Array.isArray(stored.favorites)
+			? stored.favorites.filter((id: unknown): id is string => typeof id === 'string')
+			: [];
+		return { presets, favorites };
+	} catch (error) {
+		console.error('Failed to read saved effect presets:', error);
+		return { presets: [], favorites: [] };
+	}
+}
+
+export function saveEffectPresets(library: EffectPresetLibrary) {
+	try {
+		localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: 1, ...library }));
+	} catch (error) {
+		console.error('Failed to save effect presets:', error);
+	}
+}
+
+/** `name` followed by `suffix`, with `name` shortened so the whole fits the preset name limit. */
+export function fitPresetName(name: string, suffix = ''): string {
+	return `${name.slice(0, MAX_PRESET_NAME_LENGTH - suffix.length).trimEnd()}${suffix}`;
+}
+
+/** `name`, or `name (2)`, `name (3)`... whichever no preset uses yet, within the name limit. */
+export function uniquePresetName(name: string, presets: { name: string }[]): string {
+	const taken = new Set(presets.map(preset => preset.name.toLowerCase()));
+	let candidate = fitPresetName(name);
+	for (let copy = 2; taken.has(candidate.toLowerCase()); copy++) {
+		candidate = fitPresetName(name, ` (${copy})`);
+	}
+	return candidate;
+}
+
+export function createEffectPreset(data: EffectPresetData): EffectPreset {
+	const now = Date.now();
+	return { ...data, id: crypto.randomUUID(), createdAt: now, updatedAt: now };
+}
+
+/** An editable copy of `preset`, named so it doesn't clash with `presets`. */
+export function duplicateEffectPreset(preset: EffectPreset, presets: EffectPreset[]): EffectPreset {
+	return createEffectPreset({
+		name: uniquePresetName(fitPresetName(preset.name, ' copy'), presets),
+		description: preset.description,
+		category: preset.builtIn ? DEFAULT_PRESET_CATEGORY : preset.category,
+		effect: preset.effect,
+	});
+}
+
+export function toEffectPresetBundle(presets: EffectPreset[]): EffectPresetBundle {
+	return {
+		format: EFFECT_PRESET_BUNDLE_FORMAT,
+		version: 1,
+		presets: presets.map(({ name, description, category, effect }) => ({ name, description, category, effect })),
+	};
+}
+
+/** Validates an exported bundle; throws an EffectPresetImportError naming the first problem. */
+export function parseEffectPresetBundle(source: string): EffectPresetData[] {
+	let json: unknown;
+	try {
+		json = JSON.parse(source);
+	} catch {
+		throw new EffectPresetImportError('The file is not valid JSON');
+	}
+	try {
+		return EffectPresetBundleSchema.parse(json).presets;
+	} catch (error) {
+		if (!(error instanceof ZodError)) throw error;
+		const issue = error.issues[0];
+		const where = issue?.path.length ? ` at ${issue.path.join('.')}` : '';
+		throw new EffectPresetImportError(`Not a valid preset bundle${where}: ${issue?.message ?? 'unknown error'}`);
+	}
+}
+
+/**
+ * Adds imported presets as new entries; names that are already taken get a number.
+ * Throws an EffectPresetImportError when the library would grow past its limit.
+ */
+export function importEffectPresets(presets: EffectPreset[], imported: EffectPresetData[]): EffectPreset[] {
+	if (presets.length + imported.length > MAX_EFFECT_PRESETS) {
+		throw new EffectPresetImportError(`A library holds at most ${MAX_EFFECT_PRESETS} presets`);
+	}
+	const merged = [...presets];
+	for (const data of imported) {
+		// The built-in category is reserved for the read-only defaults
+		const category = data.category === BUILT_IN_CATEGORY ? DEFAULT_PRESET_CATEGORY : data.category;
+		merged.push(createEffectPreset({ ...data, category, name: uniquePresetName(data.name, [...BUILT_IN_EFFECT_PRESETS, ...merged]) }));
+	}
+	return merged;
+}
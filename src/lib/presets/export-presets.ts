@@ -0,0 +1,196 @@
+import { ZodError } from 'zod';
+import { DEFAULT_GIF_OPTIONS, DEFAULT_WEBP_OPTIONS, EXPORT_PRESETS, ExportPreset, ExportSettings, ExportSettingsSchema, resolveCodec, resolvePixelFormat } from '@/types/effects';
+import { EXPORT_PRESET_BUNDLE_FORMAT, ExportPresetBundle, ExportPresetBundleSchema, MAX_EXPORT_PRESETS, SavedExportPreset, SavedExportPresetSchema } from '@/types/presets';
+import { getRateControl } from '@/lib/ffmpeg/rate-control';
+import { fitPresetName, uniquePresetName } from '@/lib/presets/effect-presets';
+
+const PRESETS_STORAGE_KEY = 'vidnext:export-presets';
+const SETTINGS_STORAGE_KEY = 'vidnext:export-settings';
+
+/** The user's own presets, plus the preset (built-in or saved) the settings started from. */
+export interface ExportPresetLibrary {
+	presets: SavedExportPreset[];
+	selectedId: string | null;
+}
+
+/** A preset of either kind, under the id the library tracks it by. */
+export interface ExportPresetEntry {
+	id: string;
+	preset: ExportPreset;
+	builtIn: boolean;
+}
+
+export class ExportPresetImportError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'ExportPresetImportError';
+	}
+}
+
+export const BUILT_IN_EXPORT_PRESETS: ExportPresetEntry[] = EXPORT_PRESETS.map(preset => ({
+	id: `built-in:${preset.name}`,
+	preset,
+	builtIn: true,
+}));
+
+/** Built-in presets first, then the saved ones. */
+export function exportPresetEntries(presets: SavedExportPreset[]): ExportPresetEntry[] {
+	return [...BUILT_IN_EXPORT_PRESETS, ...presets.map(preset => ({ id: preset.id, preset, builtIn: false }))];
+}
+
+/** The settings part of a preset (or of settings picked from one), without names or bookkeeping. */
+export function presetSettings(preset: ExportSettings): ExportSettings {
+	const { width, height, fps, format, codec, pixelFormat, quality, rateControl, gif, webp, watermark } = preset;
+	return { width, height, fps, format, codec, pixelFormat, quality, rateControl, gif, webp, watermark };
+}
+
+// Settings compared the way they render: defaults filled in, options for other codecs ignored
+function comparableSettings(settings: ExportSettings, withWatermark: boolean): string {
+	const codec = resolveCodec(settings);
+	return JSON.stringify([
+		settings.width,
+		settings.height,
+		settings.fps,
+		settings.format,
+		codec,
+		resolvePixelFormat(settings),
+		settings.quality,
+		getRateControl(settings),
+		codec === 'gif' ? settings.gif ?? DEFAULT_GIF_OPTIONS : null,
+		codec === 'webp' ? settings.webp ?? DEFAULT_WEBP_OPTIONS : null,
+		withWatermark ? settings.watermark ?? null : null,
+	]);
+}
+
+/** Whether `settings` render exactly like `preset`. Presets without a watermark placement match any placement. */
+export function matchesExportPreset(settings: ExportSettings, preset: ExportPreset): boolean {
+	const withWatermark = !!preset.watermark;
+	return comparableSettings(settings, withWatermark) === comparableSettings(presetSettings(preset), withWatermark);
+}
+
+/**
+ * The preset `settings` match, preferring the selected one, and whether they have
+ * drifted from the selected preset when none matches.
+ */
+export function describeExportSettings(
+	settings: ExportSettings,
+	entries: ExportPresetEntry[],
+	selectedId: string | null
+): { entry: ExportPresetEntry | null; modified: boolean } {
+	const selected = entries.find(entry => entry.id === selectedId) ?? null;
+	if (selected && matchesExportPreset(settings, selected.preset)) return { entry: selected, modified: false };
+	const match = entries.find(entry => matchesExportPreset(settings, entry.preset));
+	if (match) return { entry: match, modified: false };
+	return { entry: selected, modified: !!selected };
+}
+
+/** Reads the saved presets from localStorage, dropping any the server would refuse to export with. */
+export function loadExportPresets(): ExportPresetLibrary {
+	try {
+		const stored = JSON.parse(localStorage.getItem(PRESETS_STORAGE_KEY) ?? 'null');
+		if (!stored || typeof stored !== 'object') return { presets: [], selectedId: null };
+		const entries: unknown[] = Array.isArray(stored.presets) ? stored.presets : [];
+		const presets: SavedExportPreset[] = [];
+		entries.forEach(entry => {
+			const parsed = SavedExportPresetSchema.safeParse(entry);
+			if (parsed.success && !validateExportPreset(parsed.data)) presets.push(parsed.data);
+		});
+		return { presets, selectedId: typeof stored.selectedId === 'string' ? stored.selectedId : null };
+	} catch (error) {
+		console.error('Failed to read saved export presets:', error);
+		return { presets: [], selectedId: null };
+	}
+}
+
+export function saveExportPresets(library: ExportPresetLibrary) {
+	try {
+		localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify({ version: 1, ...library }));
+	} catch (error) {
+		console.error('Failed to save export presets:', error);
+	}
+}
+
+/** The export settings from the last session, if they still validate. */
+export function loadExportSettings(): ExportSettings | null {
+	try {
+		const parsed = ExportSettingsSchema.safeParse(JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) ?? 'null'));
+		return parsed.success ? parsed.data : null;
+	} catch (error) {
+		console.error('Failed to read saved export settings:', error);
+		return null;
+	}
+}
+
+export function saveExportSettings(settings: ExportSettings) {
+	try {
+		localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(presetSettings(settings)));
+	} catch (error) {
+		console.error('Failed to save export settings:', error);
+	}
+}
+
+export function createExportPreset(name: string, description: string, settings: ExportSettings): SavedExportPreset {
+	const now = Date.now();
+	return { ...presetSettings(settings), name, description, id: crypto.randomUUID(), createdAt: now, updatedAt: now };
+}
+
+/** A saved copy of any preset, named so it doesn't clash with the others. */
+export function duplicateExportPreset(preset: ExportPreset, presets: SavedExportPreset[]): SavedExportPreset {
+	return createExportPreset(
+		uniquePresetName(fitPresetName(preset.name, ' copy'), [...EXPORT_PRESETS, ...presets]),
+		preset.description,
+		presetSettings(preset)
+	);
+}
+
+/** Checks a preset the same way the server checks export settings, including codec and container fit. */
+export function validateExportPreset(preset: SavedExportPreset): string | null {
+	const parsed = SavedExportPresetSchema.safeParse(preset);
+	const checked = parsed.success ? ExportSettingsSchema.safeParse(presetSettings(parsed.data)) : parsed;
+	if (checked.success) return null;
+	const issue = checked.error.issues[0];
+	return `${issue?.path.join('.') || 'Preset'}: ${issue?.message ?? 'invalid value'}`;
+}
+
+export function toExportPresetBundle(presets: SavedExportPreset[]): ExportPresetBundle {
+	return {
+		format: EXPORT_PRESET_BUNDLE_FORMAT,
+		version: 1,
+		presets: presets.map(preset => ({ ...presetSettings(preset), name: preset.name, description: preset.description })),
+	};
+}
+
+/**
+ * Validates a bundle and adds its presets as new entries; names already taken get a number.
+ * Throws an ExportPresetImportError naming the first problem.
+ */
+export function importExportPresets(presets: SavedExportPreset[], source: string): SavedExportPreset[] {
+	let json: unknown;
+	try {
+		json = JSON.parse(source);
+	} catch {
+		throw new ExportPresetImportError('The file is not valid JSON');
+	}
+	let bundle: ExportPresetBundle;
+	try {
+		bundle = ExportPresetBundleSchema.parse(json);
+	} catch (error) {
+		if (!(error instanceof ZodError)) throw error;
+		const issue = error.issues[0];
+		const where = issue?.path.length ? ` at ${issue.path.join('.')}` : '';
+		throw new ExportPresetImportError(`Not a valid preset bundle${where}: ${issue?.message ?? 'unknown error'}`);
+	}
+	if (presets.length + bundle.presets.length > MAX_EXPORT_PRESETS) {
+		throw new ExportPresetImportError(`A library holds at most ${MAX_EXPORT_PRESETS} export presets`);
+	}
+
+	const merged = [...presets];
+	bundle.presets.forEach((preset, index) => {
+		const name = uniquePresetName(preset.name, [...EXPORT_PRESETS, ...merged]);
+		const created = createExportPreset(name, preset.description, presetSettings(preset));
+		const problem = validateExportPreset(created);
+		if (problem) throw new ExportPresetImportError(`Preset ${index + 1} (${preset.name}) is invalid: ${problem}`);
+		merged.push(created);
+	});
+	return merged;
+}
@@ -0,0 +1,86 @@
+type ClockListener = () => void;
+
+/**
+ * Playback position of the preview player, in seconds into the selected clip.
+ * The player and the overlays drawn over it read one clock, so pausing or
+ * scrubbing moves everything together. `time()` is cheap enough to call every frame.
+ */
+export class PreviewClock {
+	private clipDuration = 1;
+	private looping = true;
+	private playing = true;
+	// performance.now() at clip time 0 while playing, and the held time while paused
+	private origin = 0;
+	private position = 0;
+	private listeners = new Set<ClockListener>();
+
+	get duration(): number {
+		return this.clipDuration;
+	}
+
+	get isPlaying(): boolean {
+		return this.playing;
+	}
+
+	get loop(): boolean {
+		return this.looping;
+	}
+
+	time(now = performance.now()): number {
+		if (!this.playing) return this.position;
+		const elapsed = Math.max((now - this.origin) / 1000, 0);
+		if (this.looping) return elapsed % this.clipDuration;
+		if (elapsed < this.clipDuration) return elapsed;
+		// Without looping, playback stops on the last frame
+		this.position = this.clipDuration;
+		this.playing = false;
+		this.notify();
+		return this.position;
+	}
+
+	play() {
+		if (this.playing) return;
+		if (this.position >= this.clipDuration) this.position = 0;
+		this.origin = performance.now() - this.position * 1000;
+		this.playing = true;
+		this.notify();
+	}
+
+	pause() {
+		if (!this.playing) return;
+		this.position = this.time();
+		this.playing = false;
+		this.notify();
+	}
+
+	seek(time: number) {
+		this.position = Math.min(Math.max(time, 0), this.clipDuration);
+		this.origin = performance.now() - this.position * 1000;
+		this.notify();
+	}
+
+	setDuration(duration: number) {
+		if (duration === this.clipDuration) return;
+		const time = this.time();
+		this.clipDuration = Math.max(duration, 0.001);
+		this.seek(Math.min(time, this.clipDuration));
+	}
+
+	setLoop(loop: boolean) {
+		const time = this.time();
+		this.looping = loop;
+		this.seek(time);
+	}
+
+	/** Calls `listener` when playback starts, stops, seeks or changes loop mode. */
+	subscribe(listener: ClockListener): () => void {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	private notify() {
+		this.listeners.forEach(listener => listener());
+	}
+}
@@ -0,0 +1,24 @@
+// A project file that can't be opened, with a message fit to show as is
+export class ProjectFileError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'ProjectFileError';
+	}
+}
+
+export interface UnknownEffectUse {
+	type: string;
+	/** 1-based positions of the clips that use it */
+	clips: number[];
+}
+
+// The project animates clips with effects this version of the app doesn't have
+export class UnknownEffectTypesError extends ProjectFileError {
+	constructor(readonly unknown: UnknownEffectUse[]) {
+		const list = unknown
+			.map(({ type, clips }) => `${type} (clip${clips.length === 1 ? '' : 's'} ${clips.join(', ')})`)
+			.join('; ');
+		super(`This project uses effects this version doesn't support: ${list}. Open it with the version it was saved in, or a newer one.`);
+		this.name = 'UnknownEffectTypesError';
+	}
+}
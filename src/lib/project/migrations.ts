@@ -0,0 +1,33 @@
+import { PROJECT_VERSION } from '@/types/project';
+import { ProjectFileError } from '@/lib/project/errors';
+
+// A manifest as read from the archive, before it is validated
+export type RawManifest = Record<string, unknown>;
+
+/**
+ * Upgrades a manifest from the version it is keyed by to the next one. When the
+ * manifest, VideoEffectSchema or ExportSettingsSchema change shape, bump
+ * PROJECT_VERSION and add the step that rewrites the previous version's JSON, e.g.
+ * `1: manifest => ({ ...manifest, version: 2, clips: renameEffect(manifest.clips, 'OLD', 'NEW') })`.
+ * Steps never validate; the current schema checks the result.
+ */
+const MIGRATIONS: Record<number, (manifest: RawManifest) => RawManifest> = {};
+
+/** Runs every step from the manifest's version up to PROJECT_VERSION. */
+export function migrateManifest(manifest: RawManifest): RawManifest {
+	const { version } = manifest;
+	if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+		throw new ProjectFileError('The project manifest has no valid version');
+	}
+	if (version > PROJECT_VERSION) {
+		throw new ProjectFileError(`The project was saved by a newer version of the app (project version ${version}, this app reads up to ${PROJECT_VERSION})`);
+	}
+
+	let migrated = manifest;
+	for (let from = version; from < PROJECT_VERSION; from++) {
+		const step = MIGRATIONS[from];
+		if (!step) throw new ProjectFileError(`Projects of version ${from} can no longer be opened`);
+		migrated = step(migrated);
+	}
+	return migrated;
+}
@@ -0,0 +1,182 @@
+import { ZodError } from 'zod';
+import { EffectTypeSchema, ExportSettings } from '@/types/effects';
+import { ProjectClip } from '@/types/timeline';
+import { ProjectAudio } from '@/types/audio';
+import { ProjectCaptions } from '@/types/captions';
+import { ProjectWatermark } from '@/types/watermark';
+import {
+	PROJECT_FORMAT,
+	PROJECT_MANIFEST_NAME,
+	PROJECT_VERSION,
+	ProjectAsset,
+	ProjectManifest,
+	ProjectManifestSchema,
+} from '@/types/project';
+import { ZipEntry, ZipFormatError, createZip, readZip } from '@/lib/files/zip';
+import { analyzeAudioFile } from '@/lib/audio/waveform';
+import { ProjectFileError, UnknownEffectTypesError, UnknownEffectUse } from '@/lib/project/errors';
+import { RawManifest, migrateManifest } from '@/lib/project/migrations';
+
+/** Everything page.tsx needs to put the workspace back the way it was saved. */
+export interface ProjectWorkspace {
+	clips: ProjectClip[];
+	selectedClipId: string | null;
+	exportSettings: ExportSettings;
+	audio: ProjectAudio | null;
+	captions: ProjectCaptions | null;
+	watermark: ProjectWatermark | null;
+}
+
+// Keeps the original extension so the embedded file is recognizable when unzipped
+function assetPath(name: string, file: File): string {
+	const extension = file.name.match(/\.[a-z0-9]+$/i)?.[0].toLowerCase() ?? '';
+	return `assets/${name}${extension}`;
+}
+
+/** Packs the workspace and every file it uses into a project archive. */
+export async function saveProject(workspace: ProjectWorkspace): Promise<Blob> {
+	const entries: ZipEntry[] = [];
+	const embed = async (path: string, file: File): Promise<ProjectAsset> => {
+		entries.push({ name: path, data: new Uint8Array(await file.arrayBuffer()) });
+		return { path, name: file.name, type: file.type };
+	};
+
+	const clips: ProjectManifest['clips'] = [];
+	for (let index = 0; index < workspace.clips.length; index++) {
+		const clip = workspace.clips[index];
+		clips.push({
+			id: clip.id,
+			layers: clip.layers,
+			duration: clip.duration,
+			transition: clip.transition,
+			texts: clip.texts,
+			image: await embed(assetPath(`clip-${index + 1}`, clip.file), clip.file),
+		});
+	}
+	const { audio, captions, watermark } = workspace;
+	const manifest: ProjectManifest = {
+		format: PROJECT_FORMAT,
+		version: PROJECT_VERSION,
+		savedAt: Date.now(),
+		clips,
+		selectedClipId: workspace.selectedClipId,
+		exportSettings: workspace.exportSettings,
+		audio: audio && { file: await embed(assetPath('audio', audio.file), audio.file), track: audio.track },
+		captions,
+		watermark: watermark && {
+			file: await embed(assetPath('watermark', watermark.file), watermark.file),
+			fileName: watermark.fileName,
+		},
+	};
+
+	const json = new TextEncoder().encode(JSON.stringify(manifest, null, 2));
+	return createZip([{ name: PROJECT_MANIFEST_NAME, data: json }, ...entries]);
+}
+
+// Effect types the manifest's layers name that EffectTypeSchema doesn't know, with where they are used
+function findUnknownEffects(manifest: RawManifest): UnknownEffectUse[] {
+	const known: readonly string[] = EffectTypeSchema.options;
+	const unknown = new Map<string, number[]>();
+	const clips = Array.isArray(manifest.clips) ? manifest.clips : [];
+	clips.forEach((clip: unknown, index) => {
+		const layers: unknown = clip && typeof clip === 'object' ? (clip as { layers?: unknown }).layers : undefined;
+		if (!Array.isArray(layers)) return;
+		for (const layer of layers) {
+			const type: unknown = layer && typeof layer === 'object' ? layer.type : undefined;
+			if (typeof type !== 'string' || known.includes(type)) continue;
+			const uses = unknown.get(type) ?? [];
+			if (!uses.includes(index + 1)) uses.push(index + 1);
+			unknown.set(type, uses);
+		}
+	});
+	return Array.from(unknown, ([type, clipNumbers]) => ({ type, clips: clipNumbers }));
+}
+
+function parseManifest(source: string): ProjectManifest {
+	let json: unknown;
+	try {
+		json = JSON.parse(source);
+	} catch {
+		throw new ProjectFileError('The project manifest is not valid JSON');
+	}
+	if (!json || typeof json !== 'object' || Array.isArray(json) || (json as RawManifest).format !== PROJECT_FORMAT) {
+		throw new ProjectFileError('The file is not a vidnext project');
+	}
+
+	const migrated = migrateManifest(json as RawManifest);
+	const unknown = findUnknownEffects(migrated);
+	if (unknown.length > 0) throw new UnknownEffectTypesError(unknown);
+	try {
+		return ProjectManifestSchema.parse(migrated);
+	} catch (error) {
+		if (!(error instanceof ZodError)) throw error;
+		const issue = error.issues[0];
+		const where = issue?.path.length ? ` at ${issue.path.join('.')}` : '';
+		throw new ProjectFileError(`The project manifest is invalid${where}: ${issue?.message ?? 'unknown error'}`);
+	}
+}
+
+/**
+ * Reads a project archive back into a workspace: validates and migrates the
+ * manifest, rebuilds the embedded files and decodes the audio waveform again.
+ * Throws a ProjectFileError (an UnknownEffectTypesError for effects this version
+ * lacks) describing why the project can't be opened.
+ */
+export async function openProject(archive: Blob): Promise<ProjectWorkspace> {
+	let entries: Map<string, Uint8Array<ArrayBuffer>>;
+	try {
+		entries = await readZip(archive);
+	} catch (error) {
+		if (error instanceof ZipFormatError) throw new ProjectFileError(`The project file is damaged: ${error.message}`);
+		throw error;
+	}
+	const manifestData = entries.get(PROJECT_MANIFEST_NAME);
+	if (!manifestData) throw new ProjectFileError('The file is not a vidnext project');
+	const manifest = parseManifest(new TextDecoder().decode(manifestData));
+
+	const restore = (asset: ProjectAsset): File => {
+		const data = entries.get(asset.path);
+		if (!data) throw new ProjectFileError(`The project is missing ${asset.name}`);
+		return new File([data], asset.name, { type: asset.type });
+	};
+
+	// Everything is unpacked before any object URL is made, so a missing asset leaks none
+	const imageFiles = manifest.clips.map(clip => restore(clip.image));
+	const audioFile = manifest.audio && restore(manifest.audio.file);
+	const watermarkFile = manifest.watermark && restore(manifest.watermark.file);
+
+	let audio: ProjectAudio | null = null;
+	if (manifest.audio && audioFile) {
+		try {
+			const { duration, peaks } = await analyzeAudioFile(audioFile);
+			audio = { file: audioFile, track: manifest.audio.track, fileDuration: duration, peaks };
+		} catch (error) {
+			console.error('Project audio decode error:', error);
+			throw new ProjectFileError(`The project's audio file ${audioFile.name} could not be decoded`);
+		}
+	}
+
+	const clips: ProjectClip[] = manifest.clips.map(({ id, layers, duration, transition, texts }, index) => ({
+		id,
+		layers,
+		duration,
+		transition,
+		texts,
+		file: imageFiles[index],
+		previewUrl: URL.createObjectURL(imageFiles[index]),
+	}));
+	const watermark: ProjectWatermark | null = manifest.watermark && watermarkFile && {
+		file: watermarkFile,
+		fileName: manifest.watermark.fileName,
+		previewUrl: URL.createObjectURL(watermarkFile),
+	};
+
+	return {
+		clips,
+		selectedClipId: clips.some(clip => clip.id === manifest.selectedClipId) ? manifest.selectedClipId : clips[0]?.id ?? null,
+		exportSettings: manifest.exportSettings,
+		audio,
+		captions: manifest.captions,
+		watermark,
+	};
+}
@@ -0,0 +1,150 @@
+import { PanelLayout, PanelLayoutSchema } from '@/types/layout';
+import { ProjectWorkspace, saveProject } from '@/lib/project/project-file';
+
+const DATABASE_NAME = 'vidnext';
+const DATABASE_VERSION = 1;
+const STORE_NAME = 'sessions';
+
+// The ring: a new snapshot starts once the newest is this old, and the oldest fall off past the limit
+export const SNAPSHOT_INTERVAL_MS = 60_000;
+export const MAX_SESSION_SNAPSHOTS = 5;
+// Milliseconds of quiet after an edit before the workspace is saved
+export const AUTOSAVE_DELAY_MS = 1500;
+
+const THUMBNAIL_WIDTH = 160;
+
+let currentSessionId: string | undefined;
+
+/**
+ * An auto-saved copy of the workspace. The project is kept as a .vidnext archive,
+ * so snapshots left by an older version are migrated like project files are.
+ */
+export interface SessionSnapshot {
+	id: string;
+	/** The page load that saved it; a new load never overwrites an earlier one's snapshots */
+	sessionId: string;
+	savedAt: number;
+	project: Blob;
+	/** JPEG of the selected (or first) clip's image */
+	thumbnail: Blob | null;
+	clipCount: number;
+	layout: PanelLayout;
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		req.onsuccess = () => resolve(req.result);
+		req.onerror = () => reject(req.error);
+	});
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+	const req = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+	req.onupgradeneeded = () => {
+		req.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+	};
+	return request(req);
+}
+
+// Runs `action` in one transaction and resolves once it has committed
+async function withStore<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => Promise<T>): Promise<T> {
+	const db = await openDatabase();
+	try {
+		const transaction = db.transaction(STORE_NAME, mode);
+		const done = new Promise<void>((resolve, reject) => {
+			transaction.oncomplete = () => resolve();
+			transaction.onerror = () => reject(transaction.error);
+			transaction.onabort = () => reject(transaction.error);
+		});
+		const result = await action(transaction.objectStore(STORE_NAME));
+		await done;
+		return result;
+	} finally {
+		db.close();
+	}
+}
+
+/** A small JPEG of `file`, or null when the browser can't decode it. */
+async function createThumbnail(file: File): Promise<Blob | null> {
+	try {
+		const bitmap = await createImageBitmap(file);
+		const canvas = document.createElement('canvas');
+		canvas.width = THUMBNAIL_WIDTH;
+		canvas.height = Math.max(Math.round(bitmap.height / bitmap.width * THUMBNAIL_WIDTH), 1);
+		canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+		bitmap.close();
+		return await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.8));
+	} catch {
+		return null;
+	}
+}
+
+/** Saved snapshots, newest first. Entries that no longer look like snapshots are skipped. */
+export async function listSessionSnapshots(): Promise<SessionSnapshot[]> {
+	const stored: unknown[] = await withStore('readonly', store => request(store.getAll()));
+	return stored
+		.filter((entry): entry is SessionSnapshot => {
+			const snapshot = entry as Partial<SessionSnapshot> | null;
+			return !!snapshot
+				&& typeof snapshot.id === 'string'
+				&& typeof snapshot.sessionId === 'string'
+				&& typeof snapshot.savedAt === 'number'
+				&& snapshot.project instanceof Blob
+				&& PanelLayoutSchema.safeParse(snapshot.layout).success;
+		})
+		.sort((a, b) => b.savedAt - a.savedAt);
+}
+
+async function writeSnapshot(workspace: ProjectWorkspace, layout: PanelLayout): Promise<void> {
+	const cover = workspace.clips.find(clip => clip.id === workspace.selectedClipId) ?? workspace.clips[0];
+	const [project, thumbnail] = await Promise.all([
+		saveProject(workspace),
+		cover ? createThumbnail(cover.file) : Promise.resolve(null),
+	]);
+	const sessionId = currentSessionId ??= crypto.randomUUID();
+	const snapshots = await listSessionSnapshots();
+	const now = Date.now();
+	const newest = snapshots[0];
+	const id = newest?.sessionId === sessionId && now - newest.savedAt < SNAPSHOT_INTERVAL_MS
+		? newest.id
+		: crypto.randomUUID();
+	const snapshot: SessionSnapshot = {
+		id,
+		sessionId,
+		savedAt: now,
+		project,
+		thumbnail,
+		clipCount: workspace.clips.length,
+		layout,
+	};
+	const expired = [snapshot, ...snapshots.filter(entry => entry.id !== id)].slice(MAX_SESSION_SNAPSHOTS);
+
+	await withStore('readwrite', async store => {
+		store.put(snapshot);
+		expired.forEach(entry => store.delete(entry.id));
+	});
+}
+
+// Saves run one at a time, so two never read the same ring and both add a snapshot
+let saving: Promise<void> = Promise.resolve();
+
+/**
+ * Saves the workspace into the ring: the newest snapshot is overwritten while it is
+ * younger than SNAPSHOT_INTERVAL_MS, so the ring reaches a few minutes back.
+ */
+export function saveSessionSnapshot(workspace: ProjectWorkspace, layout: PanelLayout): Promise<void> {
+	const run = saving.then(() => writeSnapshot(workspace, layout));
+	saving = run.catch(() => undefined);
+	return run;
+}
+
+/** Makes the next save add a snapshot rather than overwrite one, so a restore never replaces newer work. */
+export function startNewSnapshotSession() {
+	currentSessionId = undefined;
+}
+
+export async function clearSessionSnapshots(): Promise<void> {
+	await withStore('readwrite', async store => {
+		store.clear();
+	});
+}
@@ -0,0 +1,167 @@
+import { TextAnchor, TextAnimation, TextFont, TextOverlay } from '@/types/text';
+import { applyEasing, easingExpression } from '@/lib/effects/keyframes';
+import { formatNumber as num } from '@/lib/ffmpeg/filter-graph';
+
+/**
+ * Text overlay motion shared by the DOM preview and the drawtext graph.
+ * `evaluateTextMotion` samples it in JS; `textMotionExpressions` writes the same
+ * motion as ffmpeg expressions, so both sides animate identically.
+ */
+
+// Slides travel this fraction of the frame
+const SLIDE_DISTANCE = 0.05;
+// Enter and exit animations decelerate into place
+const ANIMATION_EASING = 'EASE_OUT';
+
+// Shadow offset, as a percentage of the frame height
+export const TEXT_SHADOW_OFFSET = 0.3;
+export const TEXT_SHADOW_OPACITY = 0.6;
+
+export const TEXT_FONT_LABELS: Record<TextFont, string> = {
+	GEIST_SANS: 'Geist Sans',
+	GEIST_MONO: 'Geist Mono',
+	SANS: 'System Sans',
+	SERIF: 'System Serif',
+};
+
+export const TEXT_ANIMATION_LABELS: Record<TextAnimation, string> = {
+	NONE: 'None',
+	FADE: 'Fade',
+	SLIDE_UP: 'Slide up',
+	SLIDE_LEFT: 'Slide left',
+	TYPEWRITER: 'Typewriter',
+};
+
+export type AnchorAlignment = 'start' | 'center' | 'end';
+
+export const TEXT_ANCHORS: Record<TextAnchor, { horizontal: AnchorAlignment; vertical: AnchorAlignment }> = {
+	TOP_LEFT: { horizontal: 'start', vertical: 'start' },
+	TOP: { horizontal: 'center', vertical: 'start' },
+	TOP_RIGHT: { horizontal: 'end', vertical: 'start' },
+	LEFT: { horizontal: 'start', vertical: 'center' },
+	CENTER: { horizontal: 'center', vertical: 'center' },
+	RIGHT: { horizontal: 'end', vertical: 'center' },
+	BOTTOM_LEFT: { horizontal: 'start', vertical: 'end' },
+	BOTTOM: { horizontal: 'center', vertical: 'end' },
+	BOTTOM_RIGHT: { horizontal: 'end', vertical: 'end' },
+};
+
+// Whether each animation fades, and where it enters from (exits leave the opposite way)
+const ANIMATIONS: Record<TextAnimation, { fades: boolean; dx: number; dy: number }> = {
+	NONE: { fades: false, dx: 0, dy: 0 },
+	FADE: { fades: true, dx: 0, dy: 0 },
+	SLIDE_UP: { fades: true, dx: 0, dy: 1 },
+	SLIDE_LEFT: { fades: true, dx: 1, dy: 0 },
+	TYPEWRITER: { fades: false, dx: 0, dy: 0 },
+};
+
+export function createTextOverlay(clipDuration: number, overrides: Partial<TextOverlay> = {}): TextOverlay {
+	return {
+		id: crypto.randomUUID(),
+		text: 'Your title',
+		font: 'GEIST_SANS',
+		size: 8,
+		color: '#ffffff',
+		strokeColor: '#000000',
+		strokeWidth: 0,
+		shadow: true,
+		anchor: 'CENTER',
+		margin: 5,
+		start: 0,
+		end: clipDuration,
+		enter: 'FADE',
+		exit: 'FADE',
+		animationDuration: 0.5,
+		...overrides,
+	};
+}
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+const characters = (text: string) => Array.from(text);
+
+export interface TextMotion {
+	alpha: number;
+	/** Offset as a fraction of the frame width and height */
+	dx: number;
+	dy: number;
+	/** Characters shown; typewriter animations reveal the text one character at a time */
+	text: string;
+}
+
+/** Visible character count; typewriter reveals are linear so they split into whole-character steps. */
+function visibleCharacters(overlay: TextOverlay, time: number): number {
+	const count = characters(overlay.text).length;
+	const enter = clamp01((time - overlay.start) / overlay.animationDuration);
+	const exit = clamp01((overlay.end - time) / overlay.animationDuration);
+	return Math.min(
+		overlay.enter === 'TYPEWRITER' ? Math.ceil(count * enter) : count,
+		overlay.exit === 'TYPEWRITER' ? Math.ceil(count * exit) : count
+	);
+}
+
+/** The overlay at `time` seconds into its clip, or null while it is hidden. */
+export function evaluateTextMotion(overlay: TextOverlay, time: number): TextMotion | null {
+	if (time < overlay.start || time >= overlay.end) return null;
+	const enter = ANIMATIONS[overlay.enter];
+	const exit = ANIMATIONS[overlay.exit];
+	const enterProgress = applyEasing(ANIMATION_EASING, (time - overlay.start) / overlay.animationDuration);
+	const exitProgress = applyEasing(ANIMATION_EASING, (overlay.end - time) / overlay.animationDuration);
+	return {
+		alpha: (enter.fades ? enterProgress : 1) * (exit.fades ? exitProgress : 1),
+		dx: SLIDE_DISTANCE * (enter.dx * (1 - enterProgress) - exit.dx * (1 - exitProgress)),
+		dy: SLIDE_DISTANCE * (enter.dy * (1 - enterProgress) - exit.dy * (1 - exitProgress)),
+		text: characters(overlay.text).slice(0, visibleCharacters(overlay, time)).join(''),
+	};
+}
+
+/** Alpha and offsets (fractions of the frame) as ffmpeg expressions of `time`. */
+export function textMotionExpressions(overlay: TextOverlay, time = 't'): { alpha: string; dx: string; dy: string } {
+	const enter = ANIMATIONS[overlay.enter];
+	const exit = ANIMATIONS[overlay.exit];
+	const duration = num(overlay.animationDuration);
+	const enterProgress = easingExpression(ANIMATION_EASING, `clip((${time}-${num(overlay.start)})/${duration},0,1)`);
+	const exitProgress = easingExpression(ANIMATION_EASING, `clip((${num(overlay.end)}-${time})/${duration},0,1)`);
+
+	const alpha = [enter.fades && enterProgress, exit.fades && exitProgress].filter(Boolean).join('*') || '1';
+	const offset = (enterDirection: number, exitDirection: number) => {
+		const terms = [
+			enterDirection && `${num(enterDirection * SLIDE_DISTANCE)}*(1-${enterProgress})`,
+			exitDirection && `${num(-exitDirection * SLIDE_DISTANCE)}*(1-${exitProgress})`,
+		].filter(Boolean);
+		return terms.length > 0 ? terms.join('+') : '0';
+	};
+	return { alpha, dx: offset(enter.dx, exit.dx), dy: offset(enter.dy, exit.dy) };
+}
+
+export interface TextSegment {
+	text: string;
+	start: number;
+	end: number;
+}
+
+/**
+ * Splits the overlay's time on screen into spans with a fixed visible text.
+ * Without typewriter animations that is a single span with the whole text.
+ */
+export function textSegments(overlay: TextOverlay): TextSegment[] {
+	const count = characters(overlay.text).length;
+	const boundaries = new Set([overlay.start, overlay.end]);
+	for (let step = 1; step < count; step++) {
+		const offset = overlay.animationDuration * step / count;
+		if (overlay.enter === 'TYPEWRITER') boundaries.add(overlay.start + offset);
+		if (overlay.exit === 'TYPEWRITER') boundaries.add(overlay.end - offset);
+	}
+	const times = Array.from(boundaries).filter(time => time >= overlay.start && time <= overlay.end).sort((a, b) => a - b);
+
+	const segments: TextSegment[] = [];
+	for (let index = 0; index < times.length - 1; index++) {
+		const [start, end] = [times[index], times[index + 1]];
+		const visible = visibleCharacters(overlay, (start + end) / 2);
+		const last = segments[segments.length - 1];
+		if (visible === 0) continue;
+		const text = characters(overlay.text).slice(0, visible).join('');
+		if (last && last.text === text && last.end === start) last.end = end;
+		else segments.push({ text, start, end });
+	}
+	return segments;
+}
@@ -0,0 +1,71 @@
+import { EffectLayer } from '@/types/effects';
+import { ProjectClip, TimelineClip } from '@/types/timeline';
+import { createDefaultStack, stackDuration } from '@/lib/effects/stack';
+
+export const MIN_CLIP_DURATION = 0.5;
+export const MAX_CLIP_DURATION = 30;
+
+export function clampClipDuration(duration: number): number {
+	const snapped = Math.round(duration * 10) / 10;
+	return Math.min(Math.max(snapped, MIN_CLIP_DURATION), MAX_CLIP_DURATION);
+}
+
+export function createProjectClip(file: File): ProjectClip {
+	const layers = createDefaultStack();
+	return {
+		id: crypto.randomUUID(),
+		layers,
+		duration: stackDuration(layers),
+		file,
+		previewUrl: URL.createObjectURL(file),
+	};
+}
+
+/**
+ * Seconds clip `index` overlaps the next one. Transitions are capped at half of
+ * either clip, so a clip's incoming and outgoing transitions never overlap.
+ */
+export function transitionDuration(clips: TimelineClip[], index: number): number {
+	const clip = clips[index];
+	const next = clips[index + 1];
+	if (!clip?.transition || !next) return 0;
+	return Math.min(clip.transition.duration, clip.duration / 2, next.duration / 2);
+}
+
+/** Total length of the timeline in seconds; transitions overlap adjacent clips. */
+export function timelineDuration(clips: TimelineClip[]): number {
+	return clips.reduce((total, clip, index) => total + clip.duration - transitionDuration(clips, index), 0);
+}
+
+/** Start time of each clip on the timeline, in seconds. */
+export function clipStartTimes(clips: TimelineClip[]): number[] {
+	const starts: number[] = [];
+	let time = 0;
+	for (let index = 0; index < clips.length; index++) {
+		starts.push(time);
+		time += clips[index].duration - transitionDuration(clips, index);
+	}
+	return starts;
+}
+
+export function moveClip<T>(clips: T[], from: number, to: number): T[] {
+	const moved = [...clips];
+	const [clip] = moved.splice(from, 1);
+	moved.splice(to, 0, clip);
+	return moved;
+}
+
+/**
+ * Applies a new effect stack to a clip. Untrimmed clips (still as long as their
+ * effect) follow the effect's new length; trimmed clips keep their duration.
+ */
+export function withLayers<T extends TimelineClip>(clip: T, layers: EffectLayer[]): T {
+	const untrimmed = clip.duration === stackDuration(clip.layers);
+	const duration = untrimmed ? clampClipDuration(stackDuration(layers)) : clip.duration;
+	return { ...clip, layers, duration };
+}
+
+/** The part of a clip the server needs; the image travels separately. */
+export function toTimelineClip({ id, layers, duration, transition, texts }: TimelineClip): TimelineClip {
+	return { id, layers, duration, transition, texts };
+}
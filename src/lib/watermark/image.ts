@@ -0,0 +1,48 @@
+import { ProjectWatermark } from '@/types/watermark';
+
+// Longest side SVG logos are rasterized at; large enough for a logo on a 4K frame
+const SVG_RASTER_SIZE = 1024;
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+	return new Promise((resolve, reject) => {
+		const image = new Image();
+		image.onload = () => resolve(image);
+		image.onerror = () => reject(new Error('Failed to load the watermark image'));
+		image.src = url;
+	});
+}
+
+// ffmpeg can't decode SVG without librsvg, so vector logos are drawn to a transparent PNG
+async function rasterizeSvg(file: File): Promise<File> {
+	const url = URL.createObjectURL(file);
+	try {
+		const image = await loadImage(url);
+		// SVGs without a width and height report no natural size; draw those square
+		const width = image.naturalWidth || SVG_RASTER_SIZE;
+		const height = image.naturalHeight || SVG_RASTER_SIZE;
+		const scale = SVG_RASTER_SIZE / Math.max(width, height);
+		const canvas = document.createElement('canvas');
+		canvas.width = Math.round(width * scale);
+		canvas.height = Math.round(height * scale);
+		canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+		const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+		if (!blob) throw new Error('Failed to rasterize the SVG watermark');
+		return new File([blob], `${file.name.replace(/\.svg$/i, '')}.png`, { type: 'image/png' });
+	} finally {
+		URL.revokeObjectURL(url);
+	}
+}
+
+/** Prepares an uploaded PNG or SVG logo for preview and export. */
+export async function loadWatermarkImage(file: File): Promise<ProjectWatermark> {
+	let png: File;
+	if (file.type === 'image/png') {
+		png = file;
+	} else if (file.type === 'image/svg+xml') {
+		png = await rasterizeSvg(file);
+	} else {
+		throw new Error('Watermarks must be PNG or SVG images');
+	}
+	return { file: png, fileName: file.name, previewUrl: URL.createObjectURL(png) };
+}
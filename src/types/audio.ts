@@ -0,0 +1,43 @@
+import { z } from "zod";
+
+export const MAX_AUDIO_FADE = 10;
+
+export const AudioTrackSchema = z.object({
+	// Seconds into the file where the track starts
+	offset: z.number().min(0),
+	// Seconds of audio used from the offset
+	duration: z.number().min(0.1),
+	fadeIn: z.number().min(0).max(MAX_AUDIO_FADE),
+	fadeOut: z.number().min(0).max(MAX_AUDIO_FADE),
+	// Repeat the trimmed audio until the video ends; otherwise it is cut at the video's end
+	loop: z.boolean(),
+	// Integrated loudness the output is normalized to (LUFS)
+	targetLufs: z.number().min(-36).max(-5),
+});
+
+export type AudioTrack = z.infer<typeof AudioTrackSchema>;
+
+export const LOUDNESS_TARGETS = [
+	{ label: "Social", value: -14 },
+	{ label: "Podcast", value: -16 },
+	{ label: "Broadcast", value: -23 },
+];
+
+export const DEFAULT_AUDIO_TRACK: AudioTrack = {
+	offset: 0,
+	duration: 30,
+	fadeIn: 1,
+	fadeOut: 2,
+	loop: true,
+	targetLufs: -14,
+};
+
+// Browser-side track: the settings plus the file and what was decoded from it
+export interface ProjectAudio {
+	file: File;
+	track: AudioTrack;
+	/** Length of the whole file in seconds */
+	fileDuration: number;
+	/** Normalized peak per waveform column (0..1) */
+	peaks: number[];
+}
@@ -0,0 +1,39 @@
+import { z } from "zod";
+import { ExportSettings } from "@/types/effects";
+import { ProjectClip } from "@/types/timeline";
+
+export const MAX_BATCH_IMAGES = 500;
+
+// Tokens: {basename} image name without extension, {preset} export preset name,
+// {index} 1-based image number, {effect} effect type, {ext} output extension
+export const DEFAULT_BATCH_NAME_TEMPLATE = "{basename}_{preset}.{ext}";
+
+export const BatchItemStatusSchema = z.enum(["queued", "rendering", "done", "failed", "cancelled"]);
+
+export type BatchItemStatus = z.infer<typeof BatchItemStatusSchema>;
+
+// How much each image's copy of the effect may differ from the original
+export const BatchVariationSchema = z.object({
+	// Intensity moves up to this many points either way
+	intensity: z.number().min(0).max(50),
+	// Pick a random direction for zoom and pan
+	direction: z.boolean(),
+});
+
+export type BatchVariation = z.infer<typeof BatchVariationSchema>;
+
+export const NO_BATCH_VARIATION: BatchVariation = { intensity: 0, direction: false };
+
+// One render: an image through one export preset, named by the template
+export interface BatchItem {
+	id: string;
+	/** The single-clip timeline the image renders as */
+	clip: ProjectClip;
+	presetName: string;
+	settings: ExportSettings;
+	outputName: string;
+	status: BatchItemStatus;
+	progress: number;
+	error?: string;
+	result?: Blob;
+}
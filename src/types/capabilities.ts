@@ -0,0 +1,17 @@
+import { z } from "zod";
+
+export const FFmpegCapabilitiesSchema = z.object({
+	available: z.boolean(),
+	ffmpegPath: z.string().nullable(),
+	ffprobePath: z.string().nullable(),
+	version: z.string().nullable(),
+	encoders: z.record(z.boolean()),
+	filters: z.record(z.boolean()),
+	codecs: z.record(z.boolean()),
+	formats: z.record(z.boolean()),
+	effects: z.record(z.boolean()),
+	error: z.string().optional(),
+	checkedAt: z.number(),
+});
+
+export type FFmpegCapabilities = z.infer<typeof FFmpegCapabilitiesSchema>;
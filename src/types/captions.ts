@@ -0,0 +1,68 @@
+import { z } from "zod";
+import { HexColorSchema, TextFontSchema } from "@/types/text";
+
+export const MAX_CAPTION_CUES = 2000;
+
+export const CaptionCueSchema = z
+	.object({
+		// Seconds on the exported video's timeline
+		start: z.number().min(0),
+		end: z.number().min(0),
+		text: z.string().min(1),
+	})
+	.refine(cue => cue.end > cue.start, { message: "Cues must end after they start", path: ["end"] });
+
+export type CaptionCue = z.infer<typeof CaptionCueSchema>;
+
+// Burned into the picture, or embedded as a subtitle track players can toggle
+export const CaptionModeSchema = z.enum(["BURN_IN", "EMBED"]);
+
+export type CaptionMode = z.infer<typeof CaptionModeSchema>;
+
+export const CaptionPositionSchema = z.enum(["BOTTOM", "MIDDLE", "TOP"]);
+
+export type CaptionPosition = z.infer<typeof CaptionPositionSchema>;
+
+// Burn-in style; sizes are percentages of the frame height, like text overlays
+export const CaptionStyleSchema = z.object({
+	font: TextFontSchema,
+	size: z.number().min(2).max(15),
+	color: HexColorSchema,
+	box: z.boolean(),
+	boxColor: HexColorSchema,
+	boxOpacity: z.number().min(0).max(1),
+	position: CaptionPositionSchema,
+	margin: z.number().min(0).max(25),
+});
+
+export type CaptionStyle = z.infer<typeof CaptionStyleSchema>;
+
+export const CaptionOptionsSchema = z.object({
+	mode: CaptionModeSchema,
+	style: CaptionStyleSchema,
+	// ISO 639-2 code written to embedded subtitle tracks
+	language: z.string().regex(/^[a-z]{3}$/, "Language must be a three-letter ISO 639-2 code"),
+});
+
+export type CaptionOptions = z.infer<typeof CaptionOptionsSchema>;
+
+export const DEFAULT_CAPTION_OPTIONS: CaptionOptions = {
+	mode: "BURN_IN",
+	style: {
+		font: "GEIST_SANS",
+		size: 5,
+		color: "#ffffff",
+		box: true,
+		boxColor: "#000000",
+		boxOpacity: 0.6,
+		position: "BOTTOM",
+		margin: 6,
+	},
+	language: "eng",
+};
+
+// Browser-side captions: the editable cues plus how they are rendered
+export interface ProjectCaptions extends CaptionOptions {
+	fileName: string;
+	cues: CaptionCue[];
+}
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { WatermarkOptionsSchema } from "@/types/watermark";
 
 export const EffectTypeSchema = z.enum([
 	"ZOOM",
@@ -13,28 +14,244 @@ export const EffectTypeSchema = z.enum([
 
 export type EffectType = z.infer<typeof EffectTypeSchema>;
 
+export const EasingSchema = z.enum(["LINEAR", "EASE_IN", "EASE_OUT", "EASE_IN_OUT"]);
+
+export type Easing = z.infer<typeof EasingSchema>;
+
 export const EffectParamsSchema = z.object({
 	duration: z.number().min(1).max(30),
 	intensity: z.number().min(0).max(100),
 	direction: z.enum(["IN", "OUT", "LEFT", "RIGHT", "UP", "DOWN"]).optional(),
-	easing: z.enum(["LINEAR", "EASE_IN", "EASE_OUT", "EASE_IN_OUT"]),
+	easing: EasingSchema,
 });
 
 export type EffectParams = z.infer<typeof EffectParamsSchema>;
 
+// Animatable parameters. zoom is a scale factor (1 = fit), panX/panY run from
+// -1 (left/top edge) to 1 (right/bottom edge), rotation is in degrees.
+export const KeyframeParamSchema = z.enum(["zoom", "panX", "panY", "rotation", "intensity"]);
+
+export type KeyframeParam = z.infer<typeof KeyframeParamSchema>;
+
+export const KeyframeSchema = z.object({
+	// Seconds from the start of the clip
+	time: z.number().min(0).max(30),
+	value: z.number(),
+	// Easing of the segment from this key to the next
+	easing: EasingSchema,
+});
+
+export type Keyframe = z.infer<typeof KeyframeSchema>;
+
+export const KeyframeTracksSchema = z.object({
+	zoom: z.array(KeyframeSchema).optional(),
+	panX: z.array(KeyframeSchema).optional(),
+	panY: z.array(KeyframeSchema).optional(),
+	rotation: z.array(KeyframeSchema).optional(),
+	intensity: z.array(KeyframeSchema).optional(),
+});
+
+export type KeyframeTracks = z.infer<typeof KeyframeTracksSchema>;
+
+// Parameters each effect can animate with keyframes
+export const EFFECT_KEYFRAME_PARAMS: Record<EffectType, KeyframeParam[]> = {
+	ZOOM: ["zoom", "panX", "panY"],
+	PAN: ["panX", "panY"],
+	PARALLAX: [],
+	WAVE: ["intensity"],
+	PULSE: ["intensity"],
+	ROTATION: ["rotation"],
+	DRIFT: ["intensity"],
+	KEN_BURNS: ["zoom", "panX", "panY"],
+};
+
 export const VideoEffectSchema = z.object({
 	type: EffectTypeSchema,
 	params: EffectParamsSchema,
+	// Tracks override the static params for the parameters they animate
+	keyframes: KeyframeTracksSchema.optional(),
 });
 
 export type VideoEffect = z.infer<typeof VideoEffectSchema>;
 
-export const ExportSettingsSchema = z.object({
+export const MAX_EFFECT_LAYERS = 6;
+
+export const EffectLayerSchema = VideoEffectSchema.extend({
+	id: z.string().min(1),
+	// Muted layers stay in the stack but are skipped when rendering
+	enabled: z.boolean(),
+});
+
+export type EffectLayer = z.infer<typeof EffectLayerSchema>;
+
+// Layers apply first to last: each one animates the output of the layers before it
+export const EffectStackSchema = z
+	.array(EffectLayerSchema)
+	.min(1)
+	.max(MAX_EFFECT_LAYERS)
+	.refine((layers) => layers.some((layer) => layer.enabled), { message: "Enable at least one effect layer" });
+
+export const RateControlSchema = z.discriminatedUnion("mode", [
+	// Constant quality: CRF derived from `quality`
+	z.object({ mode: z.literal("quality") }),
+	// Constant quality, but never above a peak bitrate
+	z.object({ mode: z.literal("bitrate"), maxBitrateKbps: z.number().min(100).max(100000) }),
+	// Two-pass encode aimed at an exact output file size
+	z.object({ mode: z.literal("targetSize"), targetSizeMB: z.number().min(0.1).max(4096) }),
+]);
+
+export type RateControl = z.infer<typeof RateControlSchema>;
+
+export const ExportFormatSchema = z.enum(["mp4", "webm", "mov", "mkv", "gif", "webp"]);
+
+export type ExportFormat = z.infer<typeof ExportFormatSchema>;
+
+export const VideoCodecSchema = z.enum([
+	"h264",
+	"hevc",
+	"vp9",
+	"av1",
+	"prores_422",
+	"prores_4444",
+	"gif",
+	"webp",
+]);
+
+export type VideoCodec = z.infer<typeof VideoCodecSchema>;
+
+export const PixelFormatSchema = z.enum([
+	"yuv420p",
+	"yuv420p10le",
+	"yuv444p",
+	"yuv422p10le",
+	"yuv444p10le",
+	"yuva420p",
+	"yuva444p10le",
+	"bgra",
+	"pal8",
+]);
+
+export type PixelFormat = z.infer<typeof PixelFormatSchema>;
+
+// Codecs each container can carry; the first one is the default
+export const CONTAINER_CODECS: Record<ExportFormat, VideoCodec[]> = {
+	mp4: ["h264", "hevc"],
+	webm: ["vp9", "av1"],
+	mov: ["prores_422", "prores_4444"],
+	mkv: ["h264", "hevc", "vp9", "av1", "prores_422", "prores_4444"],
+	gif: ["gif"],
+	webp: ["webp"],
+};
+
+// Pixel formats each codec can encode; the first one is the default
+export const CODEC_PIXEL_FORMATS: Record<VideoCodec, PixelFormat[]> = {
+	h264: ["yuv420p", "yuv444p"],
+	hevc: ["yuv420p", "yuv420p10le", "yuv444p"],
+	vp9: ["yuv420p", "yuv420p10le", "yuv444p", "yuva420p"],
+	av1: ["yuv420p", "yuv420p10le"],
+	prores_422: ["yuv422p10le"],
+	prores_4444: ["yuva444p10le", "yuv444p10le"],
+	gif: ["pal8"],
+	webp: ["yuv420p", "yuva420p", "bgra"],
+};
+
+export const FORMAT_MIME_TYPES: Record<ExportFormat, string> = {
+	mp4: "video/mp4",
+	webm: "video/webm",
+	mov: "video/quicktime",
+	mkv: "video/x-matroska",
+	gif: "image/gif",
+	webp: "image/webp",
+};
+
+export const GifDitherSchema = z.enum([
+	"none",
+	"bayer",
+	"floyd_steinberg",
+	"sierra2",
+	"sierra2_4a",
+]);
+
+export type GifDither = z.infer<typeof GifDitherSchema>;
+
+export const GifOptionsSchema = z.object({
+	dither: GifDitherSchema,
+	maxColors: z.number().int().min(2).max(256),
+	// GIFs are capped below the export settings to keep files small
+	maxFps: z.number().min(1).max(50),
+	maxWidth: z.number().min(100).max(3840),
+});
+
+export type GifOptions = z.infer<typeof GifOptionsSchema>;
+
+export const DEFAULT_GIF_OPTIONS: GifOptions = {
+	dither: "sierra2_4a",
+	maxColors: 256,
+	maxFps: 15,
+	maxWidth: 800,
+};
+
+export const WebpOptionsSchema = z.object({
+	lossless: z.boolean(),
+});
+
+export type WebpOptions = z.infer<typeof WebpOptionsSchema>;
+
+export const DEFAULT_WEBP_OPTIONS: WebpOptions = {
+	lossless: false,
+};
+
+export function resolveCodec(settings: { format: ExportFormat; codec?: VideoCodec }): VideoCodec {
+	return settings.codec ?? CONTAINER_CODECS[settings.format][0];
+}
+
+export function resolvePixelFormat(settings: { format: ExportFormat; codec?: VideoCodec; pixelFormat?: PixelFormat }): PixelFormat {
+	return settings.pixelFormat ?? CODEC_PIXEL_FORMATS[resolveCodec(settings)][0];
+}
+
+// Codecs without bitrate targeting
+export const QUALITY_ONLY_CODECS: VideoCodec[] = ["prores_422", "prores_4444", "gif", "webp"];
+
+const ExportSettingsObjectSchema = z.object({
 	width: z.number().min(100).max(3840),
 	height: z.number().min(100).max(2160),
 	fps: z.number().min(1).max(60),
-	format: z.enum(["mp4", "webm"]),
+	format: ExportFormatSchema,
+	codec: VideoCodecSchema.optional(),
+	pixelFormat: PixelFormatSchema.optional(),
 	quality: z.number().min(1).max(100),
+	rateControl: RateControlSchema.optional(),
+	gif: GifOptionsSchema.optional(),
+	webp: WebpOptionsSchema.optional(),
+	// Placement of the uploaded logo; ignored when no logo is uploaded
+	watermark: WatermarkOptionsSchema.optional(),
+});
+
+// Rejects codec and pixel format choices the container (or codec) can't hold
+export const ExportSettingsSchema = ExportSettingsObjectSchema.superRefine((settings, ctx) => {
+	const codec = resolveCodec(settings);
+	if (!CONTAINER_CODECS[settings.format].includes(codec)) {
+		ctx.addIssue({
+			code: z.ZodIssueCode.custom,
+			path: ["codec"],
+			message: `${settings.format} cannot contain ${codec}`,
+		});
+		return;
+	}
+	if (settings.pixelFormat && !CODEC_PIXEL_FORMATS[codec].includes(settings.pixelFormat)) {
+		ctx.addIssue({
+			code: z.ZodIssueCode.custom,
+			path: ["pixelFormat"],
+			message: `${codec} does not support ${settings.pixelFormat}`,
+		});
+	}
+	if (QUALITY_ONLY_CODECS.includes(codec) && settings.rateControl && settings.rateControl.mode !== "quality") {
+		ctx.addIssue({
+			code: z.ZodIssueCode.custom,
+			path: ["rateControl"],
+			message: `${codec} only supports constant quality`,
+		});
+	}
 });
 
 export type ExportSettings = z.infer<typeof ExportSettingsSchema>;
@@ -44,8 +261,14 @@ export const ExportPresetSchema = z.object({
 	width: z.number().min(100).max(3840),
 	height: z.number().min(100).max(2160),
 	fps: z.number().min(1).max(60),
-	format: z.enum(["mp4", "webm"]),
+	format: ExportFormatSchema,
+	codec: VideoCodecSchema.optional(),
+	pixelFormat: PixelFormatSchema.optional(),
 	quality: z.number().min(1).max(100),
+	rateControl: RateControlSchema.optional(),
+	gif: GifOptionsSchema.optional(),
+	webp: WebpOptionsSchema.optional(),
+	watermark: WatermarkOptionsSchema.optional(),
 	description: z.string(),
 });
 
@@ -88,6 +311,47 @@ export const EXPORT_PRESETS: ExportPreset[] = [
 		quality: 85,
 		description: 'Vertical (1080x1920) - Optimized for TikTok'
 	},
+	{
+		name: 'Docs GIF',
+		width: 800,
+		height: 450,
+		fps: 15,
+		format: 'gif',
+		quality: 85,
+		gif: { dither: 'sierra2_4a', maxColors: 256, maxFps: 15, maxWidth: 800 },
+		description: 'Looping GIF (800px, 15fps) - For docs and READMEs'
+	},
+	{
+		name: 'Social GIF',
+		width: 480,
+		height: 480,
+		fps: 12,
+		format: 'gif',
+		quality: 70,
+		gif: { dither: 'bayer', maxColors: 128, maxFps: 12, maxWidth: 480 },
+		description: 'Small square GIF (480px, 12fps) - For chats and comments'
+	},
+	{
+		name: 'Animated WebP',
+		width: 1080,
+		height: 1080,
+		fps: 24,
+		format: 'webp',
+		quality: 80,
+		webp: { lossless: false },
+		description: 'Lossy animated WebP (1080px, 24fps) - Smaller than GIF'
+	},
+	{
+		name: 'Lossless WebP',
+		width: 800,
+		height: 450,
+		fps: 24,
+		format: 'webp',
+		pixelFormat: 'bgra',
+		quality: 100,
+		webp: { lossless: true },
+		description: 'Lossless animated WebP (800px, 24fps) - Pixel-perfect loops'
+	},
 	{
 		name: 'Custom',
 		width: 1920,
@@ -0,0 +1,41 @@
+import { z } from "zod";
+import { ExportFormatSchema } from "@/types/effects";
+
+export const RenderJobStatusSchema = z.enum([
+	"queued",
+	"running",
+	"completed",
+	"failed",
+	"cancelled",
+]);
+
+export type RenderJobStatus = z.infer<typeof RenderJobStatusSchema>;
+
+export const RenderStageSchema = z.enum([
+	"upload",
+	"encode",
+	"finalize",
+]);
+
+export type RenderStage = z.infer<typeof RenderStageSchema>;
+
+export const RenderJobSnapshotSchema = z.object({
+	id: z.string(),
+	status: RenderJobStatusSchema,
+	stage: RenderStageSchema,
+	progress: z.number().min(0).max(100),
+	message: z.string(),
+	error: z.string().optional(),
+	format: ExportFormatSchema,
+	createdAt: z.number(),
+	updatedAt: z.number(),
+});
+
+export type RenderJobSnapshot = z.infer<typeof RenderJobSnapshotSchema>;
+
+// Overall progress range (in percent) covered by each stage
+export const RENDER_STAGE_RANGES: Record<RenderStage, [number, number]> = {
+	upload: [0, 5],
+	encode: [5, 95],
+	finalize: [95, 100],
+};
@@ -0,0 +1,22 @@
+import { z } from "zod";
+
+export const PANEL_MIN_WIDTH = 64;
+export const PANEL_MAX_WIDTH = 480;
+
+// The side panels' state, kept with auto-saved sessions
+export const PanelLayoutSchema = z.object({
+	sidebarCollapsed: z.boolean(),
+	rightPanelCollapsed: z.boolean(),
+	// Pixel widths while expanded; collapsed panels shrink to the minimum
+	sidebarWidth: z.number().min(PANEL_MIN_WIDTH).max(PANEL_MAX_WIDTH),
+	rightPanelWidth: z.number().min(PANEL_MIN_WIDTH).max(PANEL_MAX_WIDTH),
+});
+
+export type PanelLayout = z.infer<typeof PanelLayoutSchema>;
+
+export const DEFAULT_PANEL_LAYOUT: PanelLayout = {
+	sidebarCollapsed: false,
+	rightPanelCollapsed: false,
+	sidebarWidth: 320,
+	rightPanelWidth: 320,
+};
@@ -0,0 +1,64 @@
+import { z } from "zod";
+import { ExportPresetSchema, VideoEffectSchema } from "@/types/effects";
+
+export const MAX_EFFECT_PRESETS = 200;
+
+export const MAX_PRESET_NAME_LENGTH = 60;
+
+// What a shared preset carries; ids and favorites stay with whoever saved it
+export const EffectPresetDataSchema = z.object({
+	name: z.string().trim().min(1).max(MAX_PRESET_NAME_LENGTH),
+	description: z.string().trim().max(200),
+	// Free-form grouping, e.g. a client or a house style
+	category: z.string().trim().min(1).max(40),
+	effect: VideoEffectSchema,
+});
+
+export type EffectPresetData = z.infer<typeof EffectPresetDataSchema>;
+
+export const EffectPresetSchema = EffectPresetDataSchema.extend({
+	id: z.string().min(1),
+	// Built-in presets can't be edited or deleted, only duplicated
+	builtIn: z.boolean().optional(),
+	createdAt: z.number(),
+	updatedAt: z.number(),
+});
+
+export type EffectPreset = z.infer<typeof EffectPresetSchema>;
+
+export const EFFECT_PRESET_BUNDLE_FORMAT = "vidnext-effect-presets";
+
+// The JSON file presets are exported to and imported from
+export const EffectPresetBundleSchema = z.object({
+	format: z.literal(EFFECT_PRESET_BUNDLE_FORMAT),
+	version: z.literal(1),
+	presets: z.array(EffectPresetDataSchema).max(MAX_EFFECT_PRESETS),
+});
+
+export type EffectPresetBundle = z.infer<typeof EffectPresetBundleSchema>;
+
+export const MAX_EXPORT_PRESETS = 100;
+
+// A saved export preset; built-in presets come from EXPORT_PRESETS and are never stored
+export const SavedExportPresetSchema = ExportPresetSchema.extend({
+	id: z.string().min(1),
+	name: z.string().trim().min(1).max(MAX_PRESET_NAME_LENGTH),
+	description: z.string().trim().max(200),
+	createdAt: z.number(),
+	updatedAt: z.number(),
+});
+
+export type SavedExportPreset = z.infer<typeof SavedExportPresetSchema>;
+
+export const EXPORT_PRESET_BUNDLE_FORMAT = "vidnext-export-presets";
+
+export const ExportPresetBundleSchema = z.object({
+	format: z.literal(EXPORT_PRESET_BUNDLE_FORMAT),
+	version: z.literal(1),
+	presets: z.array(ExportPresetSchema.extend({
+		name: z.string().trim().min(1).max(MAX_PRESET_NAME_LENGTH),
+		description: z.string().trim().max(200),
+	})).max(MAX_EXPORT_PRESETS),
+});
+
+export type ExportPresetBundle = z.infer<typeof ExportPresetBundleSchema>;
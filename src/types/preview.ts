@@ -0,0 +1,36 @@
+import { z } from "zod";
+
+export const MAX_FILMSTRIP_FRAMES = 60;
+
+export const FilmstripRequestSchema = z.object({
+	// Seconds into the clip; snapped to the export's frames, sorted and deduplicated
+	times: z.array(z.number().min(0)).min(1).max(MAX_FILMSTRIP_FRAMES),
+	// Height of each still in pixels; the width follows the export's aspect ratio
+	frameHeight: z.number().int().min(32).max(360).default(90),
+	// Stills per row of the sprite sheet; a single row when absent
+	columns: z.number().int().min(1).max(MAX_FILMSTRIP_FRAMES).optional(),
+});
+
+export type FilmstripRequest = z.infer<typeof FilmstripRequestSchema>;
+
+// As sent by the browser, before defaults are filled in
+export type FilmstripRequestInput = z.input<typeof FilmstripRequestSchema>;
+
+// Where each still sits in the sprite sheet: left to right, then top to bottom
+export const FilmstripLayoutSchema = z.object({
+	// Time of each still after snapping, in sheet order
+	times: z.array(z.number()),
+	columns: z.number().int().min(1),
+	frameWidth: z.number().int().min(1),
+	frameHeight: z.number().int().min(1),
+});
+
+export type FilmstripLayout = z.infer<typeof FilmstripLayoutSchema>;
+
+// Sent with the sprite sheet, since an image response can't carry its own layout
+export const FILMSTRIP_LAYOUT_HEADER = "X-Filmstrip-Layout";
+
+// Browser-side filmstrip: the sprite sheet plus where each still sits in it
+export interface Filmstrip extends FilmstripLayout {
+	imageUrl: string;
+}
@@ -0,0 +1,41 @@
+import { z } from "zod";
+import { ExportSettingsSchema } from "@/types/effects";
+import { MAX_TIMELINE_CLIPS, TimelineClipSchema } from "@/types/timeline";
+import { AudioTrackSchema } from "@/types/audio";
+import { CaptionCueSchema, CaptionOptionsSchema, MAX_CAPTION_CUES } from "@/types/captions";
+
+export const PROJECT_FORMAT = "vidnext-project";
+export const PROJECT_FILE_EXTENSION = ".vidnext";
+// The manifest's name inside the archive; assets sit next to it under assets/
+export const PROJECT_MANIFEST_NAME = "project.json";
+
+// Bump with a migration in lib/project/migrations whenever the manifest changes shape
+export const PROJECT_VERSION = 1;
+
+// A file embedded in the archive, with what is needed to rebuild the browser File
+export const ProjectAssetSchema = z.object({
+	path: z.string().regex(/^assets\/[^/]+$/, "Assets must live in the assets folder"),
+	name: z.string().min(1),
+	type: z.string(),
+});
+
+export type ProjectAsset = z.infer<typeof ProjectAssetSchema>;
+
+export const ProjectManifestSchema = z.object({
+	format: z.literal(PROJECT_FORMAT),
+	version: z.literal(PROJECT_VERSION),
+	savedAt: z.number(),
+	// In timeline order, each with the image it animates
+	clips: z.array(TimelineClipSchema.extend({ image: ProjectAssetSchema })).max(MAX_TIMELINE_CLIPS),
+	selectedClipId: z.string().nullable(),
+	exportSettings: ExportSettingsSchema,
+	audio: z.object({ file: ProjectAssetSchema, track: AudioTrackSchema }).nullable(),
+	captions: CaptionOptionsSchema.extend({
+		fileName: z.string(),
+		cues: z.array(CaptionCueSchema).max(MAX_CAPTION_CUES),
+	}).nullable(),
+	// fileName is what was uploaded; SVG logos are embedded as the PNG they were rasterized to
+	watermark: z.object({ file: ProjectAssetSchema, fileName: z.string() }).nullable(),
+});
+
+export type ProjectManifest = z.infer<typeof ProjectManifestSchema>;
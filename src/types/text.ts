@@ -0,0 +1,54 @@
+import { z } from "zod";
+
+export const MAX_TEXT_OVERLAYS = 8;
+
+export const TextFontSchema = z.enum(["GEIST_SANS", "GEIST_MONO", "SANS", "SERIF"]);
+
+export type TextFont = z.infer<typeof TextFontSchema>;
+
+export const TextAnchorSchema = z.enum([
+	"TOP_LEFT",
+	"TOP",
+	"TOP_RIGHT",
+	"LEFT",
+	"CENTER",
+	"RIGHT",
+	"BOTTOM_LEFT",
+	"BOTTOM",
+	"BOTTOM_RIGHT",
+]);
+
+export type TextAnchor = z.infer<typeof TextAnchorSchema>;
+
+export const TextAnimationSchema = z.enum(["NONE", "FADE", "SLIDE_UP", "SLIDE_LEFT", "TYPEWRITER"]);
+
+export type TextAnimation = z.infer<typeof TextAnimationSchema>;
+
+export const HexColorSchema = z.string().regex(/^#[0-9a-f]{6}$/i, "Colors must be #rrggbb");
+
+// Sizes are percentages of the frame height, so the preview and every export size match
+export const TextOverlaySchema = z
+	.object({
+		id: z.string().min(1),
+		// Newlines start a new line; everything else is drawn literally
+		text: z.string().min(1).max(200),
+		font: TextFontSchema,
+		size: z.number().min(2).max(30),
+		color: HexColorSchema,
+		strokeColor: HexColorSchema,
+		strokeWidth: z.number().min(0).max(2),
+		shadow: z.boolean(),
+		anchor: TextAnchorSchema,
+		// Distance from the anchored edges
+		margin: z.number().min(0).max(25),
+		// Seconds into the clip the text appears and disappears
+		start: z.number().min(0),
+		end: z.number().min(0),
+		enter: TextAnimationSchema,
+		exit: TextAnimationSchema,
+		// Seconds the enter and exit animations each take
+		animationDuration: z.number().min(0.1).max(3),
+	})
+	.refine(overlay => overlay.end > overlay.start, { message: "Text must end after it starts", path: ["end"] });
+
+export type TextOverlay = z.infer<typeof TextOverlaySchema>;
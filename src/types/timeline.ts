@@ -0,0 +1,54 @@
+import { z } from "zod";
+import { EasingSchema, EffectStackSchema } from "@/types/effects";
+import { MAX_TEXT_OVERLAYS, TextOverlaySchema } from "@/types/text";
+
+export const MAX_TIMELINE_CLIPS = 40;
+
+export const TransitionTypeSchema = z.enum([
+	"CROSSFADE",
+	"DIP_TO_BLACK",
+	"DIP_TO_WHITE",
+	"WIPE_LEFT",
+	"WIPE_RIGHT",
+	"WIPE_UP",
+	"WIPE_DOWN",
+	"SLIDE_LEFT",
+	"SLIDE_RIGHT",
+	"SLIDE_UP",
+	"SLIDE_DOWN",
+	"CIRCLE_REVEAL",
+	"ZOOM_THROUGH",
+]);
+
+export type TransitionType = z.infer<typeof TransitionTypeSchema>;
+
+export const TransitionSchema = z.object({
+	type: TransitionTypeSchema,
+	// Seconds the two clips overlap; shortened to fit short clips
+	duration: z.number().min(0.1).max(5),
+	easing: EasingSchema,
+});
+
+export type Transition = z.infer<typeof TransitionSchema>;
+
+export const TimelineClipSchema = z.object({
+	id: z.string().min(1),
+	layers: EffectStackSchema,
+	// Seconds on screen; an effect that ends sooner holds its last frame
+	duration: z.number().min(0.5).max(30),
+	// Transition into the next clip; hard cut when absent, ignored on the last clip
+	transition: TransitionSchema.optional(),
+	// Text drawn over the animated clip, in stacking order
+	texts: z.array(TextOverlaySchema).max(MAX_TEXT_OVERLAYS).optional(),
+});
+
+export type TimelineClip = z.infer<typeof TimelineClipSchema>;
+
+// Clips play in order; clip N renders the Nth uploaded image
+export const TimelineSchema = z.array(TimelineClipSchema).min(1).max(MAX_TIMELINE_CLIPS);
+
+// Browser-side clip: the timeline entry plus the image it was made from
+export interface ProjectClip extends TimelineClip {
+	file: File;
+	previewUrl: string;
+}
@@ -0,0 +1,39 @@
+import { z } from "zod";
+
+// Corners keep the logo `margin` from both edges; CUSTOM centers it on x/y
+export const WatermarkAnchorSchema = z.enum(["TOP_LEFT", "TOP_RIGHT", "BOTTOM_LEFT", "BOTTOM_RIGHT", "CUSTOM"]);
+
+export type WatermarkAnchor = z.infer<typeof WatermarkAnchorSchema>;
+
+export const WatermarkOptionsSchema = z.object({
+	anchor: WatermarkAnchorSchema,
+	// Center of the logo for CUSTOM, as fractions of the frame
+	x: z.number().min(0).max(1),
+	y: z.number().min(0).max(1),
+	// Safe margin, as a percentage of the frame height; CUSTOM positions are kept inside it too
+	margin: z.number().min(0).max(20),
+	// Logo width as a percentage of the output width
+	scale: z.number().min(2).max(50),
+	opacity: z.number().min(0).max(1),
+	// Seconds the logo takes to fade in at the start of the video
+	fadeIn: z.number().min(0).max(5),
+});
+
+export type WatermarkOptions = z.infer<typeof WatermarkOptionsSchema>;
+
+export const DEFAULT_WATERMARK_OPTIONS: WatermarkOptions = {
+	anchor: "BOTTOM_RIGHT",
+	x: 0.5,
+	y: 0.5,
+	margin: 5,
+	scale: 12,
+	opacity: 0.8,
+	fadeIn: 0,
+};
+
+// Browser-side logo: always a PNG, with SVGs rasterized on upload
+export interface ProjectWatermark {
+	file: File;
+	fileName: string;
+	previewUrl: string;
+}